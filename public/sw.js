@@ -0,0 +1,189 @@
+// Service worker: app shell for offline start-up, basemap tiles
+// (pre-downloaded packs plus whatever was viewed recently), and Web Push alerts.
+// API calls are never intercepted; the app keeps its own data in IndexedDB.
+
+const SHELL_CACHE = "rh-shell-v1";
+// Must match TILE_CACHE in src/offline/tiles.ts
+const TILE_CACHE = "rh-tiles-v1";
+const RECENT_TILE_CACHE = "rh-tiles-recent-v1";
+const RECENT_TILE_LIMIT = 2000;
+
+const KEEP = [SHELL_CACHE, TILE_CACHE, RECENT_TILE_CACHE];
+const SHELL = ["/", "/index.html", "/manifest.webmanifest", "/icon.svg"];
+// Written by `vite build` (build.manifest in vite.config.ts)
+const ASSET_MANIFEST = "/asset-manifest.json";
+
+const TILE_PATH = /\/\d+\/\d+\/\d+(@2x)?\.(png|jpe?g|webp)$/;
+
+// Every file the current build references: JS chunks, CSS, fonts, images
+async function buildAssets() {
+  const res = await fetch(ASSET_MANIFEST, { cache: "no-cache" });
+  if (!res.ok) throw new Error(`${ASSET_MANIFEST}: ${res.status}`);
+  const files = new Set();
+  for (const chunk of Object.values(await res.json())) {
+    for (const f of [chunk.file, ...(chunk.css || []), ...(chunk.assets || [])]) if (f) files.add(`/${f}`);
+  }
+  return files;
+}
+
+async function cachedPaths(cache) {
+  return new Set((await cache.keys()).map((r) => new URL(r.url).pathname));
+}
+
+// The page has usually loaded its assets before this worker is installed, so
+// they're fetched again here rather than waiting for a request to cache them
+async function precacheAssets() {
+  const files = await buildAssets();
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cachedPaths(cache);
+  await cache.addAll([...files].filter((f) => !cached.has(f)));
+  return files;
+}
+
+// Hashed files from older builds
+async function pruneAssets(files) {
+  const cache = await caches.open(SHELL_CACHE);
+  for (const path of await cachedPaths(cache)) {
+    if (path.startsWith("/assets/") && !files.has(path)) await cache.delete(path);
+  }
+}
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(SHELL_CACHE)
+      .then((c) => c.addAll(SHELL))
+      .then(() => precacheAssets().catch((e) => console.warn("asset precache failed", e)))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((k) => k.startsWith("rh-") && !KEEP.includes(k)).map((k) => caches.delete(k))))
+      .then(() => buildAssets().then(pruneAssets).catch(() => {}))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Tile servers spread load over a/b/c hosts; packs are stored under "a"
+function tileKey(url) {
+  const u = new URL(url);
+  u.hostname = u.hostname.replace(/^[abc]\./, "a.");
+  return u.toString();
+}
+
+async function trimRecentTiles() {
+  const cache = await caches.open(RECENT_TILE_CACHE);
+  const keys = await cache.keys();
+  const extra = keys.length - RECENT_TILE_LIMIT;
+  for (let i = 0; i < extra; i++) await cache.delete(keys[i]);
+}
+
+async function serveTile(request) {
+  const key = tileKey(request.url);
+  const hit = (await caches.open(TILE_CACHE).then((c) => c.match(key))) || (await caches.match(key, { cacheName: RECENT_TILE_CACHE }));
+  if (hit) return hit;
+
+  const res = await fetch(request);
+  if (res.ok || res.type === "opaque") {
+    const copy = res.clone();
+    caches
+      .open(RECENT_TILE_CACHE)
+      .then((c) => c.put(key, copy))
+      .then(trimRecentTiles)
+      .catch(() => {});
+  }
+  return res;
+}
+
+async function serveNavigation(request) {
+  try {
+    const res = await fetch(request);
+    if (res.ok) {
+      const copy = res.clone();
+      caches.open(SHELL_CACHE).then((c) => c.put("/index.html", copy));
+      // sw.js doesn't change between deploys, so a new build is picked up here
+      // rather than by a reinstall
+      precacheAssets().then(pruneAssets).catch(() => {});
+    }
+    return res;
+  } catch {
+    return (await caches.match("/index.html", { cacheName: SHELL_CACHE })) || Response.error();
+  }
+}
+
+// Built assets have content hashes in their names, so a cached copy never goes stale
+async function serveAsset(request) {
+  const hit = await caches.match(request, { cacheName: SHELL_CACHE });
+  if (hit) return hit;
+
+  const res = await fetch(request);
+  if (res.ok) {
+    const copy = res.clone();
+    caches.open(SHELL_CACHE).then((c) => c.put(request, copy));
+  }
+  return res;
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+
+  const url = new URL(request.url);
+  const sameOrigin = url.origin === self.location.origin;
+
+  if (sameOrigin && url.pathname.startsWith("/api/")) return;
+
+  if (request.mode === "navigate") {
+    event.respondWith(serveNavigation(request));
+  } else if (!sameOrigin && TILE_PATH.test(url.pathname)) {
+    event.respondWith(serveTile(request));
+  } else if (sameOrigin && url.pathname.startsWith("/assets/")) {
+    event.respondWith(serveAsset(request));
+  }
+});
+
+// Push payload: { title, body, alertId, severity }. An open, visible
+// dashboard notifies by itself, so stay quiet then.
+self.addEventListener("push", (event) => {
+  let data = {};
+  try {
+    data = event.data ? event.data.json() : {};
+  } catch {
+    data = { body: event.data ? event.data.text() : "" };
+  }
+
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then((windows) => {
+      if (windows.some((w) => w.visibilityState === "visible")) return;
+      return self.registration.showNotification(data.title || "Range Herd alert", {
+        body: data.body || "",
+        // Same tag as the page's own notification, so one alert shows once
+        tag: data.alertId || undefined,
+        icon: "/icon.svg",
+        requireInteraction: data.severity === "critical" || data.severity === "high",
+        data: { url: data.alertId ? `/alerts/${encodeURIComponent(data.alertId)}` : "/" },
+      });
+    })
+  );
+});
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const url = (event.notification.data && event.notification.data.url) || "/";
+
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then((windows) => {
+      const open = windows[0];
+      if (!open) return self.clients.openWindow(url);
+      // navigate() rejects for a tab this worker doesn't control (opened before install)
+      return open
+        .focus()
+        .then((w) => w.navigate(url))
+        .catch(() => self.clients.openWindow(url));
+    })
+  );
+});
@@ -2,62 +2,220 @@ import { useState, useEffect } from "react";
 import Login from "./components/Login";
 import Register from "./components/Register";
 import Dashboard from "./components/Dashboard";
+import ReloginModal from "./components/ReloginModal";
+import AcceptInvitation from "./components/AcceptInvitation";
+import type { InvitationDetails } from "./components/InvitationBanner";
+import { api, ApiError, isAbortError } from "./api";
+import type { Ranch, User } from "./api/types";
+import { clearSession, getAuthState, setSession, useAuth } from "./auth";
+import { disablePush } from "./notifications/push";
+import { clearQueue } from "./offline/queue";
+import { clearSnapshots } from "./offline/snapshot";
+import { navigate, useLocation } from "./router";
 
-type AuthView = "login" | "register" | "dashboard";
+type AuthView = "login" | "register";
+
+// Last ranch list, so an offline start still opens the right ranch
+function cachedRanches(): Ranch[] {
+  try {
+    const data = JSON.parse(localStorage.getItem("ranches") ?? "[]");
+    return Array.isArray(data) ? data : [];
+  } catch {
+    return [];
+  }
+}
 
 export default function App() {
-  const [view, setView] = useState<AuthView>("login");
-  const [user, setUser] = useState<any>(null);
-  const [token, setToken] = useState<string | null>(null);
+  const { route } = useLocation();
+  // Which form an invite link shows before the visitor has signed in
+  const [inviteAuthView, setInviteAuthView] = useState<AuthView>("register");
+  const { token, expired } = useAuth();
+  const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
+  const [ranches, setRanches] = useState<Ranch[]>([]);
+  const [ranchId, setRanchId] = useState<string | null>(() => localStorage.getItem("ranchId"));
+  // Session the ranch list was loaded for; the dashboard waits until it matches.
+  // Keyed by user rather than token so a token refresh doesn't reload it.
+  const sessionKey = token ? String(user?.id ?? "session") : null;
+  const [ranchesFor, setRanchesFor] = useState<string | null>(null);
+  const [ranchesReload, setRanchesReload] = useState(0);
+
+  const inviteToken = route.name === "invite" ? route.token : null;
+  const [invitation, setInvitation] = useState<InvitationDetails | null>(null);
+  const [invitationError, setInvitationError] = useState("");
 
-  // Check if user is already logged in
+  // Check if user is already logged in (the token itself lives in the auth store)
   useEffect(() => {
-    const t = localStorage.getItem("token");
     const storedUser = localStorage.getItem("user");
 
-    if (t && storedUser) {
+    if (getAuthState().token && storedUser) {
       try {
-        setToken(t);
         setUser(JSON.parse(storedUser));
-        setView("dashboard");
       } catch {
-        localStorage.removeItem("token");
         localStorage.removeItem("user");
-        setToken(null);
+        clearSession();
         setUser(null);
-        setView("login");
       }
+    } else if (getAuthState().token) {
+      clearSession();
     }
 
     setLoading(false);
   }, []);
 
-  const handleLogin = (newToken: string, userData: any) => {
-    localStorage.setItem("token", newToken);
+  // Signed-in users have no business on the auth pages
+  useEffect(() => {
+    if (token && (route.name === "login" || route.name === "register")) {
+      navigate({ name: "home" }, { replace: true });
+    }
+  }, [token, route.name]);
+
+  // Look up who sent the invitation and for which ranch
+  useEffect(() => {
+    setInvitation(null);
+    setInvitationError("");
+    if (!inviteToken) return;
+    const ctrl = new AbortController();
+
+    (async () => {
+      try {
+        const data = await api.invitations.lookup(inviteToken, { signal: ctrl.signal });
+        setInvitation({
+          token: inviteToken,
+          email: data.email ?? "",
+          role: data.role ?? "viewer",
+          ranchId: data.ranchId,
+          ranchName: data.ranchName ?? data.ranch?.name ?? "a ranch",
+          invitedBy:
+            (typeof data.invitedBy === "object" ? data.invitedBy.name || data.invitedBy.email : data.invitedBy) ||
+            "A teammate",
+          expiresAt: data.expiresAt,
+        });
+      } catch (e) {
+        if (isAbortError(e)) return;
+        console.error(e);
+        setInvitationError(
+          e instanceof ApiError && e.status !== 0
+            ? e.message || "This invitation is invalid or has expired."
+            : "Could not load invitation. Is the backend running?"
+        );
+      }
+    })();
+
+    return () => ctrl.abort();
+  }, [inviteToken]);
+
+  // Load the ranches this user belongs to and settle on one
+  useEffect(() => {
+    if (!sessionKey) return;
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const data = await api.ranches.list();
+        if (cancelled) return;
+
+        localStorage.setItem("ranches", JSON.stringify(data));
+        setRanches(data);
+        setRanchId((cur) => {
+          const next = data.some((r) => r.id === cur) ? cur : data[0]?.id ?? null;
+          if (next) localStorage.setItem("ranchId", next);
+          return next;
+        });
+      } catch (e) {
+        console.error(e);
+        if (cancelled) return;
+        if (e instanceof ApiError && e.status === 0) {
+          // Offline: keep the stored ranch so its snapshot and queued actions line up
+          setRanches(cachedRanches());
+        } else {
+          // Older backends have no ranch list; fall back to the account's default ranch
+          setRanches([]);
+          setRanchId(null);
+        }
+      } finally {
+        if (!cancelled) setRanchesFor(sessionKey);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionKey, ranchesReload]);
+
+  const handleRanchChange = (id: string) => {
+    localStorage.setItem("ranchId", id);
+    setRanchId(id);
+  };
+
+  const clearInvitation = () => {
+    navigate({ name: "home" }, { replace: true, map: null });
+  };
+
+  // Joins the invited ranch and makes it the active one. Throws on failure.
+  const acceptInvitation = async (authToken: string) => {
+    if (!invitation) return;
+
+    let data: { ranchId?: string } | undefined;
+    try {
+      data = await api.invitations.accept(invitation.token, authToken);
+    } catch (e) {
+      // 409: already a member through this invitation
+      if (!(e instanceof ApiError && e.status === 409)) throw e;
+    }
+
+    const joined = data?.ranchId ?? invitation.ranchId;
+    if (joined) {
+      localStorage.setItem("ranchId", joined);
+      setRanchId(joined);
+    }
+    clearInvitation();
+  };
+
+  const handleLogin = async (newToken: string, userData: User, refreshToken?: string | null) => {
+    if (invitation) {
+      try {
+        await acceptInvitation(newToken);
+      } catch (e) {
+        console.error(e);
+      }
+    }
+
     localStorage.setItem("user", JSON.stringify(userData));
-    setToken(newToken);
     setUser(userData);
-    setView("dashboard");
+    setSession(newToken, refreshToken);
   };
 
-  const handleRegister = (newToken: string, userData: any) => {
-    localStorage.setItem("token", newToken);
+  const handleRegister = (newToken: string, userData: User, refreshToken?: string | null) => {
+    // Registration with an invite token already joined the ranch
+    if (invitation) {
+      localStorage.setItem("ranchId", invitation.ranchId);
+      setRanchId(invitation.ranchId);
+      clearInvitation();
+    }
+
     localStorage.setItem("user", JSON.stringify(userData));
-    setToken(newToken);
     setUser(userData);
-    setView("dashboard");
+    setSession(newToken, refreshToken);
   };
 
-  const handleLogout = () => {
-    localStorage.removeItem("token");
+  const handleLogout = async () => {
+    // On a shared computer the next person mustn't get this user's alerts
+    await disablePush().catch((e) => console.error("push unsubscribe failed", e));
+    // Nor replay this user's offline edits or open on their cached ranch data
+    await Promise.all([clearQueue(), clearSnapshots()]);
+
     localStorage.removeItem("user");
-    setToken(null);
+    localStorage.removeItem("ranches");
+    clearSession();
     setUser(null);
-    setView("login");
+    setRanches([]);
+    if (route.name !== "invite") navigate({ name: "login" }, { map: null });
   };
 
-  if (loading) {
+  const invitationPending = !!inviteToken && !invitation && !invitationError;
+
+  if (loading || invitationPending || (sessionKey && ranchesFor !== sessionKey)) {
     return (
       <div
         style={{
@@ -78,19 +236,86 @@ export default function App() {
     );
   }
 
-  if (view === "login") {
-    return <Login onLogin={handleLogin} onSwitchToRegister={() => setView("register")} />;
-  }
+  if (!token) {
+    // Deep links stay in the URL so the dashboard opens on them after login
+    const authView: AuthView =
+      route.name === "invite" ? inviteAuthView : route.name === "register" ? "register" : "login";
+    const switchTo = (next: AuthView) => {
+      if (route.name === "invite") setInviteAuthView(next);
+      else navigate({ name: next }, { map: null });
+    };
 
-  if (view === "register") {
-    return <Register onRegister={handleRegister} onSwitchToLogin={() => setView("login")} />;
+    if (authView === "register") {
+      return (
+        <Register
+          onRegister={handleRegister}
+          onSwitchToLogin={() => switchTo("login")}
+          invitation={invitation}
+          invitationError={invitationError}
+        />
+      );
+    }
+
+    return (
+      <Login
+        onLogin={handleLogin}
+        onSwitchToRegister={() => switchTo("register")}
+        invitation={invitation}
+        invitationError={invitationError}
+      />
+    );
   }
 
-  // Safety: if token missing, force login
-  if (!token) {
-    setView("login");
-    return null;
+  // An invalid or expired link falls through to the dashboard
+  if (route.name === "invite" && invitation) {
+    return (
+      <AcceptInvitation
+        invitation={invitation}
+        currentEmail={user?.email}
+        onAccept={async () => {
+          await acceptInvitation(token);
+          // The ranch list has to include the newly joined ranch
+          setRanchesFor(null);
+          setRanchesReload((n) => n + 1);
+        }}
+        onDecline={clearInvitation}
+        onSwitchAccount={() => {
+          handleLogout();
+          setInviteAuthView("login");
+        }}
+      />
+    );
   }
 
-  return <Dashboard token={token} user={user} onLogout={handleLogout} />;
-}
\ No newline at end of file
+  // Keyed by ranch so switching drops all state scoped to the previous ranch
+  return (
+    <>
+      <Dashboard
+        key={ranchId ?? "default"}
+        token={token}
+        user={user}
+        ranches={ranches}
+        ranchId={ranchId}
+        onRanchChange={handleRanchChange}
+        onLogout={handleLogout}
+      />
+      {expired ? (
+        <ReloginModal
+          email={user?.email}
+          onRelogin={async (newToken, userData, refreshToken) => {
+            // A different account: none of the previous one's ranch data may stay mounted
+            if (user && String(userData.id) !== String(user.id)) {
+              await handleLogout();
+              await handleLogin(newToken, userData, refreshToken);
+              return;
+            }
+            localStorage.setItem("user", JSON.stringify(userData));
+            setUser(userData);
+            setSession(newToken, refreshToken);
+          }}
+          onLogout={handleLogout}
+        />
+      ) : null}
+    </>
+  );
+}
@@ -1,17 +1,79 @@
-import { useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import { GeoJSON, useMap } from "react-leaflet";
+import type { Feature } from "geojson";
+import type L from "leaflet";
+
+import { api, isAbortError } from "./api";
+import type { GeofenceGeometry, ParcelFeatureCollection } from "./api/types";
+import { areaAcres } from "./geo";
+
+export type Parcel = {
+  key: string;
+  owner: string | null;
+  acres: number;
+  geometry: GeofenceGeometry;
+};
 
 type Props = {
-  token: string;
+  ranchId?: string | null;
   enabled?: boolean;
+  selectedKeys?: ReadonlySet<string>;
+  // Parcels become clickable when set
+  onParcelClick?: (parcel: Parcel) => void;
 };
 
-export default function ParcelLinesLayer({ token, enabled = true }: Props) {
+// County exports name these differently; matched case-insensitively
+const ID_KEYS = ["parcel_id", "parcelid", "apn", "pin", "parcel_num", "parcelnumb", "id"];
+const OWNER_KEYS = ["owner", "owner_name", "ownername", "own_name", "owner1"];
+const ACRE_KEYS = ["acres", "acreage", "gis_acres", "calc_acres", "deeded_acres", "area_acres"];
+
+const PARCEL_STYLE = { color: "#eab308", weight: 1.5, opacity: 0.8, fillColor: "#eab308", fillOpacity: 0.04 };
+const SELECTED_PARCEL_STYLE = { color: "#22c55e", weight: 3, opacity: 1, fillColor: "#22c55e", fillOpacity: 0.25 };
+
+function pick(props: Record<string, unknown>, keys: string[]): unknown {
+  const lower = new Map(Object.entries(props).map(([k, v]) => [k.toLowerCase(), v]));
+  for (const k of keys) {
+    const v = lower.get(k);
+    if (v != null && v !== "") return v;
+  }
+  return undefined;
+}
+
+/** Null for features that aren't closed shapes (plain boundary lines). */
+export function parcelFromFeature(feature: Feature): Parcel | null {
+  const geometry = feature.geometry;
+  if (geometry?.type !== "Polygon" && geometry?.type !== "MultiPolygon") return null;
+
+  const props = feature.properties ?? {};
+  const id = pick(props, ID_KEYS) ?? feature.id;
+  const owner = pick(props, OWNER_KEYS);
+  const acres = Number(pick(props, ACRE_KEYS));
+
+  return {
+    key: id != null ? String(id) : JSON.stringify(geometry.coordinates),
+    owner: owner != null ? String(owner) : null,
+    acres: Number.isFinite(acres) && acres > 0 ? acres : areaAcres(geometry),
+    geometry,
+  };
+}
+
+function escapeHtml(s: string) {
+  return s.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+export default function ParcelLinesLayer({ ranchId = null, enabled = true, selectedKeys, onParcelClick }: Props) {
   const map = useMap();
-  const [data, setData] = useState<any>(null);
+  const [data, setData] = useState<ParcelFeatureCollection | null>(null);
+  // Leaflet's GeoJSON layer keeps the data it was built with; remount per fetch
+  const [version, setVersion] = useState(0);
   const abortRef = useRef<AbortController | null>(null);
   const timerRef = useRef<number | null>(null);
 
+  // Features are bound once per fetch; clicks read the current handler
+  const clickRef = useRef(onParcelClick);
+  clickRef.current = onParcelClick;
+  const selectable = !!onParcelClick;
+
   const fetchForViewport = async () => {
     if (!enabled) return;
 
@@ -23,24 +85,14 @@ export default function ParcelLinesLayer({ token, enabled = true }: Props) {
         abortRef.current = new AbortController();
 
         const b = map.getBounds();
-        const bbox = [
-          b.getWest(),
-          b.getSouth(),
-          b.getEast(),
-          b.getNorth(),
-        ].join(",");
-
-        const res = await fetch(`/api/parcel-lines?bbox=${bbox}`, {
-          headers: { Authorization: `Bearer ${token}` },
+        const fc = await api.parcels.lines([b.getWest(), b.getSouth(), b.getEast(), b.getNorth()], {
+          ranchId,
           signal: abortRef.current.signal,
         });
-
-        if (!res.ok) return;
-        const fc = await res.json();
         setData(fc);
-      } catch (e: any) {
-        // ignore abort errors
-        if (e?.name !== "AbortError") console.error(e);
+        setVersion((v) => v + 1);
+      } catch (e) {
+        if (!isAbortError(e)) console.error(e);
       }
     }, 250);
   };
@@ -66,14 +118,44 @@ export default function ParcelLinesLayer({ token, enabled = true }: Props) {
       if (timerRef.current) window.clearTimeout(timerRef.current);
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [token, enabled]);
+  }, [ranchId, enabled]);
+
+  const style = useCallback(
+    (feature?: Feature) => {
+      const parcel = feature ? parcelFromFeature(feature) : null;
+      if (!parcel) return { ...PARCEL_STYLE, dashArray: "4 4", fill: false };
+      return selectedKeys?.has(parcel.key) ? SELECTED_PARCEL_STYLE : PARCEL_STYLE;
+    },
+    [selectedKeys]
+  );
+
+  const onEachFeature = useCallback(
+    (feature: Feature, layer: L.Layer) => {
+      const parcel = parcelFromFeature(feature);
+      if (!parcel) return;
+
+      const rows = [
+        `<div style="font-weight:900">${escapeHtml(parcel.owner ?? "Unknown owner")}</div>`,
+        `<div>${parcel.acres.toLocaleString(undefined, { maximumFractionDigits: 1 })} acres</div>`,
+        `<div style="color:#6b7280">Parcel ${escapeHtml(parcel.key.length > 40 ? "—" : parcel.key)}</div>`,
+      ];
+      if (selectable) rows.push(`<div style="margin-top:6px;color:#6b7280">Click parcels to select them for a fence</div>`);
+      layer.bindPopup(rows.join(""));
+      layer.on("click", () => clickRef.current?.(parcel));
+    },
+    [selectable]
+  );
 
   if (!enabled || !data) return null;
 
   return (
     <GeoJSON
+      key={`${version}:${selectable}`}
       data={data}
-      // No explicit colors set (Leaflet defaults). If you want styling, tell me what you want.
+      style={style}
+      onEachFeature={onEachFeature}
+      // Each remount adds the layer on top; put it back under the fences
+      eventHandlers={{ add: (e) => (e.target as L.GeoJSON).bringToBack() }}
     />
   );
-}
\ No newline at end of file
+}
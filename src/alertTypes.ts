@@ -0,0 +1,43 @@
+// src/alertTypes.ts
+// Display names, badges and units for each alert type. Types the backend
+// adds later fall back to their raw name.
+
+import type { AlertRow, AlertRuleKind } from "./api/types";
+
+type AlertTypeInfo = {
+  badge: string;
+  label: string;
+  color: string;
+  // Telemetry types: how to show the reading
+  unit?: string;
+};
+
+export const ALERT_TYPES: Record<string, AlertTypeInfo> = {
+  geofence_exit: { badge: "EXIT", label: "Left a fence", color: "#f87171" },
+  geofence_enter: { badge: "ENTER", label: "Entered a fence", color: "#fb923c" },
+  battery_low: { badge: "BATTERY", label: "Low battery", color: "#facc15", unit: "%" },
+  signal_weak: { badge: "SIGNAL", label: "Weak signal", color: "#a78bfa", unit: " dBm" },
+  temperature_high: { badge: "HOT", label: "High temperature", color: "#f97316", unit: "°C" },
+  temperature_low: { badge: "COLD", label: "Low temperature", color: "#38bdf8", unit: "°C" },
+  device_offline: { badge: "SILENT", label: "Stopped reporting", color: "#9ca3af", unit: " h" },
+};
+
+export const RULE_KINDS: AlertRuleKind[] = [
+  "battery_low",
+  "signal_weak",
+  "temperature_high",
+  "temperature_low",
+  "device_offline",
+];
+
+export function alertTypeInfo(type: string): AlertTypeInfo {
+  return ALERT_TYPES[type] ?? { badge: type.toUpperCase(), label: type, color: "#e5e7eb" };
+}
+
+/** What the alert is about: the fence name, or the reading ("14%"). */
+export function alertSubject(a: AlertRow): string {
+  const fence = a.geofenceName ?? a.geofence?.name ?? a.geofenceId;
+  if (fence) return fence;
+  if (a.value != null) return `${Number(a.value.toFixed(1))}${alertTypeInfo(a.type).unit ?? ""}`;
+  return "";
+}
@@ -0,0 +1,48 @@
+// src/animals.ts
+// Display helpers for the animal registry. The map, sidebar and alerts name
+// a tracker after the animal wearing it, falling back to the device name.
+
+import type { Animal, AnimalSex, AnimalStatus, DeviceRow } from "./api/types";
+
+export const ANIMAL_SEXES: [AnimalSex, string][] = [
+  ["cow", "Cow"],
+  ["heifer", "Heifer"],
+  ["bull", "Bull"],
+  ["steer", "Steer"],
+  ["calf", "Calf"],
+];
+
+export const ANIMAL_STATUSES: [AnimalStatus, string][] = [
+  ["active", "In herd"],
+  ["sold", "Sold"],
+  ["dead", "Dead"],
+];
+
+/** "Daisy (1042)", or "Tag 1042" for animals without a name. */
+export function animalLabel(a: Pick<Animal, "tagNumber" | "name">): string {
+  return a.name ? `${a.name} (${a.tagNumber})` : `Tag ${a.tagNumber}`;
+}
+
+/** "2 y 3 mo", "5 mo" or "12 d" from a "YYYY-MM-DD" birth date. */
+export function ageLabel(birthDate: string | null | undefined, at = new Date()): string | null {
+  if (!birthDate) return null;
+  const born = new Date(`${birthDate}T00:00:00`);
+  if (!Number.isFinite(born.getTime()) || born > at) return null;
+
+  let months = (at.getFullYear() - born.getFullYear()) * 12 + at.getMonth() - born.getMonth();
+  if (at.getDate() < born.getDate()) months--;
+  if (months < 1) return `${Math.floor((at.getTime() - born.getTime()) / 86400_000)} d`;
+  if (months < 12) return `${months} mo`;
+  return `${Math.floor(months / 12)} y${months % 12 ? ` ${months % 12} mo` : ""}`;
+}
+
+/** The animal wearing each tracker. Sold and dead animals don't count. */
+export function animalsByDevice(animals: Animal[]): Map<string, Animal> {
+  const out = new Map<string, Animal>();
+  for (const a of animals) if (a.deviceId && a.status === "active") out.set(a.deviceId, a);
+  return out;
+}
+
+export function deviceLabel(device: Pick<DeviceRow, "deviceId" | "name">, animal?: Animal | null): string {
+  return animal ? animalLabel(animal) : device.name || device.deviceId;
+}
@@ -0,0 +1,133 @@
+// src/api/client.ts
+// One place that talks HTTP to the backend: base URL, auth + ranch headers,
+// JSON encoding, error objects, cancellation and retry.
+
+import { authFetch, authHeaders } from "../auth";
+import { API_URL } from "../config";
+
+export class ApiError extends Error {
+  // 0 when the request never got a response (offline, DNS, CORS)
+  readonly status: number;
+  readonly body: unknown;
+
+  constructor(status: number, message: string, body?: unknown) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.body = body;
+  }
+}
+
+export function isAbortError(e: unknown): boolean {
+  return e instanceof DOMException && e.name === "AbortError";
+}
+
+export type RequestOptions = {
+  method?: "GET" | "POST" | "PATCH" | "PUT" | "DELETE";
+  body?: unknown;
+  query?: Record<string, string | number | undefined | null>;
+  ranchId?: string | null;
+  signal?: AbortSignal;
+  // Retries for network errors and 502/503/504. Defaults to 2 for GET, 0 otherwise.
+  retries?: number;
+  // "session" uses the shared session (refresh + retry on 401);
+  // "none" sends no credentials; a string sends that token as-is.
+  auth?: "session" | "none" | string;
+};
+
+const RETRY_BASE_MS = 500;
+const RETRYABLE_STATUS = new Set([502, 503, 504]);
+
+function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    const t = window.setTimeout(resolve, ms);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        window.clearTimeout(t);
+        reject(new DOMException("Aborted", "AbortError"));
+      },
+      { once: true }
+    );
+  });
+}
+
+function buildPath(path: string, query?: RequestOptions["query"]) {
+  if (!query) return path;
+  const qs = new URLSearchParams();
+  for (const [k, v] of Object.entries(query)) {
+    if (v != null) qs.set(k, String(v));
+  }
+  const s = qs.toString();
+  return s ? `${path}?${s}` : path;
+}
+
+async function send(path: string, opts: RequestOptions): Promise<Response> {
+  const { method = "GET", body, ranchId, signal, auth = "session" } = opts;
+  const init: RequestInit = {
+    method,
+    signal,
+    headers: body !== undefined ? { "Content-Type": "application/json" } : undefined,
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+  };
+
+  if (auth === "session") return authFetch(path, { ...init, ranchId });
+
+  const token = auth === "none" ? null : auth;
+  return fetch(`${API_URL}${path}`, {
+    ...init,
+    headers: { ...authHeaders(token, ranchId), ...(init.headers as Record<string, string> | undefined) },
+  });
+}
+
+async function toApiError(res: Response): Promise<ApiError> {
+  const text = await res.text().catch(() => "");
+  let body: unknown = text;
+  try {
+    body = text ? JSON.parse(text) : null;
+  } catch {
+    // plain-text error body
+  }
+  const error = body && typeof body === "object" && "error" in body ? body.error : undefined;
+  const message = (typeof error === "string" && error) || `${res.status} ${res.statusText}`.trim();
+  return new ApiError(res.status, message, body);
+}
+
+/**
+ * Typed JSON request. Resolves with the parsed body (undefined for 204),
+ * rejects with ApiError, or with an AbortError if `signal` fires.
+ */
+export async function request<T>(path: string, opts: RequestOptions = {}): Promise<T> {
+  const fullPath = buildPath(path, opts.query);
+  const retries = opts.retries ?? ((opts.method ?? "GET") === "GET" ? 2 : 0);
+
+  for (let attempt = 0; ; attempt++) {
+    let res: Response;
+    try {
+      res = await send(fullPath, opts);
+    } catch (e) {
+      if (isAbortError(e)) throw e;
+      if (attempt < retries) {
+        await sleep(RETRY_BASE_MS * 2 ** attempt, opts.signal);
+        continue;
+      }
+      throw new ApiError(0, "Network error. Is the backend running?");
+    }
+
+    if (RETRYABLE_STATUS.has(res.status) && attempt < retries) {
+      await sleep(RETRY_BASE_MS * 2 ** attempt, opts.signal);
+      continue;
+    }
+
+    if (!res.ok) throw await toApiError(res);
+    if (res.status === 204) return undefined as T;
+
+    const text = await res.text();
+    try {
+      return (text ? JSON.parse(text) : undefined) as T;
+    } catch {
+      // A proxy's HTML error page, or a body cut short
+      throw new ApiError(res.status, "The server sent a response that isn't JSON.", text);
+    }
+  }
+}
@@ -0,0 +1,95 @@
+// src/api/hooks.ts
+// React bindings for the API client
+
+import {
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+  type DependencyList,
+  type Dispatch,
+  type SetStateAction,
+} from "react";
+
+import { ApiError, isAbortError } from "./client";
+
+export type ApiQuery<T> = {
+  data: T;
+  // For optimistic updates and live patches
+  setData: Dispatch<SetStateAction<T>>;
+  error: ApiError | null;
+  loading: boolean;
+  reload: () => Promise<void>;
+};
+
+function sameDeps(a: DependencyList, b: DependencyList) {
+  return a.length === b.length && a.every((v, i) => Object.is(v, b[i]));
+}
+
+function toApiError(e: unknown): ApiError {
+  if (e instanceof ApiError) return e;
+  return new ApiError(0, e instanceof Error ? e.message : String(e));
+}
+
+/**
+ * Loads data when mounted and whenever `deps` change. A newer load (or
+ * unmount) aborts the one in flight. Errors land in `error`; `reload`
+ * never throws.
+ */
+export function useApiQuery<T>(
+  fetcher: (signal: AbortSignal) => Promise<T>,
+  deps: DependencyList,
+  initial: T,
+  opts: { enabled?: boolean } = {}
+): ApiQuery<T> {
+  const enabled = opts.enabled ?? true;
+  const [data, setData] = useState<T>(initial);
+  const [error, setError] = useState<ApiError | null>(null);
+  const [loading, setLoading] = useState(enabled);
+
+  // Bumped when any of `deps` changes, so the load effect has a fixed dependency list
+  const [seenDeps, setSeenDeps] = useState(deps);
+  const [depsVersion, setDepsVersion] = useState(0);
+  if (!sameDeps(seenDeps, deps)) {
+    setSeenDeps(deps);
+    setDepsVersion((v) => v + 1);
+  }
+
+  const fetcherRef = useRef(fetcher);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    fetcherRef.current = fetcher;
+  });
+
+  const reload = useCallback(async () => {
+    abortRef.current?.abort();
+    const ctrl = new AbortController();
+    abortRef.current = ctrl;
+
+    setLoading(true);
+    try {
+      const next = await fetcherRef.current(ctrl.signal);
+      if (ctrl.signal.aborted) return;
+      setData(next);
+      setError(null);
+    } catch (e) {
+      if (isAbortError(e) || ctrl.signal.aborted) return;
+      console.error(e);
+      setError(toApiError(e));
+    } finally {
+      if (abortRef.current === ctrl) setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) {
+      setLoading(false);
+      return;
+    }
+    reload();
+    return () => abortRef.current?.abort();
+  }, [enabled, reload, depsVersion]);
+
+  return { data, setData, error, loading, reload };
+}
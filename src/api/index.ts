@@ -0,0 +1,181 @@
+// src/api/index.ts
+// Typed endpoints. Components use these (directly for actions, through
+// the hooks in ./hooks for data they render) instead of calling fetch.
+
+import { request } from "./client";
+import type {
+  AcceptInvitationResponse,
+  AlertEvent,
+  AlertQuery,
+  AlertRow,
+  AlertRule,
+  Animal,
+  AuthResponse,
+  BulkClaimResult,
+  CreateAlertRuleInput,
+  CreateAnimalInput,
+  CreateGeofenceInput,
+  CreateHerdGroupInput,
+  CreateWeightInput,
+  DeviceAssignment,
+  DeviceRow,
+  Geofence,
+  HerdGroup,
+  InvitationLookup,
+  InviteResponse,
+  LivePoint,
+  ParcelFeatureCollection,
+  PushSubscriptionInput,
+  Ranch,
+  RegisterInput,
+  TeamInvitation,
+  TeamMember,
+  UpdateAlertInput,
+  UpdateAlertRuleInput,
+  UpdateAnimalInput,
+  UpdateGeofenceInput,
+  UpdateHerdGroupInput,
+  WeightRecord,
+} from "./types";
+
+export { ApiError, isAbortError } from "./client";
+
+// Ranch scope + cancellation, accepted by every scoped call
+export type Scope = {
+  ranchId?: string | null;
+  signal?: AbortSignal;
+};
+
+const enc = encodeURIComponent;
+
+export const api = {
+  auth: {
+    login: (email: string, password: string) =>
+      request<AuthResponse>("/api/auth/login", { method: "POST", body: { email, password }, auth: "none" }),
+    register: (input: RegisterInput) =>
+      request<AuthResponse>("/api/auth/register", { method: "POST", body: input, auth: "none" }),
+  },
+
+  ranches: {
+    list: (s: Scope = {}) => request<Ranch[]>("/api/ranches", s),
+  },
+
+  invitations: {
+    lookup: (token: string, s: Scope = {}) =>
+      request<InvitationLookup>(`/api/invitations/${enc(token)}`, { ...s, auth: "none" }),
+    // Called right after login, before the new session is stored
+    accept: (token: string, authToken: string) =>
+      request<AcceptInvitationResponse>(`/api/invitations/${enc(token)}/accept`, {
+        method: "POST",
+        auth: authToken,
+      }),
+  },
+
+  devices: {
+    list: (s: Scope = {}) => request<DeviceRow[]>("/api/devices", s),
+    unclaimed: (s: Scope = {}) => request<DeviceRow[]>("/api/devices/unclaimed", s),
+    claim: (deviceId: string, s: Scope = {}) =>
+      request<DeviceRow>("/api/devices/claim", { ...s, method: "POST", body: { deviceId } }),
+    // Tags the server hasn't heard from yet are claimed too, and show up on their first uplink
+    claimBulk: (devEuis: string[], s: Scope = {}) =>
+      request<BulkClaimResult>("/api/devices/claim-bulk", { ...s, method: "POST", body: { devEuis } }),
+    rename: (deviceId: string, name: string, s: Scope = {}) =>
+      request<DeviceRow>(`/api/devices/${enc(deviceId)}`, { ...s, method: "PATCH", body: { name } }),
+    // Back to the unclaimed pool; its fixes and alerts stay with this ranch
+    unclaim: (deviceId: string, s: Scope = {}) =>
+      request<void>("/api/devices/unclaim", { ...s, method: "POST", body: { deviceId } }),
+    transfer: (deviceId: string, toRanchId: string, s: Scope = {}) =>
+      request<void>("/api/devices/transfer", { ...s, method: "POST", body: { deviceId, toRanchId } }),
+  },
+
+  groups: {
+    list: (s: Scope = {}) => request<HerdGroup[]>("/api/groups", s),
+    create: (input: CreateHerdGroupInput, s: Scope = {}) =>
+      request<HerdGroup>("/api/groups", { ...s, method: "POST", body: input }),
+    update: (id: string, patch: UpdateHerdGroupInput, s: Scope = {}) =>
+      request<HerdGroup>(`/api/groups/${enc(id)}`, { ...s, method: "PATCH", body: patch }),
+    remove: (id: string, s: Scope = {}) => request<void>(`/api/groups/${enc(id)}`, { ...s, method: "DELETE" }),
+  },
+
+  animals: {
+    list: (s: Scope = {}) => request<Animal[]>("/api/animals", s),
+    create: (input: CreateAnimalInput, s: Scope = {}) =>
+      request<Animal>("/api/animals", { ...s, method: "POST", body: input }),
+    update: (id: string, patch: UpdateAnimalInput, s: Scope = {}) =>
+      request<Animal>(`/api/animals/${enc(id)}`, { ...s, method: "PATCH", body: patch }),
+    remove: (id: string, s: Scope = {}) => request<void>(`/api/animals/${enc(id)}`, { ...s, method: "DELETE" }),
+    // Newest first
+    weights: (id: string, s: Scope = {}) => request<WeightRecord[]>(`/api/animals/${enc(id)}/weights`, s),
+    addWeight: (id: string, input: CreateWeightInput, s: Scope = {}) =>
+      request<WeightRecord>(`/api/animals/${enc(id)}/weights`, { ...s, method: "POST", body: input }),
+    // Trackers the animal has worn, newest first
+    devices: (id: string, s: Scope = {}) => request<DeviceAssignment[]>(`/api/animals/${enc(id)}/devices`, s),
+  },
+
+  live: {
+    latest: (s: Scope = {}) => request<LivePoint[]>("/api/live/latest", s),
+    history: (deviceId: string, from: Date, to: Date, s: Scope = {}) =>
+      request<LivePoint[]>("/api/live/history", {
+        ...s,
+        query: { deviceId, from: from.toISOString(), to: to.toISOString() },
+      }),
+    // Every fix the ranch received after `cursor` (a receivedAt timestamp), oldest first
+    since: (cursor: string, s: Scope = {}) => request<LivePoint[]>("/api/live/since", { ...s, query: { after: cursor } }),
+  },
+
+  geofences: {
+    list: (s: Scope = {}) => request<Geofence[]>("/api/geofences", s),
+    create: (input: CreateGeofenceInput, s: Scope = {}) =>
+      request<Geofence>("/api/geofences", { ...s, method: "POST", body: input }),
+    update: (id: string, patch: UpdateGeofenceInput, s: Scope = {}) =>
+      request<Geofence | undefined>(`/api/geofences/${enc(id)}`, { ...s, method: "PATCH", body: patch }),
+    remove: (id: string, s: Scope = {}) => request<void>(`/api/geofences/${enc(id)}`, { ...s, method: "DELETE" }),
+  },
+
+  alerts: {
+    // Newest first
+    list: ({ read, ...query }: AlertQuery = {}, s: Scope = {}) =>
+      request<AlertRow[]>("/api/alerts", { ...s, query: { ...query, read: read == null ? undefined : String(read) } }),
+    get: (id: string, s: Scope = {}) => request<AlertRow>(`/api/alerts/${enc(id)}`, s),
+    markRead: (id: string, s: Scope = {}) => request<void>(`/api/alerts/${enc(id)}/read`, { ...s, method: "PATCH" }),
+    markAllRead: (s: Scope = {}) => request<void>("/api/alerts/read-all", { ...s, method: "POST" }),
+    unreadCount: (s: Scope = {}) => request<{ count: number }>("/api/alerts/unread-count", s),
+    update: (id: string, patch: UpdateAlertInput, s: Scope = {}) =>
+      request<AlertRow | undefined>(`/api/alerts/${enc(id)}`, { ...s, method: "PATCH", body: patch }),
+    timeline: (id: string, s: Scope = {}) => request<AlertEvent[]>(`/api/alerts/${enc(id)}/timeline`, s),
+  },
+
+  alertRules: {
+    list: (s: Scope = {}) => request<AlertRule[]>("/api/alert-rules", s),
+    create: (input: CreateAlertRuleInput, s: Scope = {}) =>
+      request<AlertRule>("/api/alert-rules", { ...s, method: "POST", body: input }),
+    update: (id: string, patch: UpdateAlertRuleInput, s: Scope = {}) =>
+      request<AlertRule>(`/api/alert-rules/${enc(id)}`, { ...s, method: "PATCH", body: patch }),
+    remove: (id: string, s: Scope = {}) => request<void>(`/api/alert-rules/${enc(id)}`, { ...s, method: "DELETE" }),
+  },
+
+  team: {
+    members: (s: Scope = {}) => request<TeamMember[]>("/api/team/members", s),
+    invitations: (s: Scope = {}) => request<TeamInvitation[]>("/api/team/invitations", s),
+    invite: (email: string, role: string, s: Scope = {}) =>
+      request<InviteResponse>("/api/team/invite", { ...s, method: "POST", body: { email, role } }),
+    deleteInvitation: (id: string, s: Scope = {}) =>
+      request<void>(`/api/team/invitations/${enc(id)}`, { ...s, method: "DELETE" }),
+    removeMember: (id: string, s: Scope = {}) =>
+      request<void>(`/api/team/members/${enc(id)}`, { ...s, method: "DELETE" }),
+  },
+
+  // Web Push, per browser. Not ranch-scoped: one subscription covers every ranch.
+  push: {
+    subscribe: (input: PushSubscriptionInput, s: Scope = {}) =>
+      request<void>("/api/push/subscription", { ...s, method: "PUT", body: input }),
+    unsubscribe: (endpoint: string, s: Scope = {}) =>
+      request<void>("/api/push/subscription", { ...s, method: "DELETE", body: { endpoint } }),
+  },
+
+  parcels: {
+    // bbox is west,south,east,north
+    lines: (bbox: [number, number, number, number], s: Scope = {}) =>
+      request<ParcelFeatureCollection>("/api/parcel-lines", { ...s, query: { bbox: bbox.join(",") }, retries: 0 }),
+  },
+};
@@ -0,0 +1,64 @@
+// src/api/live.ts
+// Parsing for the live WebSocket protocol (see LiveMessage in ./types)
+
+import type { AlertRow, DeviceRow, Geofence, LiveClientMessage, LiveMessage, LivePoint } from "./types";
+
+type Fields = Record<string, unknown>;
+
+function isObject(v: unknown): v is Fields {
+  return !!v && typeof v === "object";
+}
+
+function hasId<K extends string>(v: unknown, key: K): v is Fields & Record<K, string> {
+  return isObject(v) && typeof v[key] === "string" && v[key] !== "";
+}
+
+function parseJson(raw: string): unknown {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Parses one frame from the server. Returns null for anything malformed or
+ * of a type this client doesn't know, so newer backends can add messages.
+ */
+export function parseLiveMessage(raw: unknown): LiveMessage | null {
+  if (typeof raw !== "string") return null;
+
+  const msg = parseJson(raw);
+  if (!isObject(msg)) return null;
+
+  // Past the checks below, the rest of each payload is taken on trust
+  const { type, event, data } = msg;
+  switch (type) {
+    case "telemetry":
+      if (!hasId(data, "deviceId") || !Number.isFinite(data.lat) || !Number.isFinite(data.lon)) return null;
+      return { type: "telemetry", data: data as LivePoint };
+
+    case "device":
+      if (!hasId(data, "deviceId")) return null;
+      if (event !== "updated" && event !== "claimed" && event !== "unclaimed") return null;
+      return { type: "device", event, data: data as DeviceRow };
+
+    case "alert":
+      if (!hasId(data, "id")) return null;
+      // Older backends only announce new alerts and send no event
+      return { type: "alert", event: event === "updated" ? "updated" : "created", data: data as AlertRow };
+
+    case "geofence":
+      if (!hasId(data, "id")) return null;
+      if (event === "deleted") return { type: "geofence", event: "deleted", data: { id: data.id } };
+      if (event !== "created" && event !== "updated") return null;
+      return { type: "geofence", event, data: data as Geofence };
+
+    default:
+      return null;
+  }
+}
+
+export function encodeLiveMessage(msg: LiveClientMessage): string {
+  return JSON.stringify(msg);
+}
@@ -0,0 +1,378 @@
+// src/api/types.ts
+// Request/response models for the backend REST API
+
+import type { FeatureCollection, MultiPolygon, Polygon } from "geojson";
+
+export type User = {
+  id: string;
+  email: string;
+  name?: string | null;
+  role?: string;
+};
+
+export type AuthResponse = {
+  token: string;
+  refreshToken?: string | null;
+  user: User;
+};
+
+export type RegisterInput = {
+  email: string;
+  password: string;
+  name: string;
+  // Either create a ranch or join one through an invitation
+  ranchName?: string;
+  inviteToken?: string;
+};
+
+export type Ranch = {
+  id: string;
+  name: string;
+  role: string;
+  // IANA zone fence schedules run in, e.g. "America/Denver". Missing from
+  // older backends; the browser's zone stands in.
+  timeZone?: string | null;
+};
+
+export type LivePoint = {
+  deviceId: string;
+  lat: number;
+  lon: number;
+  altM?: number | null;
+  receivedAt?: string;
+  ts?: string;
+
+  batteryPct?: number | null;
+  batteryV?: number | null;
+  rssi?: number | null;
+  snr?: number | null;
+  temperatureC?: number | null;
+  fCnt?: number | null;
+};
+
+export type DeviceRow = {
+  deviceId: string;
+  devEui?: string | null;
+  name?: string | null;
+  lastSeen?: string | null;
+  createdAt?: string;
+};
+
+export type AnimalSex = "cow" | "heifer" | "bull" | "steer" | "calf";
+export type AnimalStatus = "active" | "sold" | "dead";
+
+// A head of cattle. Trackers move between animals, so the link to a device
+// is the current one only; past links are DeviceAssignment rows.
+export type Animal = {
+  id: string;
+  // Ear tag number, unique per ranch
+  tagNumber: string;
+  name?: string | null;
+  breed?: string | null;
+  sex?: AnimalSex | null;
+  // "YYYY-MM-DD"
+  birthDate?: string | null;
+  // Parents, when they're in the registry
+  damId?: string | null;
+  sireId?: string | null;
+  status: AnimalStatus;
+  // The tracker it wears now
+  deviceId: string | null;
+  notes?: string | null;
+  // Newest weight record, for the list
+  lastWeightKg?: number | null;
+  createdAt: string;
+};
+
+export type CreateAnimalInput = {
+  tagNumber: string;
+  name?: string | null;
+  breed?: string | null;
+  sex?: AnimalSex | null;
+  birthDate?: string | null;
+  damId?: string | null;
+  sireId?: string | null;
+  status?: AnimalStatus;
+  // Moving a tracker that's on another animal unlinks it there
+  deviceId?: string | null;
+  notes?: string | null;
+};
+
+export type UpdateAnimalInput = Partial<CreateAnimalInput>;
+
+export type WeightRecord = {
+  id: string;
+  weighedAt: string;
+  kg: number;
+  note?: string | null;
+};
+
+export type CreateWeightInput = {
+  weighedAt: string;
+  kg: number;
+  note?: string | null;
+};
+
+// One stretch of an animal wearing a tracker; `to` is null while it still does
+export type DeviceAssignment = {
+  id: string;
+  animalId: string;
+  deviceId: string;
+  from: string;
+  to: string | null;
+};
+
+// A named set of devices ("Bulls", "Spring calvers"). A device can be in
+// more than one; the map draws it in the first group's color and icon.
+export type HerdGroup = {
+  id: string;
+  name: string;
+  // CSS color
+  color: string;
+  // A single emoji
+  icon: string;
+  deviceIds: string[];
+  createdAt: string;
+};
+
+export type CreateHerdGroupInput = Omit<HerdGroup, "id" | "createdAt">;
+export type UpdateHerdGroupInput = Partial<CreateHerdGroupInput>;
+
+// Per-tag outcome of a bulk claim; the rest of the batch still goes through
+export type BulkClaimResult = {
+  claimed: DeviceRow[];
+  failed: { devEui: string; reason: string }[];
+};
+
+export type GeofenceGeometry = Polygon | MultiPolygon;
+
+// When a fence is watched. Days are 0 (Sunday) to 6, empty for every day;
+// times are "HH:MM" in the ranch's time zone (Ranch.timeZone), and a window
+// like 20:00-06:00 wraps past midnight.
+export type GeofenceSchedule = {
+  days: number[];
+  start: string;
+  end: string;
+};
+
+// How a fence alerts; the backend evaluates these on every fix
+export type GeofenceRules = {
+  // keep_in alerts when an animal leaves, keep_out when one enters
+  mode: "keep_in" | "keep_out";
+  // null: always active
+  schedule: GeofenceSchedule | null;
+  // A breach must last this long and reach this far past the line before
+  // it alerts, so GPS jitter along the fence doesn't
+  minDwellSec: number;
+  minDistanceM: number;
+  // Both empty: applies to every device on the ranch
+  deviceIds: string[];
+  groupIds: string[];
+};
+
+export type Geofence = {
+  id: string;
+  name: string;
+  type: "circle" | "polygon";
+  centerLat: number | null;
+  centerLon: number | null;
+  radiusM: number | null;
+  // GeoJSON geometry for polygon fences (holes and separate areas allowed); null for circles
+  polygon: GeofenceGeometry | null;
+  // Set on corridors: polygons buffered from a drawn line
+  corridorWidthM?: number | null;
+  // Missing on fences saved before rules existed; read as the defaults
+  rules?: GeofenceRules | null;
+  createdAt: string;
+};
+
+export type CreateGeofenceInput = {
+  name: string;
+  type: "circle" | "polygon";
+  centerLat: number | null;
+  centerLon: number | null;
+  radiusM: number | null;
+  polygon: GeofenceGeometry | null;
+  corridorWidthM?: number | null;
+  rules?: GeofenceRules;
+};
+
+// Partial update; the fence keeps its id and its alert history
+export type UpdateGeofenceInput = {
+  name?: string;
+  centerLat?: number;
+  centerLon?: number;
+  radiusM?: number;
+  polygon?: GeofenceGeometry;
+  rules?: GeofenceRules;
+};
+
+export type AlertStatus = "open" | "acknowledged" | "resolved";
+
+// One entry in an alert's history, oldest first
+export type AlertEvent = {
+  id: string;
+  at: string;
+  action: "created" | "acknowledged" | "assigned" | "resolved" | "reopened" | "note";
+  // Null for events the server raised itself
+  userId: string | null;
+  userName?: string | null;
+  // The new assignee, for "assigned"
+  assigneeId?: string | null;
+  note?: string | null;
+};
+
+// Threshold rules on device telemetry. The backend checks them on every fix
+// (and on a timer for device_offline) and raises alerts of the same type.
+export type AlertRuleKind = "battery_low" | "signal_weak" | "temperature_high" | "temperature_low" | "device_offline";
+
+export type AlertRule = {
+  id: string;
+  kind: AlertRuleKind;
+  name: string;
+  enabled: boolean;
+  // battery_low: %, signal_weak: RSSI dBm, temperature_*: °C, device_offline: hours without a fix
+  threshold: number;
+  severity: "info" | "warning" | "critical";
+  // Both empty: every device on the ranch
+  deviceIds: string[];
+  groupIds: string[];
+  // No second alert for the same device and rule within this many minutes
+  cooldownMin: number;
+  createdAt: string;
+};
+
+export type CreateAlertRuleInput = Omit<AlertRule, "id" | "createdAt">;
+export type UpdateAlertRuleInput = Partial<CreateAlertRuleInput>;
+
+export type AlertRow = {
+  id: string;
+  ranchId: string;
+  deviceId: string;
+  // Null for telemetry alerts
+  geofenceId: string | null;
+  ruleId?: string | null;
+  // The reading that tripped a telemetry rule, in the rule's unit
+  value?: number | null;
+  type: string;
+  severity: string;
+  message: string;
+  lat: number | null;
+  lon: number | null;
+  isRead: boolean;
+  createdAt: string;
+  // Missing on alerts raised before the workflow existed: treat as open
+  status?: AlertStatus;
+  // A user id (TeamMember.userId)
+  assigneeId?: string | null;
+  assigneeName?: string | null;
+  resolutionNote?: string | null;
+  // Set on fence alerts raised under rules: how long and how far the breach went
+  dwellSec?: number | null;
+  distanceM?: number | null;
+  device?: { deviceId: string; name: string | null };
+  geofence?: { name: string };
+  // Optional fields we may attach when broadcasting
+  deviceName?: string | null;
+  geofenceName?: string | null;
+};
+
+// Server-side alert filters, all optional. Pages go back in time: `before`
+// is the createdAt of the oldest alert already loaded.
+export type AlertQuery = {
+  type?: string;
+  severity?: string;
+  deviceId?: string;
+  geofenceId?: string;
+  read?: boolean;
+  // ISO timestamps, from inclusive, to exclusive
+  from?: string;
+  to?: string;
+  // Matches device name, fence name and message
+  q?: string;
+  status?: AlertStatus;
+  assigneeId?: string;
+  // Paging cursor: alerts after (before, beforeId) in newest-first order.
+  // The id breaks ties between alerts created in the same instant.
+  before?: string;
+  beforeId?: string;
+  limit?: number;
+};
+
+// Each change is recorded in the alert's timeline. A note on its own is a
+// comment; with status "resolved" it's the resolution note.
+export type UpdateAlertInput = {
+  status?: AlertStatus;
+  assigneeId?: string | null;
+  note?: string;
+};
+
+// Sent with a push subscription so the server skips what this browser muted
+export type PushPrefs = {
+  // Alert type -> notify; types not listed notify
+  types: Record<string, boolean>;
+  // Silences notifications; days unused (every day)
+  quietHours: GeofenceSchedule | null;
+  // Critical alerts still get through during quiet hours
+  criticalInQuietHours: boolean;
+};
+
+export type PushSubscriptionInput = {
+  subscription: PushSubscriptionJSON;
+  prefs: PushPrefs;
+  // Quiet hours are in this zone
+  timeZone: string;
+};
+
+export type TeamMember = {
+  id: string;
+  userId: string;
+  email: string;
+  name: string | null;
+  role: string;
+  createdAt: string;
+};
+
+export type TeamInvitation = {
+  id: string;
+  email: string;
+  role: string;
+  status: string;
+  expiresAt: string;
+  invitedBy: string;
+  createdAt: string;
+};
+
+export type InviteResponse = {
+  inviteUrl?: string;
+};
+
+// Public lookup of an invite link, before the visitor has an account
+export type InvitationLookup = {
+  email?: string;
+  role?: string;
+  ranchId: string;
+  ranchName?: string;
+  ranch?: { name: string };
+  invitedBy?: string | { name?: string | null; email?: string };
+  expiresAt?: string;
+};
+
+export type AcceptInvitationResponse = {
+  ranchId?: string;
+};
+
+export type ParcelFeatureCollection = FeatureCollection;
+
+// Live WebSocket protocol (/api/live). Server → client messages are
+// applied straight to dashboard state; no REST round-trip per uplink.
+export type LiveMessage =
+  | { type: "telemetry"; data: LivePoint }
+  | { type: "device"; event: "updated" | "claimed" | "unclaimed"; data: DeviceRow }
+  | { type: "alert"; event: "created" | "updated"; data: AlertRow }
+  | { type: "geofence"; event: "created" | "updated"; data: Geofence }
+  | { type: "geofence"; event: "deleted"; data: { id: string } };
+
+// Client → server. "auth" is the first frame on every connection (the token
+// stays out of the URL and so out of access logs) and is sent again on rotation.
+export type LiveClientMessage = { type: "auth"; token: string };
@@ -0,0 +1,180 @@
+// src/auth.ts
+// Session store + authenticated fetch. Tokens are refreshed shortly before
+// they expire; a request that still gets a 401 refreshes once and retries.
+// When refreshing fails the session is marked expired (App shows a re-login
+// modal) instead of dropping the user back to the login page.
+
+import { useSyncExternalStore } from "react";
+
+import { API_URL } from "./config";
+
+export const RANCH_HEADER = "X-Ranch-Id";
+
+// Refresh this long before the JWT's exp claim
+const REFRESH_LEAD_MS = 60_000;
+
+export type AuthState = {
+  token: string | null;
+  refreshToken: string | null;
+  expired: boolean;
+};
+
+let state: AuthState = {
+  token: localStorage.getItem("token"),
+  refreshToken: localStorage.getItem("refreshToken"),
+  expired: false,
+};
+
+const listeners = new Set<() => void>();
+let refreshTimer: number | null = null;
+let inflightRefresh: Promise<boolean> | null = null;
+
+function update(patch: Partial<AuthState>) {
+  state = { ...state, ...patch };
+  listeners.forEach((l) => l());
+}
+
+export function authHeaders(token: string | null, ranchId?: string | null): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (token) headers.Authorization = `Bearer ${token}`;
+  if (ranchId) headers[RANCH_HEADER] = ranchId;
+  return headers;
+}
+
+/**
+ * exp claim of a JWT in ms, or null if the token isn't a readable JWT.
+ */
+function tokenExpiryMs(token: string | null): number | null {
+  if (!token) return null;
+  try {
+    const payload = token.split(".")[1];
+    const json = JSON.parse(atob(payload.replace(/-/g, "+").replace(/_/g, "/")));
+    return typeof json?.exp === "number" ? json.exp * 1000 : null;
+  } catch {
+    return null;
+  }
+}
+
+function scheduleRefresh() {
+  if (refreshTimer) window.clearTimeout(refreshTimer);
+  refreshTimer = null;
+
+  const exp = tokenExpiryMs(state.token);
+  if (!exp) return;
+
+  const delay = Math.max(0, exp - Date.now() - REFRESH_LEAD_MS);
+  refreshTimer = window.setTimeout(() => {
+    refreshSession().then((ok) => {
+      if (!ok) markExpired();
+    });
+  }, delay);
+}
+
+function markExpired() {
+  if (refreshTimer) window.clearTimeout(refreshTimer);
+  refreshTimer = null;
+  if (state.token && !state.expired) update({ expired: true });
+}
+
+export function setSession(token: string, refreshToken?: string | null) {
+  localStorage.setItem("token", token);
+  if (refreshToken) localStorage.setItem("refreshToken", refreshToken);
+  update({ token, refreshToken: refreshToken ?? state.refreshToken, expired: false });
+  scheduleRefresh();
+}
+
+export function clearSession() {
+  localStorage.removeItem("token");
+  localStorage.removeItem("refreshToken");
+  if (refreshTimer) window.clearTimeout(refreshTimer);
+  refreshTimer = null;
+  update({ token: null, refreshToken: null, expired: false });
+}
+
+async function doRefresh(): Promise<boolean> {
+  if (!state.token && !state.refreshToken) return false;
+
+  try {
+    const res = await fetch(`${API_URL}/api/auth/refresh`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...authHeaders(state.token) },
+      body: JSON.stringify({ refreshToken: state.refreshToken }),
+    });
+    if (!res.ok) return false;
+
+    const data = await res.json();
+    if (!data?.token) return false;
+    setSession(data.token, data.refreshToken);
+    return true;
+  } catch (e) {
+    console.error("Token refresh failed:", e);
+    return false;
+  }
+}
+
+/**
+ * Single-flight: concurrent 401s share one refresh request.
+ */
+export function refreshSession(): Promise<boolean> {
+  if (!inflightRefresh) {
+    inflightRefresh = doRefresh().finally(() => {
+      inflightRefresh = null;
+    });
+  }
+  return inflightRefresh;
+}
+
+/**
+ * fetch() against the API with the current token (and ranch scope).
+ * On a 401 it refreshes the token and retries once.
+ */
+export async function authFetch(
+  path: string,
+  init: RequestInit & { ranchId?: string | null } = {}
+): Promise<Response> {
+  const { ranchId, ...rest } = init;
+  const send = () =>
+    fetch(`${API_URL}${path}`, {
+      ...rest,
+      headers: { ...authHeaders(state.token, ranchId), ...(rest.headers as Record<string, string> | undefined) },
+    });
+
+  const res = await send();
+  if (res.status !== 401 || !state.token) return res;
+
+  if (await refreshSession()) {
+    const retried = await send();
+    if (retried.status !== 401) return retried;
+  }
+
+  markExpired();
+  return res;
+}
+
+export function getAuthState(): AuthState {
+  return state;
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function useAuth(): AuthState {
+  return useSyncExternalStore(subscribe, getAuthState);
+}
+
+// Another tab logged in, refreshed or logged out
+window.addEventListener("storage", (e) => {
+  if (e.key !== "token" && e.key !== "refreshToken") return;
+  update({
+    token: localStorage.getItem("token"),
+    refreshToken: localStorage.getItem("refreshToken"),
+    expired: false,
+  });
+  scheduleRefresh();
+});
+
+scheduleRefresh();
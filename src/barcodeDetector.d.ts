@@ -0,0 +1,12 @@
+// Shape Detection API (Chrome, Edge and Android; not yet in TypeScript's DOM lib)
+interface DetectedBarcode {
+  rawValue: string;
+  format: string;
+  boundingBox: DOMRectReadOnly;
+}
+
+declare class BarcodeDetector {
+  constructor(options?: { formats?: string[] });
+  static getSupportedFormats(): Promise<string[]>;
+  detect(source: ImageBitmapSource): Promise<DetectedBarcode[]>;
+}
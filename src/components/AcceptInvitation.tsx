@@ -0,0 +1,128 @@
+import { useState } from "react";
+import InvitationBanner, { type InvitationDetails } from "./InvitationBanner";
+
+type AcceptInvitationProps = {
+  invitation: InvitationDetails;
+  currentEmail?: string | null;
+  onAccept: () => Promise<void>;
+  onDecline: () => void;
+  onSwitchAccount: () => void;
+};
+
+/**
+ * Shown when an invite link is opened while already logged in.
+ */
+export default function AcceptInvitation({
+  invitation,
+  currentEmail,
+  onAccept,
+  onDecline,
+  onSwitchAccount,
+}: AcceptInvitationProps) {
+  const [error, setError] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  const handleAccept = async () => {
+    setError("");
+    setLoading(true);
+    try {
+      await onAccept();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Could not accept invitation");
+      setLoading(false);
+    }
+  };
+
+  const emailMismatch =
+    !!currentEmail && !!invitation.email && currentEmail.toLowerCase() !== invitation.email.toLowerCase();
+
+  return (
+    <div
+      style={{
+        minHeight: "100vh",
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+        background: "linear-gradient(135deg, #0f1117 0%, #1a1f2e 100%)",
+        fontFamily: "'Inter', system-ui, sans-serif",
+      }}
+    >
+      <div
+        style={{
+          width: "100%",
+          maxWidth: 400,
+          padding: 40,
+          background: "#161b27",
+          borderRadius: 12,
+          border: "1px solid #1f2937",
+          boxShadow: "0 10px 40px rgba(0,0,0,0.3)",
+        }}
+      >
+        <div style={{ textAlign: "center", marginBottom: 24 }}>
+          <div style={{ fontSize: 40, marginBottom: 8 }}>🤝</div>
+          <h1 style={{ margin: 0, fontSize: 24, fontWeight: 700, color: "#e5e7eb" }}>Join Ranch</h1>
+        </div>
+
+        <InvitationBanner invitation={invitation} error={error} />
+
+        <div style={{ marginBottom: 20, fontSize: 13, color: "#9ca3af" }}>
+          Logged in as <b style={{ color: "#e5e7eb" }}>{currentEmail ?? "—"}</b>
+          {emailMismatch ? (
+            <div style={{ marginTop: 6, color: "#fbbf24" }}>
+              This invitation was sent to {invitation.email}.
+            </div>
+          ) : null}
+        </div>
+
+        <button
+          onClick={handleAccept}
+          disabled={loading}
+          style={{
+            width: "100%",
+            padding: 12,
+            fontSize: 14,
+            fontWeight: 600,
+            background: loading ? "#374151" : "#22c55e",
+            color: "#fff",
+            border: "none",
+            borderRadius: 6,
+            cursor: loading ? "not-allowed" : "pointer",
+          }}
+        >
+          {loading ? "Joining..." : `Join ${invitation.ranchName}`}
+        </button>
+
+        <div style={{ marginTop: 24, display: "flex", justifyContent: "space-between", fontSize: 13 }}>
+          <button
+            onClick={onDecline}
+            style={{
+              background: "none",
+              border: "none",
+              color: "#9ca3af",
+              cursor: "pointer",
+              textDecoration: "underline",
+              padding: 0,
+              font: "inherit",
+            }}
+          >
+            Not now
+          </button>
+          <button
+            onClick={onSwitchAccount}
+            style={{
+              background: "none",
+              border: "none",
+              color: "#22c55e",
+              cursor: "pointer",
+              textDecoration: "underline",
+              padding: 0,
+              font: "inherit",
+            }}
+          >
+            Use another account
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
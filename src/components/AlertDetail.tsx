@@ -0,0 +1,179 @@
+import { useState } from "react";
+
+import { api } from "../api";
+import { useApiQuery } from "../api/hooks";
+import type { AlertEvent, AlertRow, TeamMember, UpdateAlertInput } from "../api/types";
+
+type AlertDetailProps = {
+  alert: AlertRow;
+  ranchId?: string | null;
+  members: TeamMember[];
+  canHandle?: boolean;
+  // Resolves once sent or queued; rejects when the server refused it
+  onUpdate: (patch: UpdateAlertInput) => Promise<void>;
+};
+
+const ACTION_LABELS: Record<AlertEvent["action"], string> = {
+  created: "Raised",
+  acknowledged: "Acknowledged",
+  assigned: "Assigned",
+  resolved: "Resolved",
+  reopened: "Reopened",
+  note: "Note",
+};
+
+export function memberName(members: TeamMember[], userId: string | null | undefined): string | null {
+  if (!userId) return null;
+  const m = members.find((x) => x.userId === userId);
+  return m ? m.name || m.email : null;
+}
+
+export default function AlertDetail({ alert, ranchId = null, members, canHandle = false, onUpdate }: AlertDetailProps) {
+  const status = alert.status ?? "open";
+  const [note, setNote] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+
+  // Refetched whenever the alert changes, so our own updates show up too
+  const { data: timeline, loading } = useApiQuery(
+    (signal) => api.alerts.timeline(alert.id, { ranchId, signal }),
+    [alert.id, ranchId, status, alert.assigneeId, alert.resolutionNote],
+    [] as AlertEvent[]
+  );
+
+  const run = async (patch: UpdateAlertInput) => {
+    setError("");
+    setBusy(true);
+    try {
+      await onUpdate(patch);
+      if (patch.note) setNote("");
+    } catch (e) {
+      console.error("Failed to update alert:", e);
+      setError("Couldn't update the alert.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const button = (accent: string) =>
+    ({
+      borderRadius: 10,
+      border: `1px solid ${accent}`,
+      background: "rgba(255,255,255,0.06)",
+      color: "#e5e7eb",
+      padding: "6px 10px",
+      cursor: busy ? "not-allowed" : "pointer",
+      fontSize: 12,
+      fontWeight: 800,
+      opacity: busy ? 0.7 : 1,
+    }) as const;
+
+  return (
+    <div
+      onClick={(e) => e.stopPropagation()}
+      style={{ marginTop: 10, paddingTop: 10, borderTop: "1px solid rgba(255,255,255,0.08)", cursor: "default" }}
+    >
+      {alert.resolutionNote ? (
+        <div style={{ fontSize: 12, color: "#cbd5e1", marginBottom: 8 }}>
+          <b>Resolution:</b> {alert.resolutionNote}
+        </div>
+      ) : null}
+
+      {canHandle ? (
+        <>
+          <div style={{ display: "flex", gap: 6, flexWrap: "wrap", alignItems: "center" }}>
+            {status === "open" ? (
+              <button disabled={busy} onClick={() => run({ status: "acknowledged" })} style={button("rgba(245,158,11,0.6)")}>
+                Acknowledge
+              </button>
+            ) : null}
+            {status !== "resolved" ? (
+              <button
+                disabled={busy}
+                onClick={() => run({ status: "resolved", note: note.trim() || undefined })}
+                style={button("rgba(34,197,94,0.6)")}
+              >
+                Resolve{note.trim() ? " with note" : ""}
+              </button>
+            ) : (
+              <button disabled={busy} onClick={() => run({ status: "open" })} style={button("rgba(255,255,255,0.14)")}>
+                Reopen
+              </button>
+            )}
+
+            <select
+              value={alert.assigneeId ?? ""}
+              disabled={busy}
+              onChange={(e) => run({ assigneeId: e.target.value || null })}
+              style={{
+                background: "#0f1117",
+                color: "#e5e7eb",
+                border: "1px solid #374151",
+                borderRadius: 8,
+                padding: "5px 6px",
+                fontSize: 12,
+                minWidth: 0,
+                flex: 1,
+              }}
+            >
+              <option value="">Unassigned</option>
+              {members.map((m) => (
+                <option key={m.userId} value={m.userId}>
+                  {m.name || m.email}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div style={{ marginTop: 8, display: "flex", gap: 6 }}>
+            <textarea
+              value={note}
+              rows={2}
+              placeholder={status === "resolved" ? "Add a note…" : "Note, or how it was resolved…"}
+              onChange={(e) => setNote(e.target.value)}
+              style={{
+                flex: 1,
+                resize: "vertical",
+                background: "#0f1117",
+                color: "#e5e7eb",
+                border: "1px solid #374151",
+                borderRadius: 8,
+                padding: "6px 8px",
+                fontSize: 12,
+                fontFamily: "inherit",
+              }}
+            />
+            <button
+              disabled={busy || !note.trim()}
+              onClick={() => run({ note: note.trim() })}
+              style={{ ...button("rgba(255,255,255,0.14)"), alignSelf: "flex-start" }}
+            >
+              Add note
+            </button>
+          </div>
+
+          {error ? <div style={{ marginTop: 6, fontSize: 12, color: "#fca5a5" }}>{error}</div> : null}
+        </>
+      ) : null}
+
+      <div style={{ marginTop: 10, fontSize: 11, fontWeight: 800, color: "#cbd5e1" }}>Timeline</div>
+      {timeline.length === 0 ? (
+        <div style={{ marginTop: 4, fontSize: 11, color: "#94a3b8" }}>{loading ? "Loading…" : "No history yet."}</div>
+      ) : (
+        <div style={{ marginTop: 4, display: "flex", flexDirection: "column", gap: 4 }}>
+          {timeline.map((ev) => {
+            const who = ev.userName ?? memberName(members, ev.userId) ?? (ev.userId ? "Someone" : "System");
+            const assignee = ev.action === "assigned" ? memberName(members, ev.assigneeId) ?? "nobody" : null;
+            return (
+              <div key={ev.id} style={{ fontSize: 11, color: "#94a3b8" }}>
+                <span style={{ color: "#e5e7eb", fontWeight: 800 }}>{ACTION_LABELS[ev.action] ?? ev.action}</span>
+                {assignee ? ` to ${assignee}` : ""} by {who} • {new Date(ev.at).toLocaleString()}
+                {ev.note ? <div style={{ color: "#cbd5e1", whiteSpace: "pre-wrap" }}>{ev.note}</div> : null}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
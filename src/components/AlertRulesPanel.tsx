@@ -0,0 +1,370 @@
+import { useState } from "react";
+
+import { api } from "../api";
+import { useApiQuery } from "../api/hooks";
+import type { AlertRule, AlertRuleKind, CreateAlertRuleInput, UpdateAlertRuleInput } from "../api/types";
+import { alertTypeInfo, RULE_KINDS } from "../alertTypes";
+
+type Target = { id: string; name: string };
+
+type AlertRulesPanelProps = {
+  ranchId?: string | null;
+  devices: Target[];
+  groups?: Target[];
+  canEdit?: boolean;
+};
+
+// How each kind reads in the form, with a sensible starting threshold
+const RULE_FORM: Record<AlertRuleKind, { prompt: string; threshold: number; step: number }> = {
+  battery_low: { prompt: "Battery below", threshold: 20, step: 5 },
+  signal_weak: { prompt: "RSSI below", threshold: -115, step: 1 },
+  temperature_high: { prompt: "Temperature above", threshold: 40, step: 0.5 },
+  temperature_low: { prompt: "Temperature below", threshold: 2, step: 0.5 },
+  device_offline: { prompt: "No report for more than", threshold: 6, step: 1 },
+};
+
+const SEVERITY_COLORS: Record<AlertRule["severity"], string> = {
+  info: "#93c5fd",
+  warning: "#f59e0b",
+  critical: "#ef4444",
+};
+
+function newRule(kind: AlertRuleKind): CreateAlertRuleInput {
+  return {
+    kind,
+    name: alertTypeInfo(kind).label,
+    enabled: true,
+    threshold: RULE_FORM[kind].threshold,
+    severity: kind === "device_offline" ? "critical" : "warning",
+    deviceIds: [],
+    groupIds: [],
+    cooldownMin: 360,
+  };
+}
+
+export function describeRule(rule: CreateAlertRuleInput): string {
+  const parts = [];
+  if (rule.deviceIds.length) parts.push(`${rule.deviceIds.length} device${rule.deviceIds.length === 1 ? "" : "s"}`);
+  if (rule.groupIds.length) parts.push(`${rule.groupIds.length} group${rule.groupIds.length === 1 ? "" : "s"}`);
+  const targets = parts.length ? parts.join(" + ") : "all devices";
+  return `${RULE_FORM[rule.kind].prompt} ${rule.threshold}${alertTypeInfo(rule.kind).unit ?? ""} • ${targets}`;
+}
+
+const inputStyle = {
+  background: "#0f1117",
+  color: "#e5e7eb",
+  border: "1px solid #374151",
+  borderRadius: 8,
+  padding: "5px 6px",
+  fontSize: 12,
+  minWidth: 0,
+} as const;
+
+const smallButton = {
+  borderRadius: 10,
+  border: "1px solid rgba(255,255,255,0.14)",
+  background: "rgba(255,255,255,0.06)",
+  color: "#e5e7eb",
+  padding: "5px 9px",
+  cursor: "pointer",
+  fontSize: 11,
+  fontWeight: 800,
+  flexShrink: 0,
+} as const;
+
+function RuleForm({
+  initial,
+  devices,
+  groups,
+  onSave,
+  onCancel,
+}: {
+  initial: CreateAlertRuleInput;
+  devices: Target[];
+  groups: Target[];
+  onSave: (rule: CreateAlertRuleInput) => Promise<void>;
+  onCancel: () => void;
+}) {
+  const [draft, setDraft] = useState(initial);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+  const form = RULE_FORM[draft.kind];
+
+  const set = (patch: Partial<CreateAlertRuleInput>) => setDraft((d) => ({ ...d, ...patch }));
+
+  const save = async () => {
+    if (!draft.name.trim() || !Number.isFinite(draft.threshold)) {
+      setError("Give the rule a name and a threshold.");
+      return;
+    }
+    setError("");
+    setSaving(true);
+    try {
+      await onSave({ ...draft, name: draft.name.trim() });
+    } catch (e) {
+      console.error("Failed to save alert rule:", e);
+      setError("Couldn't save the rule.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div
+      style={{
+        marginTop: 8,
+        padding: 10,
+        borderRadius: 10,
+        border: "1px solid rgba(255,255,255,0.08)",
+        background: "rgba(0,0,0,0.15)",
+        display: "flex",
+        flexDirection: "column",
+        gap: 8,
+      }}
+    >
+      <input value={draft.name} onChange={(e) => set({ name: e.target.value })} placeholder="Rule name" style={inputStyle} />
+
+      <div style={{ display: "flex", alignItems: "center", gap: 6, fontSize: 12 }}>
+        <span style={{ color: "#cbd5e1" }}>{form.prompt}</span>
+        <input
+          type="number"
+          step={form.step}
+          value={draft.threshold}
+          onChange={(e) => set({ threshold: Number(e.target.value) })}
+          style={{ ...inputStyle, width: 70 }}
+        />
+        <span style={{ color: "#94a3b8" }}>{alertTypeInfo(draft.kind).unit?.trim()}</span>
+      </div>
+
+      <div style={{ display: "flex", alignItems: "center", gap: 6, fontSize: 12 }}>
+        <select
+          value={draft.severity}
+          onChange={(e) => set({ severity: e.target.value as AlertRule["severity"] })}
+          style={inputStyle}
+        >
+          <option value="info">Info</option>
+          <option value="warning">Warning</option>
+          <option value="critical">Critical</option>
+        </select>
+        <span style={{ color: "#94a3b8" }}>at most every</span>
+        <input
+          type="number"
+          min={0}
+          step={30}
+          value={draft.cooldownMin}
+          onChange={(e) => set({ cooldownMin: Math.max(0, Number(e.target.value) || 0) })}
+          style={{ ...inputStyle, width: 60 }}
+        />
+        <span style={{ color: "#94a3b8" }}>min per device</span>
+      </div>
+
+      <div style={{ display: "flex", gap: 4, flexWrap: "wrap" }}>
+        <button
+          onClick={() => set({ deviceIds: [], groupIds: [] })}
+          style={{
+            ...smallButton,
+            borderColor: draft.deviceIds.length === 0 && draft.groupIds.length === 0 ? "rgba(59,130,246,0.7)" : undefined,
+          }}
+        >
+          All devices
+        </button>
+        {groups.map((g) => {
+          const on = draft.groupIds.includes(g.id);
+          return (
+            <button
+              key={`group:${g.id}`}
+              onClick={() => set({ groupIds: on ? draft.groupIds.filter((x) => x !== g.id) : [...draft.groupIds, g.id] })}
+              style={{ ...smallButton, borderColor: on ? "rgba(59,130,246,0.7)" : undefined }}
+            >
+              {g.name}
+            </button>
+          );
+        })}
+        {devices.map((d) => {
+          const on = draft.deviceIds.includes(d.id);
+          return (
+            <button
+              key={d.id}
+              onClick={() =>
+                set({ deviceIds: on ? draft.deviceIds.filter((x) => x !== d.id) : [...draft.deviceIds, d.id] })
+              }
+              style={{ ...smallButton, borderColor: on ? "rgba(59,130,246,0.7)" : undefined }}
+            >
+              {d.name}
+            </button>
+          );
+        })}
+      </div>
+
+      {error ? <div style={{ fontSize: 12, color: "#fca5a5" }}>{error}</div> : null}
+
+      <div style={{ display: "flex", gap: 6, justifyContent: "flex-end" }}>
+        <button onClick={onCancel} disabled={saving} style={smallButton}>
+          Cancel
+        </button>
+        <button
+          onClick={save}
+          disabled={saving}
+          style={{ ...smallButton, border: "1px solid rgba(34,197,94,0.6)", opacity: saving ? 0.7 : 1 }}
+        >
+          {saving ? "Saving…" : "Save rule"}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default function AlertRulesPanel({ ranchId = null, devices, groups = [], canEdit = false }: AlertRulesPanelProps) {
+  const {
+    data: rules,
+    setData: setRules,
+    loading,
+    reload,
+  } = useApiQuery((signal) => api.alertRules.list({ ranchId, signal }), [ranchId], [] as AlertRule[]);
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [adding, setAdding] = useState<AlertRuleKind | null>(null);
+
+  const create = async (input: CreateAlertRuleInput) => {
+    const rule = await api.alertRules.create(input, { ranchId });
+    setRules((prev) => [...prev, rule]);
+    setAdding(null);
+  };
+
+  const update = async (id: string, patch: UpdateAlertRuleInput) => {
+    const rule = await api.alertRules.update(id, patch, { ranchId });
+    setRules((prev) => prev.map((r) => (r.id === id ? { ...r, ...patch, ...rule } : r)));
+  };
+
+  const toggle = async (rule: AlertRule) => {
+    // optimistic
+    setRules((prev) => prev.map((r) => (r.id === rule.id ? { ...r, enabled: !rule.enabled } : r)));
+    try {
+      await api.alertRules.update(rule.id, { enabled: !rule.enabled }, { ranchId });
+    } catch (e) {
+      console.error("Failed to toggle alert rule:", e);
+      reload();
+    }
+  };
+
+  const remove = async (id: string) => {
+    if (!confirm("Delete this alert rule? Alerts it already raised are kept.")) return;
+    try {
+      await api.alertRules.remove(id, { ranchId });
+      setRules((prev) => prev.filter((r) => r.id !== id));
+    } catch (e) {
+      console.error("Failed to delete alert rule:", e);
+    }
+  };
+
+  return (
+    <div
+      style={{
+        borderRadius: 12,
+        border: "1px solid rgba(255,255,255,0.08)",
+        background: "rgba(255,255,255,0.03)",
+        padding: 12,
+        marginBottom: 12,
+      }}
+    >
+      <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: 10 }}>
+        <div>
+          <div style={{ fontWeight: 900, fontSize: 13 }}>Device alerts</div>
+          <div style={{ fontSize: 11, color: "#94a3b8" }}>Battery, signal, temperature and silent collars.</div>
+        </div>
+        {canEdit ? (
+          <select
+            value=""
+            onChange={(e) => {
+              if (!e.target.value) return;
+              setEditingId(null);
+              setAdding(e.target.value as AlertRuleKind);
+            }}
+            style={{ ...smallButton, appearance: "auto" }}
+          >
+            <option value="">Add rule…</option>
+            {RULE_KINDS.map((k) => (
+              <option key={k} value={k}>
+                {alertTypeInfo(k).label}
+              </option>
+            ))}
+          </select>
+        ) : null}
+      </div>
+
+      {adding ? (
+        <RuleForm
+          key={adding}
+          initial={newRule(adding)}
+          devices={devices}
+          groups={groups}
+          onSave={create}
+          onCancel={() => setAdding(null)}
+        />
+      ) : null}
+
+      {rules.length === 0 ? (
+        <div style={{ marginTop: 10, fontSize: 12, color: "#94a3b8" }}>{loading ? "Loading…" : "No device alert rules yet."}</div>
+      ) : (
+        <div style={{ marginTop: 10, display: "flex", flexDirection: "column", gap: 8 }}>
+          {rules.map((rule) => {
+            const info = alertTypeInfo(rule.kind);
+            return (
+              <div
+                key={rule.id}
+                style={{ borderRadius: 10, border: "1px solid rgba(255,255,255,0.08)", padding: 10, opacity: rule.enabled ? 1 : 0.6 }}
+              >
+                <div style={{ display: "flex", alignItems: "center", gap: 8 }}>
+                  {canEdit ? (
+                    <input type="checkbox" checked={rule.enabled} onChange={() => toggle(rule)} title="Enabled" />
+                  ) : null}
+                  <div style={{ minWidth: 0, flex: 1 }}>
+                    <div style={{ fontWeight: 900, fontSize: 12 }}>
+                      <span style={{ color: info.color }}>{info.badge}</span> {rule.name}
+                    </div>
+                    <div style={{ fontSize: 11, color: "#94a3b8" }}>
+                      {describeRule(rule)} •{" "}
+                      <span style={{ color: SEVERITY_COLORS[rule.severity] }}>{rule.severity}</span>
+                    </div>
+                  </div>
+                  {canEdit && editingId !== rule.id ? (
+                    <>
+                      <button
+                        onClick={() => {
+                          setAdding(null);
+                          setEditingId(rule.id);
+                        }}
+                        style={smallButton}
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => remove(rule.id)}
+                        style={{ ...smallButton, border: "1px solid rgba(239,68,68,0.6)", background: "rgba(239,68,68,0.10)" }}
+                      >
+                        Delete
+                      </button>
+                    </>
+                  ) : null}
+                </div>
+
+                {editingId === rule.id ? (
+                  <RuleForm
+                    initial={rule}
+                    devices={devices}
+                    groups={groups}
+                    onSave={async ({ kind: _kind, ...patch }) => {
+                      await update(rule.id, patch);
+                      setEditingId(null);
+                    }}
+                    onCancel={() => setEditingId(null)}
+                  />
+                ) : null}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
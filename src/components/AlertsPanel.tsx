@@ -1,57 +1,254 @@
-import { useCallback, useEffect, useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 
-import { API_URL } from "../config";
+import { api, isAbortError } from "../api";
+import { runOrQueue } from "../offline/queue";
+import { useApiQuery } from "../api/hooks";
+import type { AlertQuery, AlertRow, AlertStatus, TeamMember, UpdateAlertInput } from "../api/types";
+import { ALERT_TYPES, alertSubject, alertTypeInfo } from "../alertTypes";
+import { formatBreach } from "../geofenceRules";
+import AlertDetail, { memberName } from "./AlertDetail";
 
-export type AlertRow = {
-  id: string;
-  ranchId: string;
-  deviceId: string;
-  geofenceId: string;
+const STATUS_STYLES: Record<AlertStatus, { label: string; color: string }> = {
+  open: { label: "OPEN", color: "#ef4444" },
+  acknowledged: { label: "ACK", color: "#f59e0b" },
+  resolved: { label: "RESOLVED", color: "#22c55e" },
+};
+
+const SEVERITIES = ["info", "warning", "critical"];
+const PAGE_SIZE = 50;
+const SEARCH_DEBOUNCE_MS = 300;
+
+type Option = { id: string; name: string };
+
+type AlertFilters = {
   type: string;
   severity: string;
-  message: string;
-  lat: number | null;
-  lon: number | null;
-  isRead: boolean;
-  createdAt: string;
-  device?: { deviceId: string; name: string | null };
-  geofence?: { name: string };
-  // Optional fields we may attach when broadcasting
-  deviceName?: string | null;
-  geofenceName?: string | null;
+  deviceId: string;
+  geofenceId: string;
+  read: "" | "unread" | "read";
+  status: "" | AlertStatus;
+  assignedToMe: boolean;
+  // Local dates (YYYY-MM-DD), both inclusive
+  fromDate: string;
+  toDate: string;
+  q: string;
 };
 
+const NO_FILTERS: AlertFilters = {
+  type: "",
+  severity: "",
+  deviceId: "",
+  geofenceId: "",
+  read: "",
+  status: "",
+  assignedToMe: false,
+  fromDate: "",
+  toDate: "",
+  q: "",
+};
+
+function toQuery(f: AlertFilters, currentUserId: string): AlertQuery {
+  const endOfDay = (d: string) => {
+    const t = new Date(`${d}T00:00`);
+    t.setDate(t.getDate() + 1);
+    return t.toISOString();
+  };
+  return {
+    type: f.type || undefined,
+    severity: f.severity || undefined,
+    deviceId: f.deviceId || undefined,
+    geofenceId: f.geofenceId || undefined,
+    read: f.read === "" ? undefined : f.read === "read",
+    status: f.status || undefined,
+    assigneeId: f.assignedToMe ? currentUserId : undefined,
+    from: f.fromDate ? new Date(`${f.fromDate}T00:00`).toISOString() : undefined,
+    to: f.toDate ? endOfDay(f.toDate) : undefined,
+    q: f.q.trim() || undefined,
+  };
+}
+
+// Live alerts skip the server, so they're filtered here the same way
+function matches(a: AlertRow, q: AlertQuery): boolean {
+  if (q.type && a.type !== q.type) return false;
+  if (q.severity && a.severity !== q.severity) return false;
+  if (q.deviceId && a.deviceId !== q.deviceId) return false;
+  if (q.geofenceId && a.geofenceId !== q.geofenceId) return false;
+  if (q.read != null && a.isRead !== q.read) return false;
+  if (q.status && (a.status ?? "open") !== q.status) return false;
+  if (q.assigneeId && a.assigneeId !== q.assigneeId) return false;
+  if (q.from && a.createdAt < q.from) return false;
+  if (q.to && a.createdAt >= q.to) return false;
+  if (q.q) {
+    const text = [a.message, a.deviceName, a.device?.name, a.deviceId, a.geofenceName, a.geofence?.name]
+      .filter(Boolean)
+      .join(" ")
+      .toLowerCase();
+    if (!text.includes(q.q.toLowerCase())) return false;
+  }
+  return true;
+}
+
 export default function AlertsPanel({
-  token,
+  ranchId = null,
   incomingAlert,
+  canMarkRead = true,
+  selectedAlertId = null,
+  onSelect,
+  onSelectedResolved,
+  devices = [],
+  geofences = [],
+  currentUserId = "",
+  canHandle = false,
+  onReadChange,
 }: {
-  token: string;
+  ranchId?: string | null;
   incomingAlert: AlertRow | null;
+  canMarkRead?: boolean;
+  selectedAlertId?: string | null;
+  onSelect?: (alert: AlertRow) => void;
+  // Reports the full row for a selection that came from a deep link
+  onSelectedResolved?: (alert: AlertRow) => void;
+  // Filter choices
+  devices?: Option[];
+  geofences?: Option[];
+  currentUserId?: string;
+  canHandle?: boolean;
+  // After this panel marks alerts read or handles one
+  onReadChange?: () => void;
 }) {
-  const [alerts, setAlerts] = useState<AlertRow[]>([]);
-  const [loading, setLoading] = useState(false);
+  const [filters, setFilters] = useState<AlertFilters>(NO_FILTERS);
+  const [showFilters, setShowFilters] = useState(false);
+  // Typing only hits the server once it pauses
+  const [search, setSearch] = useState("");
+  useEffect(() => {
+    const t = window.setTimeout(() => setFilters((f) => (f.q === search ? f : { ...f, q: search })), SEARCH_DEBOUNCE_MS);
+    return () => window.clearTimeout(t);
+  }, [search]);
 
-  const unread = useMemo(() => alerts.filter((a) => !a.isRead).length, [alerts]);
+  const query = useMemo(() => toQuery(filters, currentUserId), [filters, currentUserId]);
+  // Callers pass animal names for tracked devices
+  const deviceNames = useMemo(() => new Map(devices.map((d) => [d.id, d.name])), [devices]);
+  const queryKey = JSON.stringify(query);
+  const activeFilters = Object.entries(filters).filter(
+    ([k, v]) => k !== "q" && k !== "assignedToMe" && v !== ""
+  ).length;
+
+  // Assignees, and names for the timeline
+  const { data: members } = useApiQuery((signal) => api.team.members({ ranchId, signal }), [ranchId], [] as TeamMember[]);
+
+  const [hasMore, setHasMore] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+
+  const {
+    data: alerts,
+    setData: setAlerts,
+    loading,
+    reload: loadAlerts,
+  } = useApiQuery(
+    async (signal) => {
+      const rows = await api.alerts.list({ ...query, limit: PAGE_SIZE }, { ranchId, signal });
+      if (!signal.aborted) setHasMore(rows.length === PAGE_SIZE);
+      return rows;
+    },
+    [ranchId, queryKey],
+    [] as AlertRow[]
+  );
 
-  const loadAlerts = useCallback(async () => {
-    setLoading(true);
+  // Read by the live-alert effect, which mustn't re-run when filters change
+  const queryRef = useRef(query);
+  queryRef.current = query;
+
+  // Older pages, appended as the list scrolls to the bottom
+  const pageAbortRef = useRef<AbortController | null>(null);
+  const loadMoreRef = useRef<() => void>(() => {});
+  loadMoreRef.current = async () => {
+    const oldest = alerts[alerts.length - 1];
+    if (!hasMore || loadingMore || loading || !oldest) return;
+
+    const ctrl = new AbortController();
+    pageAbortRef.current = ctrl;
+    setLoadingMore(true);
     try {
-      const res = await fetch(`${API_URL}/api/alerts`, {
-        headers: { Authorization: `Bearer ${token}` },
+      const rows = await api.alerts.list(
+        { ...query, before: oldest.createdAt, beforeId: oldest.id, limit: PAGE_SIZE },
+        { ranchId, signal: ctrl.signal }
+      );
+      if (ctrl.signal.aborted) return;
+      setAlerts((prev) => {
+        const seen = new Set(prev.map((a) => a.id));
+        return [...prev, ...rows.filter((a) => !seen.has(a.id))];
       });
-      if (!res.ok) throw new Error(`alerts load failed: ${res.status}`);
-      const data = (await res.json()) as AlertRow[];
-      setAlerts(data);
+      setHasMore(rows.length === PAGE_SIZE);
     } catch (e) {
-      console.error(e);
+      if (!isAbortError(e)) console.error(e);
     } finally {
-      setLoading(false);
+      if (pageAbortRef.current === ctrl) {
+        pageAbortRef.current = null;
+        setLoadingMore(false);
+      }
     }
-  }, [token]);
+  };
+
+  // A page for the previous filters or ranch mustn't land in the new list
+  useEffect(() => {
+    pageAbortRef.current?.abort();
+    pageAbortRef.current = null;
+    setLoadingMore(false);
+  }, [ranchId, queryKey, loading]);
+
+  const listRef = useRef<HTMLDivElement | null>(null);
+  const sentinelRef = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel) return;
+    const observer = new IntersectionObserver((entries) => entries[0]?.isIntersecting && loadMoreRef.current(), {
+      root: listRef.current,
+      rootMargin: "120px",
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, alerts.length]);
+
+  // A deep-linked alert that isn't in the loaded pages or doesn't match the filters
+  const [pinned, setPinned] = useState<AlertRow | null>(null);
+  const inList = alerts.some((a) => a.id === selectedAlertId);
+
+  useEffect(() => {
+    if (!selectedAlertId || loading || inList || pinned?.id === selectedAlertId) return;
+    const ctrl = new AbortController();
+    api.alerts
+      .get(selectedAlertId, { ranchId, signal: ctrl.signal })
+      .then(setPinned)
+      .catch((e) => {
+        if (!isAbortError(e)) console.error("Failed to load alert:", e);
+      });
+    return () => ctrl.abort();
+  }, [ranchId, selectedAlertId, loading, inList, pinned?.id]);
+
+  const unread = useMemo(() => alerts.filter((a) => !a.isRead).length, [alerts]);
+  const selected = useMemo(
+    () => alerts.find((a) => a.id === selectedAlertId) ?? (pinned?.id === selectedAlertId ? pinned : null),
+    [alerts, pinned, selectedAlertId]
+  );
+  const showPinned = !!selected && !inList;
+
+  // Changes to one alert, wherever it's shown
+  const patchAlert = useCallback(
+    (id: string, patch: (a: AlertRow) => AlertRow) => {
+      setAlerts((prev) => prev.map((a) => (a.id === id ? patch(a) : a)));
+      setPinned((p) => (p?.id === id ? patch(p) : p));
+    },
+    [setAlerts]
+  );
+
+  const selectedRef = useRef<HTMLDivElement | null>(null);
 
   useEffect(() => {
-    loadAlerts();
-  }, [loadAlerts]);
+    if (!selected) return;
+    onSelectedResolved?.(selected);
+    selectedRef.current?.scrollIntoView({ block: "nearest" });
+  }, [selected, onSelectedResolved]);
 
   useEffect(() => {
     if (!incomingAlert) return;
@@ -61,47 +258,185 @@ export default function AlertsPanel({
       ...incomingAlert,
       isRead: incomingAlert.isRead ?? false,
       createdAt: incomingAlert.createdAt ?? new Date().toISOString(),
-    } as any;
+    };
+
+    setPinned((p) => (p?.id === normalized.id ? { ...p, ...incomingAlert } : p));
 
     setAlerts((prev) => {
-      if (prev.some((a) => a.id === normalized.id)) return prev;
-      return [normalized, ...prev].slice(0, 200);
+      // Updates (someone acknowledged, assigned...) apply in place
+      if (prev.some((a) => a.id === normalized.id)) {
+        return prev.map((a) => (a.id === normalized.id ? { ...a, ...incomingAlert } : a));
+      }
+      // New alerts go on top; an update to one older than the loaded pages stays out
+      if (!matches(normalized, queryRef.current) || (prev[0] && normalized.createdAt < prev[0].createdAt)) return prev;
+      return [normalized, ...prev];
     });
-  }, [incomingAlert]);
+  }, [incomingAlert, setAlerts]);
+
+  const typeOptions = useMemo(
+    () => [...new Set([...Object.keys(ALERT_TYPES), ...alerts.map((a) => a.type)])],
+    [alerts]
+  );
+  const severityOptions = useMemo(() => [...new Set([...SEVERITIES, ...alerts.map((a) => a.severity)])], [alerts]);
+
+  const setFilter = <K extends keyof AlertFilters>(key: K, value: AlertFilters[K]) =>
+    setFilters((f) => ({ ...f, [key]: value }));
+
+  const clearFilters = () => {
+    setSearch("");
+    setFilters(NO_FILTERS);
+  };
+
+  const selectStyle = {
+    background: "#0f1117",
+    color: "#e5e7eb",
+    border: "1px solid #374151",
+    borderRadius: 8,
+    padding: "5px 6px",
+    fontSize: 12,
+    minWidth: 0,
+  } as const;
 
   const markRead = useCallback(
     async (id: string) => {
       // optimistic
-      setAlerts((prev) => prev.map((a) => (a.id === id ? { ...a, isRead: true } : a)));
+      patchAlert(id, (a) => ({ ...a, isRead: true }));
       try {
-        const res = await fetch(`${API_URL}/api/alerts/${id}/read`, {
-          method: "PATCH",
-          headers: { Authorization: `Bearer ${token}` },
-        });
-        if (!res.ok) throw new Error(`mark read failed: ${res.status}`);
+        // Stays read when queued offline; the queue sends it later
+        await runOrQueue({ kind: "alerts.markRead", alertId: id }, ranchId);
+        onReadChange?.();
       } catch (e) {
         console.error(e);
         // revert
-        setAlerts((prev) => prev.map((a) => (a.id === id ? { ...a, isRead: false } : a)));
+        patchAlert(id, (a) => ({ ...a, isRead: false }));
       }
     },
-    [token]
+    [ranchId, patchAlert, onReadChange]
+  );
+
+  const updateAlert = useCallback(
+    async (id: string, patch: UpdateAlertInput) => {
+      // optimistic; handling an alert also reads it
+      patchAlert(id, (a) => {
+        const next: AlertRow = { ...a };
+        if (patch.status) {
+          next.status = patch.status;
+          if (patch.status !== "open") next.isRead = true;
+          if (patch.status === "resolved" && patch.note) next.resolutionNote = patch.note;
+          if (patch.status === "open") next.resolutionNote = null;
+        }
+        if (patch.assigneeId !== undefined) {
+          next.assigneeId = patch.assigneeId;
+          next.assigneeName = memberName(members, patch.assigneeId);
+        }
+        return next;
+      });
+      try {
+        await runOrQueue({ kind: "alerts.update", alertId: id, patch }, ranchId);
+        onReadChange?.();
+      } catch (e) {
+        loadAlerts();
+        setPinned(null);
+        throw e;
+      }
+    },
+    [ranchId, patchAlert, loadAlerts, members, onReadChange]
   );
 
   const markAllRead = useCallback(async () => {
     // optimistic
     setAlerts((prev) => prev.map((a) => ({ ...a, isRead: true })));
+    setPinned((p) => (p ? { ...p, isRead: true } : p));
     try {
-      const res = await fetch(`${API_URL}/api/alerts/read-all`, {
-        method: "POST",
-        headers: { Authorization: `Bearer ${token}` },
-      });
-      if (!res.ok) throw new Error(`read-all failed: ${res.status}`);
+      await runOrQueue({ kind: "alerts.markAllRead" }, ranchId);
+      onReadChange?.();
     } catch (e) {
       console.error(e);
       loadAlerts();
     }
-  }, [token, loadAlerts]);
+  }, [ranchId, setAlerts, loadAlerts, onReadChange]);
+
+  const renderAlert = (a: AlertRow) => {
+    const subject = alertSubject(a);
+    const devName = deviceNames.get(a.deviceId) ?? a.deviceName ?? a.device?.name ?? a.deviceId;
+
+    const info = alertTypeInfo(a.type);
+    const breach = formatBreach(a.dwellSec, a.distanceM);
+    const status = STATUS_STYLES[a.status ?? "open"];
+    const assignee = a.assigneeName ?? memberName(members, a.assigneeId);
+
+    return (
+      <div
+        key={a.id}
+        onClick={() => onSelect?.(a)}
+        ref={a.id === selectedAlertId ? selectedRef : undefined}
+        style={{
+          cursor: onSelect ? "pointer" : "default",
+          outline: a.id === selectedAlertId ? "1px solid rgba(245,158,11,0.9)" : "none",
+          borderTop: "1px solid rgba(255,255,255,0.06)",
+          paddingTop: 10,
+          marginTop: 10,
+          background: a.isRead ? "transparent" : "rgba(255,230,0,0.08)",
+          borderRadius: 10,
+          padding: 10,
+        }}
+      >
+        <div style={{ display: "flex", justifyContent: "space-between", gap: 10 }}>
+          <div style={{ fontWeight: 900, fontSize: 12 }}>
+            <span style={{ color: status.color, marginRight: 6 }}>{status.label}</span>
+            <span style={{ color: info.color }}>{info.badge}</span>
+            {subject ? ` — ${subject}` : ""}
+          </div>
+          <div style={{ fontSize: 11, color: "#94a3b8" }}>{new Date(a.createdAt).toLocaleString()}</div>
+        </div>
+
+        <div style={{ marginTop: 6, fontSize: 12, color: "#e5e7eb" }}>
+          <b>{devName}</b> — {a.message}
+        </div>
+        {breach ? <div style={{ marginTop: 4, fontSize: 11, color: "#94a3b8" }}>{breach}</div> : null}
+        {assignee || a.assigneeId ? (
+          <div style={{ marginTop: 4, fontSize: 11, color: "#94a3b8" }}>
+            Assigned to{" "}
+            <b style={{ color: "#e5e7eb" }}>{a.assigneeId === currentUserId ? "you" : assignee ?? "someone"}</b>
+          </div>
+        ) : null}
+
+        {!a.isRead && canMarkRead ? (
+          <div style={{ marginTop: 8 }}>
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                markRead(a.id);
+              }}
+              style={{
+                width: "100%",
+                borderRadius: 10,
+                border: "1px solid rgba(255,255,255,0.10)",
+                background: "rgba(255,255,255,0.06)",
+                color: "#e5e7eb",
+                padding: "7px 10px",
+                cursor: "pointer",
+                fontSize: 12,
+                fontWeight: 900,
+              }}
+            >
+              Mark read
+            </button>
+          </div>
+        ) : null}
+
+        {a.id === selectedAlertId ? (
+          <AlertDetail
+            alert={a}
+            ranchId={ranchId}
+            members={members}
+            canHandle={canHandle}
+            onUpdate={(patch) => updateAlert(a.id, patch)}
+          />
+        ) : null}
+      </div>
+    );
+  };
 
   return (
     <div
@@ -140,81 +475,176 @@ export default function AlertsPanel({
             {loading ? "…" : "Refresh"}
           </button>
 
+          {canMarkRead ? (
+            <button
+              onClick={markAllRead}
+              style={{
+                borderRadius: 10,
+                border: "1px solid rgba(59,130,246,0.55)",
+                background: "rgba(59,130,246,0.12)",
+                color: "#e5e7eb",
+                padding: "6px 10px",
+                cursor: "pointer",
+                fontSize: 12,
+                fontWeight: 800,
+              }}
+            >
+              Read all
+            </button>
+          ) : null}
+        </div>
+      </div>
+
+      <div style={{ marginTop: 10, display: "flex", gap: 6 }}>
+        {currentUserId ? (
           <button
-            onClick={markAllRead}
+            onClick={() => setFilter("assignedToMe", !filters.assignedToMe)}
+            title="Alerts assigned to me"
             style={{
               borderRadius: 10,
-              border: "1px solid rgba(59,130,246,0.55)",
-              background: "rgba(59,130,246,0.12)",
+              border: filters.assignedToMe ? "1px solid rgba(59,130,246,0.55)" : "1px solid rgba(255,255,255,0.10)",
+              background: filters.assignedToMe ? "rgba(59,130,246,0.12)" : "rgba(255,255,255,0.06)",
               color: "#e5e7eb",
               padding: "6px 10px",
               cursor: "pointer",
               fontSize: 12,
               fontWeight: 800,
+              flexShrink: 0,
             }}
           >
-            Read all
+            Mine
           </button>
-        </div>
+        ) : null}
+        <input
+          type="search"
+          value={search}
+          placeholder="Search alerts…"
+          onChange={(e) => setSearch(e.target.value)}
+          style={{ ...selectStyle, flex: 1 }}
+        />
+        <button
+          onClick={() => setShowFilters((v) => !v)}
+          style={{
+            borderRadius: 10,
+            border: activeFilters ? "1px solid rgba(59,130,246,0.55)" : "1px solid rgba(255,255,255,0.10)",
+            background: activeFilters ? "rgba(59,130,246,0.12)" : "rgba(255,255,255,0.06)",
+            color: "#e5e7eb",
+            padding: "6px 10px",
+            cursor: "pointer",
+            fontSize: 12,
+            fontWeight: 800,
+          }}
+        >
+          Filters{activeFilters ? ` (${activeFilters})` : ""}
+        </button>
       </div>
 
-      <div style={{ marginTop: 10, maxHeight: 220, overflowY: "auto" }}>
+      {showFilters ? (
+        <div style={{ marginTop: 8, display: "grid", gridTemplateColumns: "1fr 1fr", gap: 6 }}>
+          <select value={filters.type} onChange={(e) => setFilter("type", e.target.value)} style={selectStyle}>
+            <option value="">All types</option>
+            {typeOptions.map((t) => (
+              <option key={t} value={t}>
+                {alertTypeInfo(t).label}
+              </option>
+            ))}
+          </select>
+          <select value={filters.severity} onChange={(e) => setFilter("severity", e.target.value)} style={selectStyle}>
+            <option value="">All severities</option>
+            {severityOptions.map((s) => (
+              <option key={s} value={s}>
+                {s}
+              </option>
+            ))}
+          </select>
+          <select value={filters.deviceId} onChange={(e) => setFilter("deviceId", e.target.value)} style={selectStyle}>
+            <option value="">All devices</option>
+            {devices.map((d) => (
+              <option key={d.id} value={d.id}>
+                {d.name}
+              </option>
+            ))}
+          </select>
+          <select
+            value={filters.geofenceId}
+            onChange={(e) => setFilter("geofenceId", e.target.value)}
+            style={selectStyle}
+          >
+            <option value="">All fences</option>
+            {geofences.map((g) => (
+              <option key={g.id} value={g.id}>
+                {g.name}
+              </option>
+            ))}
+          </select>
+          <select
+            value={filters.read}
+            onChange={(e) => setFilter("read", e.target.value as AlertFilters["read"])}
+            style={selectStyle}
+          >
+            <option value="">Read and unread</option>
+            <option value="unread">Unread only</option>
+            <option value="read">Read only</option>
+          </select>
+          <select
+            value={filters.status}
+            onChange={(e) => setFilter("status", e.target.value as AlertFilters["status"])}
+            style={selectStyle}
+          >
+            <option value="">Any status</option>
+            <option value="open">Open</option>
+            <option value="acknowledged">Acknowledged</option>
+            <option value="resolved">Resolved</option>
+          </select>
+          <button
+            onClick={clearFilters}
+            disabled={activeFilters === 0 && !search}
+            style={{ ...selectStyle, cursor: "pointer", fontWeight: 800 }}
+          >
+            Clear filters
+          </button>
+          <label style={{ fontSize: 11, color: "#94a3b8", display: "flex", flexDirection: "column", gap: 2 }}>
+            From
+            <input
+              type="date"
+              value={filters.fromDate}
+              max={filters.toDate || undefined}
+              onChange={(e) => setFilter("fromDate", e.target.value)}
+              style={selectStyle}
+            />
+          </label>
+          <label style={{ fontSize: 11, color: "#94a3b8", display: "flex", flexDirection: "column", gap: 2 }}>
+            To
+            <input
+              type="date"
+              value={filters.toDate}
+              min={filters.fromDate || undefined}
+              onChange={(e) => setFilter("toDate", e.target.value)}
+              style={selectStyle}
+            />
+          </label>
+        </div>
+      ) : null}
+
+      <div ref={listRef} style={{ marginTop: 10, maxHeight: 320, overflowY: "auto" }}>
+        {showPinned && selected ? renderAlert(selected) : null}
         {alerts.length === 0 ? (
-          <div style={{ color: "#94a3b8", fontSize: 12 }}>No alerts yet.</div>
+          <div style={{ color: "#94a3b8", fontSize: 12 }}>
+            {loading
+              ? "Loading…"
+              : activeFilters || filters.q || filters.assignedToMe
+              ? "No alerts match these filters."
+              : "No alerts yet."}
+          </div>
         ) : (
-          alerts.slice(0, 50).map((a) => {
-            const gfName = a.geofenceName ?? a.geofence?.name ?? a.geofenceId;
-            const devName = a.deviceName ?? a.device?.name ?? a.deviceId;
-
-            const badge = a.type === "geofence_exit" ? "EXIT" : a.type === "geofence_enter" ? "ENTER" : a.type;
-
-            return (
-              <div
-                key={a.id}
-                style={{
-                  borderTop: "1px solid rgba(255,255,255,0.06)",
-                  paddingTop: 10,
-                  marginTop: 10,
-                  background: a.isRead ? "transparent" : "rgba(255,230,0,0.08)",
-                  borderRadius: 10,
-                  padding: 10,
-                }}
-              >
-                <div style={{ display: "flex", justifyContent: "space-between", gap: 10 }}>
-                  <div style={{ fontWeight: 900, fontSize: 12 }}>
-                    {badge} — {gfName}
-                  </div>
-                  <div style={{ fontSize: 11, color: "#94a3b8" }}>{new Date(a.createdAt).toLocaleString()}</div>
-                </div>
-
-                <div style={{ marginTop: 6, fontSize: 12, color: "#e5e7eb" }}>
-                  <b>{devName}</b> — {a.message}
-                </div>
-
-                {!a.isRead ? (
-                  <div style={{ marginTop: 8 }}>
-                    <button
-                      onClick={() => markRead(a.id)}
-                      style={{
-                        width: "100%",
-                        borderRadius: 10,
-                        border: "1px solid rgba(255,255,255,0.10)",
-                        background: "rgba(255,255,255,0.06)",
-                        color: "#e5e7eb",
-                        padding: "7px 10px",
-                        cursor: "pointer",
-                        fontSize: 12,
-                        fontWeight: 900,
-                      }}
-                    >
-                      Mark read
-                    </button>
-                  </div>
-                ) : null}
-              </div>
-            );
-          })
+          alerts.map(renderAlert)
         )}
+
+        {hasMore ? (
+          <div ref={sentinelRef} style={{ padding: 10, textAlign: "center", fontSize: 11, color: "#94a3b8" }}>
+            {loadingMore ? "Loading older alerts…" : ""}
+          </div>
+        ) : null}
       </div>
     </div>
   );
@@ -0,0 +1,429 @@
+import { useMemo, useState } from "react";
+
+import { api } from "../api";
+import { useApiQuery } from "../api/hooks";
+import type { Animal, CreateAnimalInput, DeviceAssignment, DeviceRow, WeightRecord } from "../api/types";
+import { ageLabel, ANIMAL_SEXES, ANIMAL_STATUSES, animalLabel, animalsByDevice } from "../animals";
+
+const inputStyle = {
+  background: "#0f1117",
+  color: "#e5e7eb",
+  border: "1px solid #374151",
+  borderRadius: 8,
+  padding: "5px 6px",
+  fontSize: 12,
+  minWidth: 0,
+  width: "100%",
+} as const;
+
+const smallButton = {
+  borderRadius: 10,
+  border: "1px solid rgba(255,255,255,0.14)",
+  background: "rgba(255,255,255,0.06)",
+  color: "#e5e7eb",
+  padding: "5px 9px",
+  cursor: "pointer",
+  fontSize: 11,
+  fontWeight: 800,
+} as const;
+
+const labelStyle = { fontSize: 11, color: "#94a3b8" } as const;
+
+function today() {
+  const d = new Date();
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+type AnimalFormProps = {
+  initial?: Animal | null;
+  animals: Animal[];
+  devices: DeviceRow[];
+  onSave: (input: CreateAnimalInput) => Promise<void>;
+  onCancel: () => void;
+};
+
+/** Create or edit form. Trackers already on another animal are marked, and moving one asks first. */
+export function AnimalForm({ initial = null, animals, devices, onSave, onCancel }: AnimalFormProps) {
+  const [draft, setDraft] = useState<CreateAnimalInput>(() => ({
+    tagNumber: initial?.tagNumber ?? "",
+    name: initial?.name ?? "",
+    breed: initial?.breed ?? "",
+    sex: initial?.sex ?? null,
+    birthDate: initial?.birthDate ?? "",
+    damId: initial?.damId ?? null,
+    sireId: initial?.sireId ?? null,
+    status: initial?.status ?? "active",
+    deviceId: initial?.deviceId ?? null,
+    notes: initial?.notes ?? "",
+  }));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  const set = (patch: Partial<CreateAnimalInput>) => setDraft((d) => ({ ...d, ...patch }));
+  const wearers = useMemo(() => animalsByDevice(animals), [animals]);
+  const others = animals.filter((a) => a.id !== initial?.id);
+
+  const save = async () => {
+    const tagNumber = draft.tagNumber.trim();
+    if (!tagNumber) {
+      setError("Every animal needs its ear tag number.");
+      return;
+    }
+    if (others.some((a) => a.tagNumber === tagNumber)) {
+      setError(`Tag ${tagNumber} is already in the registry.`);
+      return;
+    }
+
+    let deviceId = draft.deviceId || null;
+    if (deviceId && draft.status !== "active") {
+      const status = ANIMAL_STATUSES.find(([s]) => s === draft.status)?.[1].toLowerCase();
+      if (confirm(`Take the tracker off this ${status} animal so it can go on another one?`)) deviceId = null;
+    }
+    const wearer = deviceId ? wearers.get(deviceId) : undefined;
+    if (wearer && wearer.id !== initial?.id && !confirm(`That tracker is on ${animalLabel(wearer)}. Move it?`)) return;
+
+    // Blank text fields are cleared, not saved as ""
+    const blank = (v: string | null | undefined) => (v && v.trim() ? v.trim() : null);
+    setError("");
+    setSaving(true);
+    try {
+      await onSave({
+        ...draft,
+        tagNumber,
+        name: blank(draft.name),
+        breed: blank(draft.breed),
+        birthDate: blank(draft.birthDate),
+        notes: blank(draft.notes),
+        deviceId,
+      });
+    } catch (e) {
+      console.error("Failed to save animal:", e);
+      setError("Couldn't save the animal.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const parentOptions = (sexes: string[]) =>
+    others
+      .filter((a) => !a.sex || sexes.includes(a.sex))
+      .map((a) => (
+        <option key={a.id} value={a.id}>
+          {animalLabel(a)}
+        </option>
+      ));
+
+  return (
+    <div
+      onClick={(e) => e.stopPropagation()}
+      style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 8, marginTop: 8, cursor: "default" }}
+    >
+      <label style={labelStyle}>
+        Ear tag
+        <input value={draft.tagNumber} onChange={(e) => set({ tagNumber: e.target.value })} style={inputStyle} autoFocus />
+      </label>
+      <label style={labelStyle}>
+        Name
+        <input value={draft.name ?? ""} onChange={(e) => set({ name: e.target.value })} style={inputStyle} />
+      </label>
+      <label style={labelStyle}>
+        Breed
+        <input value={draft.breed ?? ""} onChange={(e) => set({ breed: e.target.value })} style={inputStyle} />
+      </label>
+      <label style={labelStyle}>
+        Sex
+        <select
+          value={draft.sex ?? ""}
+          onChange={(e) => set({ sex: (e.target.value || null) as CreateAnimalInput["sex"] })}
+          style={inputStyle}
+        >
+          <option value="">—</option>
+          {ANIMAL_SEXES.map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label style={labelStyle}>
+        Born
+        <input type="date" value={draft.birthDate ?? ""} onChange={(e) => set({ birthDate: e.target.value })} style={inputStyle} />
+      </label>
+      <label style={labelStyle}>
+        Status
+        <select
+          value={draft.status}
+          onChange={(e) => set({ status: e.target.value as CreateAnimalInput["status"] })}
+          style={inputStyle}
+        >
+          {ANIMAL_STATUSES.map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label style={labelStyle}>
+        Dam
+        <select value={draft.damId ?? ""} onChange={(e) => set({ damId: e.target.value || null })} style={inputStyle}>
+          <option value="">—</option>
+          {parentOptions(["cow", "heifer"])}
+        </select>
+      </label>
+      <label style={labelStyle}>
+        Sire
+        <select value={draft.sireId ?? ""} onChange={(e) => set({ sireId: e.target.value || null })} style={inputStyle}>
+          <option value="">—</option>
+          {parentOptions(["bull"])}
+        </select>
+      </label>
+      <label style={{ ...labelStyle, gridColumn: "1 / -1" }}>
+        Tracker
+        <select value={draft.deviceId ?? ""} onChange={(e) => set({ deviceId: e.target.value || null })} style={inputStyle}>
+          <option value="">No tracker</option>
+          {devices.map((d) => {
+            const wearer = wearers.get(d.deviceId);
+            return (
+              <option key={d.deviceId} value={d.deviceId}>
+                {d.name || d.deviceId}
+                {wearer && wearer.id !== initial?.id ? ` — on ${animalLabel(wearer)}` : ""}
+              </option>
+            );
+          })}
+        </select>
+      </label>
+      <label style={{ ...labelStyle, gridColumn: "1 / -1" }}>
+        Notes
+        <textarea
+          value={draft.notes ?? ""}
+          rows={2}
+          onChange={(e) => set({ notes: e.target.value })}
+          style={{ ...inputStyle, resize: "vertical", fontFamily: "inherit" }}
+        />
+      </label>
+
+      {error ? <div style={{ gridColumn: "1 / -1", fontSize: 12, color: "#fca5a5" }}>{error}</div> : null}
+
+      <div style={{ gridColumn: "1 / -1", display: "flex", gap: 6, justifyContent: "flex-end" }}>
+        <button onClick={onCancel} disabled={saving} style={smallButton}>
+          Cancel
+        </button>
+        <button
+          onClick={save}
+          disabled={saving}
+          style={{ ...smallButton, border: "1px solid rgba(34,197,94,0.6)", opacity: saving ? 0.7 : 1 }}
+        >
+          {saving ? "Saving…" : initial ? "Save" : "Add animal"}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+type AnimalDetailProps = {
+  animal: Animal;
+  animals: Animal[];
+  devices: DeviceRow[];
+  ranchId?: string | null;
+  canEdit?: boolean;
+  onChanged: (animal: Animal) => void;
+  onRemoved: (id: string) => void;
+  onSelectAnimal: (id: string) => void;
+  onShowDevice: (deviceId: string) => void;
+};
+
+export default function AnimalDetail({
+  animal,
+  animals,
+  devices,
+  ranchId = null,
+  canEdit = false,
+  onChanged,
+  onRemoved,
+  onSelectAnimal,
+  onShowDevice,
+}: AnimalDetailProps) {
+  const [editing, setEditing] = useState(false);
+  const [weighedAt, setWeighedAt] = useState(today);
+  const [kg, setKg] = useState("");
+  const [weightBusy, setWeightBusy] = useState(false);
+
+  const {
+    data: weights,
+    setData: setWeights,
+    loading: weightsLoading,
+  } = useApiQuery((signal) => api.animals.weights(animal.id, { ranchId, signal }), [animal.id, ranchId], [] as WeightRecord[]);
+
+  // Refetched when the tracker changes, so a move shows up straight away
+  const { data: history } = useApiQuery(
+    (signal) => api.animals.devices(animal.id, { ranchId, signal }),
+    [animal.id, ranchId, animal.deviceId],
+    [] as DeviceAssignment[]
+  );
+
+  const byId = useMemo(() => new Map(animals.map((a) => [a.id, a])), [animals]);
+  const deviceNames = useMemo(() => new Map(devices.map((d) => [d.deviceId, d.name || d.deviceId])), [devices]);
+  const offspring = animals.filter((a) => a.damId === animal.id || a.sireId === animal.id);
+
+  const save = async (input: CreateAnimalInput) => {
+    onChanged(await api.animals.update(animal.id, input, { ranchId }));
+    setEditing(false);
+  };
+
+  const remove = async () => {
+    if (!confirm(`Delete ${animalLabel(animal)} from the registry? Mark it sold or dead instead to keep its records.`)) return;
+    try {
+      await api.animals.remove(animal.id, { ranchId });
+      onRemoved(animal.id);
+    } catch (e) {
+      console.error("Failed to delete animal:", e);
+    }
+  };
+
+  const addWeight = async () => {
+    const value = Number(kg);
+    if (!(value > 0) || !weighedAt) return;
+    setWeightBusy(true);
+    try {
+      const rec = await api.animals.addWeight(
+        animal.id,
+        { weighedAt: new Date(`${weighedAt}T12:00:00`).toISOString(), kg: value },
+        { ranchId }
+      );
+      const next = [...weights, rec].sort((a, b) => b.weighedAt.localeCompare(a.weighedAt));
+      setWeights(next);
+      setKg("");
+      onChanged({ ...animal, lastWeightKg: next[0].kg });
+    } catch (e) {
+      console.error("Failed to add weight:", e);
+    } finally {
+      setWeightBusy(false);
+    }
+  };
+
+  // Average daily gain between the two newest weighings
+  const [newest, previous] = weights;
+  const gainPerDay =
+    newest && previous
+      ? (newest.kg - previous.kg) / Math.max(1, (Date.parse(newest.weighedAt) - Date.parse(previous.weighedAt)) / 86400_000)
+      : null;
+
+  const parentLink = (id: string | null | undefined) => {
+    const parent = id ? byId.get(id) : undefined;
+    if (!parent) return "—";
+    return (
+      <button onClick={() => onSelectAnimal(parent.id)} style={{ ...smallButton, padding: "1px 6px" }}>
+        {animalLabel(parent)}
+      </button>
+    );
+  };
+
+  if (editing) {
+    return <AnimalForm initial={animal} animals={animals} devices={devices} onSave={save} onCancel={() => setEditing(false)} />;
+  }
+
+  const field = (label: string, value: React.ReactNode) => (
+    <div>
+      <div style={{ color: "#6b7280", fontSize: 11 }}>{label}</div>
+      <div style={{ color: "#e5e7eb", fontSize: 12 }}>{value}</div>
+    </div>
+  );
+
+  return (
+    <div
+      onClick={(e) => e.stopPropagation()}
+      style={{ marginTop: 10, paddingTop: 10, borderTop: "1px solid rgba(255,255,255,0.08)", cursor: "default" }}
+    >
+      <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 8 }}>
+        {field("Born", animal.birthDate ? `${animal.birthDate} (${ageLabel(animal.birthDate) ?? "—"})` : "—")}
+        {field("Breed", animal.breed || "—")}
+        {field("Dam", parentLink(animal.damId))}
+        {field("Sire", parentLink(animal.sireId))}
+        {field(
+          "Tracker",
+          animal.deviceId ? (
+            <button onClick={() => onShowDevice(animal.deviceId!)} style={{ ...smallButton, padding: "1px 6px" }}>
+              {deviceNames.get(animal.deviceId) ?? animal.deviceId} →
+            </button>
+          ) : (
+            "None"
+          )
+        )}
+        {field("Offspring", offspring.length ? offspring.map(animalLabel).join(", ") : "—")}
+      </div>
+
+      {animal.notes ? (
+        <div style={{ marginTop: 8, fontSize: 12, color: "#cbd5e1", whiteSpace: "pre-wrap" }}>{animal.notes}</div>
+      ) : null}
+
+      {canEdit ? (
+        <div style={{ display: "flex", gap: 6, marginTop: 10 }}>
+          <button onClick={() => setEditing(true)} style={smallButton}>
+            Edit
+          </button>
+          <button
+            onClick={remove}
+            style={{ ...smallButton, border: "1px solid rgba(239,68,68,0.6)", background: "rgba(239,68,68,0.10)" }}
+          >
+            Delete
+          </button>
+        </div>
+      ) : null}
+
+      <div style={{ marginTop: 12, fontSize: 11, fontWeight: 800, color: "#cbd5e1" }}>
+        Weights
+        {gainPerDay != null ? (
+          <span style={{ fontWeight: 400, color: "#94a3b8" }}>
+            {" "}
+            • {gainPerDay >= 0 ? "+" : ""}
+            {gainPerDay.toFixed(2)} kg/day
+          </span>
+        ) : null}
+      </div>
+      {canEdit ? (
+        <div style={{ display: "flex", gap: 6, marginTop: 4 }}>
+          <input type="date" value={weighedAt} onChange={(e) => setWeighedAt(e.target.value)} style={inputStyle} />
+          <input
+            type="number"
+            min={0}
+            step={0.5}
+            placeholder="kg"
+            value={kg}
+            onChange={(e) => setKg(e.target.value)}
+            style={{ ...inputStyle, width: 80 }}
+          />
+          <button onClick={addWeight} disabled={weightBusy || !(Number(kg) > 0)} style={{ ...smallButton, flexShrink: 0 }}>
+            Add
+          </button>
+        </div>
+      ) : null}
+      {weights.length === 0 ? (
+        <div style={{ marginTop: 4, fontSize: 11, color: "#94a3b8" }}>{weightsLoading ? "Loading…" : "No weights recorded."}</div>
+      ) : (
+        <div style={{ marginTop: 4, display: "flex", flexDirection: "column", gap: 2 }}>
+          {weights.slice(0, 8).map((w) => (
+            <div key={w.id} style={{ fontSize: 11, color: "#94a3b8" }}>
+              <span style={{ color: "#e5e7eb", fontWeight: 800 }}>{w.kg} kg</span> • {new Date(w.weighedAt).toLocaleDateString()}
+              {w.note ? ` • ${w.note}` : ""}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div style={{ marginTop: 12, fontSize: 11, fontWeight: 800, color: "#cbd5e1" }}>Tracker history</div>
+      {history.length === 0 ? (
+        <div style={{ marginTop: 4, fontSize: 11, color: "#94a3b8" }}>Never tracked.</div>
+      ) : (
+        <div style={{ marginTop: 4, display: "flex", flexDirection: "column", gap: 2 }}>
+          {history.map((h) => (
+            <div key={h.id} style={{ fontSize: 11, color: "#94a3b8" }}>
+              <span style={{ color: "#e5e7eb", fontWeight: 800 }}>{deviceNames.get(h.deviceId) ?? h.deviceId}</span>{" "}
+              {new Date(h.from).toLocaleDateString()} – {h.to ? new Date(h.to).toLocaleDateString() : "now"}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,189 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+
+import { api } from "../api";
+import type { Animal, AnimalStatus, CreateAnimalInput, DeviceRow } from "../api/types";
+import { ageLabel, ANIMAL_SEXES, ANIMAL_STATUSES, animalLabel } from "../animals";
+import AnimalDetail, { AnimalForm } from "./AnimalDetail";
+
+type AnimalsPanelProps = {
+  ranchId?: string | null;
+  animals: Animal[];
+  devices: DeviceRow[];
+  loading?: boolean;
+  selectedId?: string | null;
+  canEdit?: boolean;
+  onSelect: (id: string | null) => void;
+  onChanged: (animal: Animal) => void;
+  onRemoved: (id: string) => void;
+  onShowDevice: (deviceId: string) => void;
+};
+
+const inputStyle = {
+  background: "#0f1117",
+  color: "#e5e7eb",
+  border: "1px solid #374151",
+  borderRadius: 8,
+  padding: "6px 8px",
+  fontSize: 12,
+  minWidth: 0,
+} as const;
+
+export default function AnimalsPanel({
+  ranchId = null,
+  animals,
+  devices,
+  loading = false,
+  selectedId = null,
+  canEdit = false,
+  onSelect,
+  onChanged,
+  onRemoved,
+  onShowDevice,
+}: AnimalsPanelProps) {
+  const [search, setSearch] = useState("");
+  const [status, setStatus] = useState<AnimalStatus | "">("active");
+  const [adding, setAdding] = useState(false);
+
+  const deviceNames = useMemo(() => new Map(devices.map((d) => [d.deviceId, d.name || d.deviceId])), [devices]);
+  const sexLabels = useMemo(() => new Map(ANIMAL_SEXES), []);
+
+  const shown = useMemo(() => {
+    const q = search.trim().toLowerCase();
+    return animals
+      .filter((a) => !status || a.status === status || a.id === selectedId)
+      .filter((a) => {
+        if (!q) return true;
+        const text = [a.tagNumber, a.name, a.breed, a.deviceId && deviceNames.get(a.deviceId)].filter(Boolean).join(" ");
+        return text.toLowerCase().includes(q);
+      })
+      .sort((a, b) => a.tagNumber.localeCompare(b.tagNumber, undefined, { numeric: true }));
+  }, [animals, status, search, selectedId, deviceNames]);
+
+  // Keep a deep-linked animal in view
+  const selectedRef = useRef<HTMLDivElement | null>(null);
+  useEffect(() => {
+    selectedRef.current?.scrollIntoView({ block: "nearest" });
+  }, [selectedId]);
+
+  const create = async (input: CreateAnimalInput) => {
+    const animal = await api.animals.create(input, { ranchId });
+    onChanged(animal);
+    setAdding(false);
+    onSelect(animal.id);
+  };
+
+  const tracked = animals.filter((a) => a.status === "active" && a.deviceId).length;
+  const active = animals.filter((a) => a.status === "active").length;
+
+  return (
+    <div
+      style={{
+        borderRadius: 12,
+        border: "1px solid rgba(255,255,255,0.08)",
+        background: "rgba(255,255,255,0.03)",
+        padding: 12,
+        marginBottom: 12,
+      }}
+    >
+      <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: 10 }}>
+        <div>
+          <div style={{ fontWeight: 900, fontSize: 13 }}>Animals</div>
+          <div style={{ fontSize: 11, color: "#94a3b8" }}>
+            {active} in herd • {tracked} wearing a tracker
+          </div>
+        </div>
+        {canEdit ? (
+          <button
+            onClick={() => setAdding((v) => !v)}
+            style={{
+              borderRadius: 10,
+              border: "1px solid rgba(255,255,255,0.14)",
+              background: "rgba(255,255,255,0.06)",
+              color: "#e5e7eb",
+              padding: "6px 10px",
+              cursor: "pointer",
+              fontSize: 12,
+              fontWeight: 800,
+            }}
+          >
+            {adding ? "Cancel" : "Add animal"}
+          </button>
+        ) : null}
+      </div>
+
+      {adding ? <AnimalForm animals={animals} devices={devices} onSave={create} onCancel={() => setAdding(false)} /> : null}
+
+      <div style={{ display: "flex", gap: 6, marginTop: 10 }}>
+        <input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search tag, name, breed…"
+          style={{ ...inputStyle, flex: 1 }}
+        />
+        <select value={status} onChange={(e) => setStatus(e.target.value as AnimalStatus | "")} style={inputStyle}>
+          {ANIMAL_STATUSES.map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+          <option value="">All</option>
+        </select>
+      </div>
+
+      <div style={{ marginTop: 10, display: "flex", flexDirection: "column", gap: 8 }}>
+        {shown.length === 0 ? (
+          <div style={{ color: "#94a3b8", fontSize: 12 }}>
+            {loading ? "Loading…" : animals.length ? "No animals match." : "No animals in the registry yet."}
+          </div>
+        ) : (
+          shown.map((a) => {
+            const selected = a.id === selectedId;
+            const details = [a.sex && sexLabels.get(a.sex), a.breed, ageLabel(a.birthDate)].filter(Boolean).join(" • ");
+            return (
+              <div
+                key={a.id}
+                ref={selected ? selectedRef : undefined}
+                onClick={() => onSelect(selected ? null : a.id)}
+                style={{
+                  borderRadius: 10,
+                  border: selected ? "1px solid rgba(34,197,94,0.9)" : "1px solid rgba(255,255,255,0.08)",
+                  padding: 10,
+                  cursor: "pointer",
+                  opacity: a.status === "active" ? 1 : 0.7,
+                }}
+              >
+                <div style={{ display: "flex", justifyContent: "space-between", gap: 8 }}>
+                  <div style={{ fontWeight: 900, fontSize: 13 }}>{animalLabel(a)}</div>
+                  <div style={{ fontSize: 11, color: "#cbd5e1", whiteSpace: "nowrap" }}>
+                    {a.status !== "active"
+                      ? ANIMAL_STATUSES.find(([s]) => s === a.status)?.[1]
+                      : a.lastWeightKg != null
+                      ? `${a.lastWeightKg} kg`
+                      : ""}
+                  </div>
+                </div>
+                <div style={{ fontSize: 11, color: "#94a3b8" }}>
+                  {details || "—"} • {a.deviceId ? `📡 ${deviceNames.get(a.deviceId) ?? a.deviceId}` : "no tracker"}
+                </div>
+
+                {selected ? (
+                  <AnimalDetail
+                    animal={a}
+                    animals={animals}
+                    devices={devices}
+                    ranchId={ranchId}
+                    canEdit={canEdit}
+                    onChanged={onChanged}
+                    onRemoved={onRemoved}
+                    onSelectAnimal={onSelect}
+                    onShowDevice={onShowDevice}
+                  />
+                ) : null}
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
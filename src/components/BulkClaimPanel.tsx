@@ -0,0 +1,162 @@
+import { useMemo, useState } from "react";
+
+import { api } from "../api";
+import type { BulkClaimResult, DeviceRow } from "../api/types";
+import { isDeviceEui, parseDevEuiList } from "../devEui";
+
+type BulkClaimPanelProps = {
+  ranchId?: string | null;
+  // Already on this ranch; skipped rather than sent
+  claimed: DeviceRow[];
+  // After each batch, so the lists fill in as it goes
+  onClaimed: () => void;
+  onClose: () => void;
+};
+
+// Per request; a pallet of tags goes up in a few round trips
+const BATCH_SIZE = 50;
+
+const smallButton = {
+  borderRadius: 10,
+  border: "1px solid rgba(255,255,255,0.14)",
+  background: "rgba(255,255,255,0.06)",
+  color: "#e5e7eb",
+  padding: "6px 10px",
+  cursor: "pointer",
+  fontSize: 12,
+  fontWeight: 800,
+} as const;
+
+export default function BulkClaimPanel({ ranchId = null, claimed, onClaimed, onClose }: BulkClaimPanelProps) {
+  const [text, setText] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [done, setDone] = useState(0);
+  const [result, setResult] = useState<BulkClaimResult | null>(null);
+  const [error, setError] = useState("");
+
+  const parsed = useMemo(() => parseDevEuiList(text), [text]);
+  const toClaim = useMemo(
+    () => parsed.valid.filter((e) => !claimed.some((d) => isDeviceEui(d, e))),
+    [parsed, claimed]
+  );
+
+  const claim = async () => {
+    const invalid = parsed.invalid;
+    setBusy(true);
+    setError("");
+    setDone(0);
+    const total: BulkClaimResult = { claimed: [], failed: [] };
+    try {
+      for (let i = 0; i < toClaim.length; i += BATCH_SIZE) {
+        const batch = toClaim.slice(i, i + BATCH_SIZE);
+        const r = await api.devices.claimBulk(batch, { ranchId });
+        total.claimed.push(...r.claimed);
+        total.failed.push(...r.failed);
+        setDone(i + batch.length);
+        onClaimed();
+      }
+      // Keep only what needs fixing: typos the parser rejected, then what the server refused
+      setText([...invalid, ...total.failed.map((f) => f.devEui)].join("\n"));
+    } catch (e) {
+      console.error("Bulk claim failed:", e);
+      setError("Stopped part way; the tags claimed so far are on your ranch. Try again to claim the rest.");
+    } finally {
+      setResult(total);
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div
+      style={{
+        borderRadius: 12,
+        border: "1px solid rgba(34,197,94,0.35)",
+        background: "rgba(34,197,94,0.05)",
+        padding: 12,
+        marginBottom: 12,
+      }}
+    >
+      <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: 10 }}>
+        <div>
+          <div style={{ fontWeight: 900, fontSize: 13 }}>Bulk claim</div>
+          <div style={{ fontSize: 11, color: "#94a3b8" }}>Paste DevEUIs: one per line, or a column from a spreadsheet.</div>
+        </div>
+        <button onClick={onClose} disabled={busy} style={smallButton}>
+          Close
+        </button>
+      </div>
+
+      <textarea
+        value={text}
+        onChange={(e) => {
+          setText(e.target.value);
+          setResult(null);
+        }}
+        rows={6}
+        placeholder={"70B3D57ED0051234\n70:B3:D5:7E:D0:05:12:35\n…"}
+        disabled={busy}
+        style={{
+          marginTop: 8,
+          width: "100%",
+          resize: "vertical",
+          background: "#0f1117",
+          color: "#e5e7eb",
+          border: "1px solid #374151",
+          borderRadius: 8,
+          padding: "6px 8px",
+          fontSize: 12,
+          fontFamily: "ui-monospace, monospace",
+        }}
+      />
+
+      {text.trim() ? (
+        <div style={{ marginTop: 6, fontSize: 11, color: "#94a3b8" }}>
+          {toClaim.length} to claim
+          {parsed.valid.length > toClaim.length ? ` • ${parsed.valid.length - toClaim.length} already yours` : ""}
+          {parsed.duplicates ? ` • ${parsed.duplicates} duplicate${parsed.duplicates === 1 ? "" : "s"}` : ""}
+          {parsed.invalid.length ? (
+            <span style={{ color: "#fca5a5" }}>
+              {" "}
+              • {parsed.invalid.length} not a DevEUI ({parsed.invalid.slice(0, 3).join(", ")}
+              {parsed.invalid.length > 3 ? "…" : ""})
+            </span>
+          ) : null}
+        </div>
+      ) : null}
+
+      <button
+        onClick={claim}
+        disabled={busy || toClaim.length === 0}
+        style={{
+          ...smallButton,
+          marginTop: 8,
+          width: "100%",
+          border: "1px solid rgba(34,197,94,0.7)",
+          background: "rgba(34,197,94,0.12)",
+          opacity: busy || toClaim.length === 0 ? 0.7 : 1,
+        }}
+      >
+        {busy ? `Claiming… ${done} of ${toClaim.length}` : `Claim ${toClaim.length} device${toClaim.length === 1 ? "" : "s"}`}
+      </button>
+
+      {error ? <div style={{ marginTop: 8, fontSize: 12, color: "#fca5a5" }}>{error}</div> : null}
+
+      {result ? (
+        <div style={{ marginTop: 8, fontSize: 12 }}>
+          <div style={{ color: "#86efac" }}>
+            {result.claimed.length} claimed{result.failed.length ? `, ${result.failed.length} failed` : ""}.
+          </div>
+          {result.failed.length ? (
+            <div style={{ marginTop: 4, maxHeight: 120, overflowY: "auto", fontSize: 11, color: "#fca5a5" }}>
+              {result.failed.map((f) => (
+                <div key={f.devEui}>
+                  <span style={{ fontFamily: "ui-monospace, monospace" }}>{f.devEui}</span> — {f.reason}
+                </div>
+              ))}
+            </div>
+          ) : null}
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -13,57 +13,105 @@ import {
   Polyline,
   Tooltip,
   FeatureGroup,
-  GeoJSON,
+  Polygon,
+  useMap,
 } from "react-leaflet";
 import "leaflet/dist/leaflet.css";
 
 import "leaflet-draw/dist/leaflet.draw.css";
 import { EditControl } from "react-leaflet-draw";
+import type { Position } from "geojson";
 
-import { API_URL, WS_URL } from "../config";
-import AlertsPanel, { type AlertRow } from "./AlertsPanel";
-
-type LivePoint = {
-  deviceId: string;
-  lat: number;
-  lon: number;
-  altM?: number | null;
-  receivedAt?: string;
-  ts?: string;
-
-  batteryPct?: number | null;
-  batteryV?: number | null;
-  rssi?: number | null;
-  snr?: number | null;
-  temperatureC?: number | null;
-  fCnt?: number | null;
-};
+import { TILE_ATTRIBUTION, TILE_URL, WS_URL } from "../config";
+import {
+  addHole,
+  addPart,
+  circleRing,
+  corridorGeometry,
+  haversineMeters,
+  isValidGeoJsonPolygonGeometry,
+  mergeGeometries,
+  ringFromLatLngs,
+} from "../geo";
+import { downloadBlob, exportFences, type FenceFileFormat, type ImportedFence } from "../fenceFiles";
+import { alertTypeInfo } from "../alertTypes";
+import { animalsByDevice, deviceLabel } from "../animals";
+import { groupsByDevice } from "../herdGroups";
+import { api } from "../api";
+import { encodeLiveMessage, parseLiveMessage } from "../api/live";
+import { evaluateContainment } from "../containment";
+import { loadSnapshot, saveSnapshot } from "../offline/snapshot";
+import { setUnreadBadge } from "../notifications/badge";
+import { notifyAlert } from "../notifications/notify";
+import { flushQueue, isPendingGeofence, queuedGeofence, runOrQueue, useOfflineQueue } from "../offline/queue";
+import type { Bounds } from "../offline/tiles";
+import ParcelLinesLayer, { type Parcel } from "../ParcelLinesLayer";
+import type {
+  AlertRow,
+  Animal,
+  CreateGeofenceInput,
+  DeviceRow,
+  Geofence,
+  GeofenceGeometry,
+  HerdGroup,
+  LiveMessage,
+  LivePoint,
+  Ranch,
+  UpdateGeofenceInput,
+  User,
+} from "../api/types";
+import { permissionsFor } from "../permissions";
+import { navigate, replaceMapView, routePath, useLocation, type MapView, type Route } from "../router";
+import AlertRulesPanel from "./AlertRulesPanel";
+import AlertsPanel from "./AlertsPanel";
+import AnimalsPanel from "./AnimalsPanel";
+import BulkClaimPanel from "./BulkClaimPanel";
+import DeviceActions from "./DeviceActions";
+import DeviceDetail from "./DeviceDetail";
+import GeofenceImportDialog, { type ImportPreview } from "./GeofenceImportDialog";
+import GeofencePanel, { type FenceDrawMode } from "./GeofencePanel";
+import HerdGroupsPanel from "./HerdGroupsPanel";
+import NotificationSettings from "./NotificationSettings";
+import OfflinePanel from "./OfflinePanel";
+import PlaybackPanel, { createPlaybackCursor, usePlaybackPosition, type PlaybackCursor } from "./PlaybackPanel";
+import RanchSwitcher from "./RanchSwitcher";
+import ScanTagDialog from "./ScanTagDialog";
+import TeamPanel from "./TeamPanel";
+
+// "offline" once the retries are used up; the user can retry by hand
+type WsStatus = "connecting" | "connected" | "reconnecting" | "offline";
+type LoadStatus = "loading" | "ready" | "error";
+type SidebarTab = "herd" | "animals" | "team";
 
-type DeviceRow = {
-  deviceId: string;
-  devEui?: string | null;
-  name?: string | null;
-  lastSeen?: string | null;
-  createdAt?: string;
-};
+const SIDEBAR_TABS: [SidebarTab, string, Route][] = [
+  ["herd", "Herd", { name: "home" }],
+  ["animals", "Animals", { name: "animals" }],
+  ["team", "Team", { name: "team" }],
+];
 
-type Geofence = {
-  id: string;
-  name: string;
-  type: "circle" | "polygon" | string;
-  centerLat: number | null;
-  centerLon: number | null;
-  radiusM: number | null;
-  polygon: any; // GeoJSON geometry expected for polygon type
-  createdAt?: string;
-};
+const WS_BASE_DELAY_MS = 1000;
+const WS_MAX_DELAY_MS = 30_000;
+const WS_MAX_RETRIES = 10;
 
-type WsStatus = "connecting" | "connected" | "reconnecting" | "error";
-type LoadStatus = "loading" | "ready" | "error";
+const DEFAULT_CENTER: [number, number] = [32.9565, -96.3893];
+const DEFAULT_ZOOM = 13;
+
+const DEFAULT_CORRIDOR_WIDTH_M = 20;
+
+const FENCE_STYLE = { weight: 2 };
+const SELECTED_FENCE_STYLE = { weight: 4, color: "#f59e0b" };
+
+type MapFocusTarget = {
+  key: string;
+  bounds: L.LatLngBounds;
+};
 
 type DashboardProps = {
   token: string;
-  user?: any;
+  user?: User | null;
+  ranches?: Ranch[];
+  ranchId?: string | null;
+  onRanchChange?: (ranchId: string) => void;
   onLogout?: () => void;
 };
 
@@ -75,20 +123,35 @@ L.Icon.Default.mergeOptions({
   shadowUrl: markerShadow,
 });
 
-function createColoredIcon(color: string) {
+// Group colors and icons come from the server, so the pin is built with the
+// DOM rather than an HTML string: a stored value can't inject markup
+function createColoredIcon(color: string, glyph?: string) {
+  // Grouped devices: a larger pin in the group's color with its icon
+  const size = glyph ? 22 : 14;
+  const pin = document.createElement("div");
+  Object.assign(pin.style, {
+    width: `${size}px`,
+    height: `${size}px`,
+    background: color,
+    border: "2px solid white",
+    borderRadius: "50%",
+    boxShadow: "0 1px 6px rgba(0,0,0,0.35)",
+  });
+  if (glyph) {
+    Object.assign(pin.style, {
+      display: "flex",
+      alignItems: "center",
+      justifyContent: "center",
+      fontSize: "12px",
+      lineHeight: "1",
+    });
+    pin.textContent = glyph;
+  }
   return new L.DivIcon({
     className: "",
-    html: `
-      <div style="
-        width: 14px; height: 14px;
-        background: ${color};
-        border: 2px solid white;
-        border-radius: 50%;
-        box-shadow: 0 1px 6px rgba(0,0,0,0.35);
-      "></div>
-    `,
-    iconSize: [14, 14],
-    iconAnchor: [7, 7],
+    html: pin,
+    iconSize: [size, size],
+    iconAnchor: [size / 2, size / 2],
   });
 }
 
@@ -105,193 +168,416 @@ function toMs(t?: string) {
   return Number.isFinite(v) ? v : 0;
 }
 
-function haversineMeters(a: { lat: number; lon: number }, b: { lat: number; lon: number }) {
-  const R = 6371000;
-  const toRad = (v: number) => (v * Math.PI) / 180;
-  const dLat = toRad(b.lat - a.lat);
-  const dLon = toRad(b.lon - a.lon);
-  const lat1 = toRad(a.lat);
-  const lat2 = toRad(b.lat);
+const TRAIL_LENGTH = 120;
 
-  const sinDLat = Math.sin(dLat / 2);
-  const sinDLon = Math.sin(dLon / 2);
+/**
+ * Appends fixes to the per-device trails, dropping duplicates (the same
+ * uplink can arrive over both REST and the socket) and keeping the last
+ * TRAIL_LENGTH per device.
+ */
+function mergeLivePoints(prev: Record<string, LivePoint[]>, incoming: LivePoint[]) {
+  const by: Record<string, LivePoint[]> = {};
+  for (const p of incoming) {
+    if (!p?.deviceId) continue;
+    if (!by[p.deviceId]) by[p.deviceId] = [];
+    by[p.deviceId].push(p);
+  }
+
+  const merged: Record<string, LivePoint[]> = { ...prev };
+
+  for (const [id, pts] of Object.entries(by)) {
+    const existing = merged[id] || [];
+    const next = [...existing, ...pts];
 
-  const h = sinDLat * sinDLat + Math.cos(lat1) * Math.cos(lat2) * sinDLon * sinDLon;
-  return 2 * R * Math.asin(Math.min(1, Math.sqrt(h)));
+    const seen = new Set<string>();
+    const deduped: LivePoint[] = [];
+    for (const x of next) {
+      const key = `${x.ts || x.receivedAt || ""}-${x.lat}-${x.lon}-${x.fCnt ?? ""}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      deduped.push(x);
+    }
+
+    deduped.sort((a, b) => toMs(a.ts || a.receivedAt) - toMs(b.ts || b.receivedAt));
+    merged[id] = deduped.slice(-TRAIL_LENGTH);
+  }
+
+  return merged;
+}
+
+// Replaces the row with the same key, or appends it
+function upsertBy<T>(rows: T[], row: T, key: (r: T) => string) {
+  const id = key(row);
+  const i = rows.findIndex((r) => key(r) === id);
+  if (i === -1) return [...rows, row];
+  const next = rows.slice();
+  next[i] = { ...rows[i], ...row };
+  return next;
 }
 
 /**
- * Convert drawn Leaflet polygon -> DB shape (array of [lat, lon])
- * (Your backend can normalize; leaving as-is to match your original behavior)
+ * Outline of a drawn circle / rectangle / polygon as a closed GeoJSON ring,
+ * or null for anything without an area (polylines, markers).
  */
-function polygonLatLngsToDb(latlngs: any): [number, number][] {
-  const ring = Array.isArray(latlngs?.[0]) ? latlngs[0] : latlngs;
-  if (!Array.isArray(ring)) return [];
-  return ring
-    .map((p: any) => [Number(p.lat), Number(p.lng)] as [number, number])
-    .filter((pair: any) => Number.isFinite(pair[0]) && Number.isFinite(pair[1]));
+function drawnRing(layer: L.Layer): Position[] | null {
+  if (layer instanceof L.Circle) {
+    const c = layer.getLatLng();
+    return circleRing(c.lat, c.lng, layer.getRadius());
+  }
+  if (layer instanceof L.Polygon) {
+    const latlngs = layer.getLatLngs() as L.LatLng[][];
+    const outer = Array.isArray(latlngs[0]) ? latlngs[0] : (latlngs as unknown as L.LatLng[]);
+    return outer.length >= 3 ? ringFromLatLngs(outer) : null;
+  }
+  return null;
+}
+
+type FenceShape =
+  | { kind: "circle"; center: [number, number]; radius: number }
+  | { kind: "polygon"; positions: [number, number][][] | [number, number][][][] };
+
+// Keyed by fence object, so shapes only change when the fence does. A new
+// array on every render (every uplink) would reset a shape mid-edit.
+const fenceShapeCache = new WeakMap<Geofence, FenceShape | null>();
+
+function fenceShape(gf: Geofence): FenceShape | null {
+  if (fenceShapeCache.has(gf)) return fenceShapeCache.get(gf)!;
+
+  let shape: FenceShape | null = null;
+  if (gf.type === "circle" && gf.centerLat != null && gf.centerLon != null && gf.radiusM != null) {
+    shape = { kind: "circle", center: [gf.centerLat, gf.centerLon], radius: gf.radiusM };
+  } else if (gf.type === "polygon") {
+    if (isValidGeoJsonPolygonGeometry(gf.polygon)) {
+      shape = { kind: "polygon", positions: geometryToLatLngs(gf.polygon!) };
+    } else {
+      console.warn("Skipping invalid polygon geofence:", gf?.id, gf?.name, gf?.polygon);
+    }
+  }
+
+  fenceShapeCache.set(gf, shape);
+  return shape;
+}
+
+// GeoJSON [lon, lat] rings -> Leaflet [lat, lon], without the closing vertex
+function geometryToLatLngs(geom: GeofenceGeometry): [number, number][][] | [number, number][][][] {
+  const ring = (r: number[][]) =>
+    r.slice(0, r.length > 1 && r[0][0] === r[r.length - 1][0] && r[0][1] === r[r.length - 1][1] ? -1 : undefined)
+      .map(([lon, lat]) => [lat, lon] as [number, number]);
+
+  return geom.type === "Polygon" ? geom.coordinates.map(ring) : geom.coordinates.map((poly) => poly.map(ring));
 }
 
 /**
- * Robust GeoJSON polygon validator (Polygon + MultiPolygon).
- * Prevents Leaflet crashes by rejecting weird coordinate shapes (bbox / NaN / etc).
+ * Fits the map to a playback track once per loaded track.
  */
-function isValidGeoJsonPolygonGeometry(geom: any): boolean {
-  if (!geom || typeof geom !== "object") return false;
-
-  const t = geom.type;
-  const coords = geom.coordinates;
-
-  if (t !== "Polygon" && t !== "MultiPolygon") return false;
-  if (!Array.isArray(coords)) return false;
-
-  // Validate a single [lng,lat] coordinate pair
-  const isCoord = (c: any) =>
-    Array.isArray(c) &&
-    c.length >= 2 &&
-    Number.isFinite(Number(c[0])) &&
-    Number.isFinite(Number(c[1])) &&
-    Math.abs(Number(c[0])) <= 180 &&
-    Math.abs(Number(c[1])) <= 90;
-
-  if (t === "Polygon") {
-    // coords: [ ring1, ring2... ], ring: [ [lng,lat], ... ]
-    if (!Array.isArray(coords[0])) return false;
-    const ring = coords[0];
-    if (!Array.isArray(ring) || ring.length < 4) return false;
-    return ring.every(isCoord);
-  }
+function FitToTrack({ positions }: { positions: [number, number][] }) {
+  const map = useMap();
+
+  useEffect(() => {
+    if (positions.length < 2) return;
+    map.fitBounds(L.latLngBounds(positions), { padding: [40, 40] });
+  }, [map, positions]);
 
-  // MultiPolygon: [ polygon1, polygon2... ], polygon: [ ring1, ring2... ]
-  if (!Array.isArray(coords[0]) || !Array.isArray(coords[0][0])) return false;
-  const firstPoly = coords[0];
-  const firstRing = firstPoly?.[0];
-  if (!Array.isArray(firstRing) || firstRing.length < 4) return false;
-  return firstRing.every(isCoord);
+  return null;
 }
 
-function geofenceToFeature(gf: Geofence) {
-  return {
-    type: "Feature",
-    properties: { id: gf.id, name: gf.name, type: gf.type },
-    geometry: gf.polygon,
-  };
+const PLAYBACK_ICON = createColoredIcon("#f59e0b");
+
+/**
+ * The playback position on the map. Subscribes to the cursor itself so a
+ * playing track re-renders just this marker.
+ */
+function PlaybackMarker({ cursor }: { cursor: PlaybackCursor }) {
+  const pos = usePlaybackPosition(cursor);
+  if (!pos) return null;
+
+  return (
+    <Marker position={[pos.lat, pos.lon]} icon={PLAYBACK_ICON}>
+      <Tooltip direction="top" offset={[0, -8]} permanent>
+        {new Date(pos.atMs).toLocaleTimeString()}
+      </Tooltip>
+    </Marker>
+  );
+}
+
+/**
+ * Fits the map to the fences read from an import file, once per file.
+ */
+function FitToFences({ fences }: { fences: ImportedFence[] }) {
+  const map = useMap();
+
+  useEffect(() => {
+    if (fences.length === 0) return;
+    const bounds = L.geoJSON(fences.map((f) => f.geometry)).getBounds();
+    if (bounds.isValid()) map.fitBounds(bounds, { padding: [40, 40] });
+  }, [map, fences]);
+
+  return null;
+}
+
+/**
+ * Keeps the ?map= query in step with the viewport, and follows it on back/forward.
+ */
+function MapViewSync({ view }: { view: MapView | null }) {
+  const map = useMap();
+
+  useEffect(() => {
+    const onMoveEnd = () => {
+      const c = map.getCenter();
+      replaceMapView({ lat: c.lat, lon: c.lng, zoom: map.getZoom() });
+    };
+    map.on("moveend", onMoveEnd);
+    return () => {
+      map.off("moveend", onMoveEnd);
+    };
+  }, [map]);
+
+  useEffect(() => {
+    if (!view) return;
+    const c = map.getCenter();
+    const same =
+      Math.abs(c.lat - view.lat) < 1e-4 && Math.abs(c.lng - view.lon) < 1e-4 && map.getZoom() === view.zoom;
+    if (!same) map.setView([view.lat, view.lon], view.zoom);
+  }, [map, view]);
+
+  return null;
 }
 
-export default function Dashboard({ token, user, onLogout }: DashboardProps) {
+/**
+ * Flies to the selected device / fence / alert once per selection.
+ * A viewport given in the URL at load wins over the first selection.
+ */
+function MapFocus({ target, skipFirst }: { target: MapFocusTarget | null; skipFirst: boolean }) {
+  const map = useMap();
+  const lastKeyRef = useRef<string | null>(null);
+  const skipRef = useRef(skipFirst);
+
+  useEffect(() => {
+    if (!target || target.key === lastKeyRef.current) return;
+    lastKeyRef.current = target.key;
+
+    if (skipRef.current) {
+      skipRef.current = false;
+      return;
+    }
+    map.flyToBounds(target.bounds, { maxZoom: 16, padding: [40, 40] });
+  }, [map, target]);
+
+  return null;
+}
+
+export default function Dashboard({
+  token,
+  user,
+  ranches = [],
+  ranchId = null,
+  onRanchChange,
+  onLogout,
+}: DashboardProps) {
+  const { route, map: urlMap } = useLocation();
+  const sidebarTab: SidebarTab =
+    route.name === "team" ? "team" : route.name === "animals" || route.name === "animal" ? "animals" : "herd";
+  const selectedDevice = route.name === "device" || route.name === "telemetry" ? route.id : null;
+  const selectedGeofenceId = route.name === "geofence" ? route.id : null;
+  const selectedAlertId = route.name === "alert" ? route.id : null;
+  const selectedAnimalId = route.name === "animal" ? route.id : null;
+
+  // Viewport from the URL at mount; later URL changes are handled by MapViewSync
+  const [initialMap] = useState(urlMap);
   const [wsStatus, setWsStatus] = useState<WsStatus>("connecting");
+  const [wsAttempt, setWsAttempt] = useState(0);
+  // Bumped by the manual retry to start a fresh round of attempts
+  const [wsGeneration, setWsGeneration] = useState(0);
   const [loadStatus, setLoadStatus] = useState<LoadStatus>("loading");
 
   const [devices, setDevices] = useState<DeviceRow[]>([]);
   const [unclaimed, setUnclaimed] = useState<DeviceRow[]>([]);
   const [claimingId, setClaimingId] = useState<string | null>(null);
+  const [showBulkClaim, setShowBulkClaim] = useState(false);
+  const [showScanner, setShowScanner] = useState(false);
+
+  const [animals, setAnimals] = useState<Animal[]>([]);
+
+  const [groups, setGroups] = useState<HerdGroup[]>([]);
+  // Group ids to show on the map and in the list; empty for every device
+  const [groupFilter, setGroupFilter] = useState<string[]>([]);
+  const deviceGroups = useMemo(() => groupsByDevice(groups), [groups]);
+  const groupTargets = useMemo(() => groups.map((g) => ({ id: g.id, name: `${g.icon} ${g.name}` })), [groups]);
+  const visibleDevices = useMemo(
+    () =>
+      groupFilter.length === 0
+        ? devices
+        : devices.filter((d) => deviceGroups.get(d.deviceId)?.some((g) => groupFilter.includes(g.id))),
+    [devices, deviceGroups, groupFilter]
+  );
+
+  useEffect(() => {
+    setGroupFilter([]);
+  }, [ranchId]);
+  // Trackers are shown as the animal wearing them
+  const animalByDevice = useMemo(() => animalsByDevice(animals), [animals]);
+  const labelOf = useCallback(
+    (deviceId: string) => deviceLabel(devices.find((d) => d.deviceId === deviceId) ?? { deviceId }, animalByDevice.get(deviceId)),
+    [devices, animalByDevice]
+  );
+  // For the socket handler, which keeps a stable identity
+  const labelOfRef = useRef(labelOf);
+  labelOfRef.current = labelOf;
 
   const [pointsByDevice, setPointsByDevice] = useState<Record<string, LivePoint[]>>({});
-  const [selectedDevice, setSelectedDevice] = useState<string | null>(null);
 
-  const [geofences, setGeofences] = useState<Geofence[]>([]);
+  const [playbackTrack, setPlaybackTrack] = useState<LivePoint[]>([]);
+  const [playbackCursor] = useState(createPlaybackCursor);
+
+  const [fetchedGeofences, setFetchedGeofences] = useState<Geofence[]>([]);
   const [showGeofences, setShowGeofences] = useState(true);
+  const [drawMode, setDrawMode] = useState<FenceDrawMode | null>(null);
+
+  // Read by the draw callbacks, which must keep a stable identity: the draw
+  // plugin re-creates its toolbar (and leaks "edited" listeners) when they change.
+  const drawModeRef = useRef(drawMode);
+  drawModeRef.current = drawMode;
+  const fetchedGeofencesRef = useRef(fetchedGeofences);
+  fetchedGeofencesRef.current = fetchedGeofences;
+
+  // Hole/area drawing is tied to the selected fence
+  useEffect(() => {
+    setDrawMode((mode) => (mode && mode.fenceId !== selectedGeofenceId ? null : mode));
+  }, [selectedGeofenceId]);
   const [geofenceBusy, setGeofenceBusy] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [importPreview, setImportPreview] = useState<ImportPreview | null>(null);
+  const [showParcels, setShowParcels] = useState(false);
+  // Parcels picked on the map, merged into one fence on create
+  const [selectedParcels, setSelectedParcels] = useState<Parcel[]>([]);
+  const ruleTargets = useMemo(
+    () => devices.map((d) => ({ id: d.deviceId, name: deviceLabel(d, animalByDevice.get(d.deviceId)) })),
+    [devices, animalByDevice]
+  );
+  const selectedParcelKeys = useMemo(() => new Set(selectedParcels.map((p) => p.key)), [selectedParcels]);
+
+  useEffect(() => {
+    setSelectedParcels([]);
+  }, [ranchId, showParcels]);
 
   const [incomingAlert, setIncomingAlert] = useState<AlertRow | null>(null);
   const [toastAlert, setToastAlert] = useState<AlertRow | null>(null);
+  const [focusedAlert, setFocusedAlert] = useState<AlertRow | null>(null);
+
+  // Role comes from the membership in the selected ranch, falling back to the account role
+  const role = ranches.find((r) => r.id === ranchId)?.role ?? user?.role;
+  const perms = useMemo(() => permissionsFor(role), [role]);
+  // Fence schedules are ranch-local
+  const ranchTimeZone = ranches.find((r) => r.id === ranchId)?.timeZone ?? null;
+
+  // Fences drawn offline show alongside saved ones until they sync
+  const { pending: queuedActions, synced: queueSynced } = useOfflineQueue();
+  const geofences = useMemo(() => {
+    const queued = queuedActions
+      .filter((a) => a.ranchId === ranchId)
+      .map(queuedGeofence)
+      .filter((g): g is Geofence => !!g);
+    return queued.length ? [...fetchedGeofences, ...queued] : fetchedGeofences;
+  }, [fetchedGeofences, queuedActions, ranchId]);
 
   const wsRef = useRef<WebSocket | null>(null);
   const reconnectTimerRef = useRef<number | null>(null);
   const pollTimerRef = useRef<number | null>(null);
+  const wsAttemptRef = useRef(0);
+  const hasConnectedRef = useRef(false);
+
+  // receivedAt of the newest fix we hold with no gap before it. Only the
+  // socket and backfills advance it, so a reconnect asks for exactly the
+  // points we missed.
+  const cursorRef = useRef<string | null>(null);
+
+  const advanceCursor = useCallback((points: LivePoint[]) => {
+    for (const p of points) {
+      const at = p.receivedAt || p.ts;
+      if (at && toMs(at) > toMs(cursorRef.current ?? undefined)) cursorRef.current = at;
+    }
+  }, []);
 
-  const fetchJson = useCallback(
-    async (path: string) => {
-      const url = `${API_URL}${path}`;
-      const headers: Record<string, string> = {};
-      if (token) headers.Authorization = `Bearer ${token}`;
-
-      const res = await fetch(url, { headers });
-
-      if (res.status === 401) {
-        try {
-          onLogout?.();
-        } catch {}
-        throw new Error("401 Unauthorized");
-      }
-
-      if (!res.ok) {
-        const text = await res.text().catch(() => "");
-        throw new Error(`${res.status} ${res.statusText} ${text}`);
-      }
-
-      return res.json();
-    },
-    [token, onLogout]
-  );
+  // Latest token for the socket; rotation re-authenticates it without reconnecting
+  const tokenRef = useRef(token);
 
+  // A 401 here has already been through refresh + retry; the session store
+  // then shows the re-login modal, so the dashboard stays mounted.
   const loadDevices = useCallback(async () => {
-    const data = await fetchJson("/api/devices");
-    setDevices(data);
-  }, [fetchJson]);
+    setDevices(await api.devices.list({ ranchId }));
+  }, [ranchId]);
+
+  const loadGroups = useCallback(async () => {
+    const rows = await api.groups.list({ ranchId });
+    setGroups(rows);
+    // Drop filters for groups that no longer exist
+    setGroupFilter((f) => f.filter((id) => rows.some((g) => g.id === id)));
+  }, [ranchId]);
+
+  const loadAnimals = useCallback(async () => {
+    setAnimals(await api.animals.list({ ranchId }));
+  }, [ranchId]);
+
+  // Mirrors the server: a tracker put on this animal comes off any other
+  const upsertAnimal = useCallback((animal: Animal) => {
+    setAnimals((rows) =>
+      upsertBy(
+        rows.map((a) => (animal.deviceId && a.id !== animal.id && a.deviceId === animal.deviceId ? { ...a, deviceId: null } : a)),
+        animal,
+        (a) => a.id
+      )
+    );
+  }, []);
 
   const loadUnclaimed = useCallback(async () => {
-    const data = await fetchJson("/api/devices/unclaimed");
-    setUnclaimed(data);
-  }, [fetchJson]);
+    setUnclaimed(await api.devices.unclaimed({ ranchId }));
+  }, [ranchId]);
 
   const loadLatestPoints = useCallback(async () => {
-    const data = await fetchJson("/api/live/latest");
-
-    const by: Record<string, LivePoint[]> = {};
-    for (const p of data as LivePoint[]) {
-      if (!p?.deviceId) continue;
-      if (!by[p.deviceId]) by[p.deviceId] = [];
-      by[p.deviceId].push(p);
-    }
-
-    setPointsByDevice((prev) => {
-      const merged: Record<string, LivePoint[]> = { ...prev };
+    const data = await api.live.latest({ ranchId });
+    if (!cursorRef.current) advanceCursor(data);
+    setPointsByDevice((prev) => mergeLivePoints(prev, data));
+  }, [ranchId, advanceCursor]);
+
+  // Unread alerts across the ranch, for the tab title and favicon
+  const [unreadCount, setUnreadCount] = useState(0);
+  const unreadTimerRef = useRef<number | null>(null);
+  const refreshUnread = useCallback(() => {
+    if (unreadTimerRef.current) window.clearTimeout(unreadTimerRef.current);
+    unreadTimerRef.current = window.setTimeout(() => {
+      api.alerts
+        .unreadCount({ ranchId })
+        .then((r) => setUnreadCount(r.count))
+        .catch((e) => console.error("Failed to load unread count:", e));
+    }, 500);
+  }, [ranchId]);
 
-      for (const [id, pts] of Object.entries(by)) {
-        const existing = merged[id] || [];
-        const next = [...existing, ...pts];
-
-        const seen = new Set<string>();
-        const deduped: LivePoint[] = [];
-        for (const x of next) {
-          const key = `${x.ts || x.receivedAt || ""}-${x.lat}-${x.lon}-${x.fCnt ?? ""}`;
-          if (seen.has(key)) continue;
-          seen.add(key);
-          deduped.push(x);
-        }
+  useEffect(() => {
+    setUnreadCount(0);
+    refreshUnread();
+  }, [refreshUnread]);
 
-        deduped.sort((a, b) => toMs(a.ts || a.receivedAt) - toMs(b.ts || b.receivedAt));
-        merged[id] = deduped.slice(-120);
-      }
+  useEffect(() => {
+    setUnreadBadge(unreadCount);
+  }, [unreadCount]);
 
-      return merged;
-    });
-  }, [fetchJson]);
+  useEffect(
+    () => () => {
+      if (unreadTimerRef.current) window.clearTimeout(unreadTimerRef.current);
+      setUnreadBadge(0);
+    },
+    []
+  );
 
   const loadGeofences = useCallback(async () => {
-    const data = await fetchJson("/api/geofences");
-    setGeofences(data);
-  }, [fetchJson]);
+    setFetchedGeofences(await api.geofences.list({ ranchId }));
+  }, [ranchId]);
 
   const claimDevice = useCallback(
     async (deviceId: string) => {
       setClaimingId(deviceId);
       try {
-        const res = await fetch(`${API_URL}/api/devices/claim`, {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${token}`,
-          },
-          body: JSON.stringify({ deviceId }),
-        });
-
-        if (!res.ok) {
-          const t = await res.text().catch(() => "");
-          throw new Error(`Claim failed: ${res.status} ${res.statusText} ${t}`);
-        }
-
+        await api.devices.claim(deviceId, { ranchId });
         await loadDevices();
         await loadUnclaimed();
         await loadLatestPoints();
@@ -299,23 +585,45 @@ export default function Dashboard({ token, user, onLogout }: DashboardProps) {
         setClaimingId(null);
       }
     },
-    [token, loadDevices, loadUnclaimed, loadLatestPoints]
+    [ranchId, loadDevices, loadUnclaimed, loadLatestPoints]
+  );
+
+  // Many claims land at once; one reload after they settle
+  const deviceListsTimerRef = useRef<number | null>(null);
+  const refreshDeviceLists = useCallback(() => {
+    if (deviceListsTimerRef.current) window.clearTimeout(deviceListsTimerRef.current);
+    deviceListsTimerRef.current = window.setTimeout(() => {
+      Promise.all([loadDevices(), loadUnclaimed(), loadLatestPoints()]).catch((e) =>
+        console.error("Failed to reload devices:", e)
+      );
+    }, 500);
+  }, [loadDevices, loadUnclaimed, loadLatestPoints]);
+
+  useEffect(
+    () => () => {
+      if (deviceListsTimerRef.current) window.clearTimeout(deviceListsTimerRef.current);
+    },
+    []
   );
 
+  // After an unclaim or transfer: the device has left, and with it its animal link and groups
+  const releaseDevice = useCallback(async () => {
+    navigate({ name: "home" });
+    try {
+      await loadDevices();
+      await loadUnclaimed();
+      await loadAnimals();
+      await loadGroups();
+    } catch (e) {
+      console.error("Failed to reload after releasing a device:", e);
+    }
+  }, [loadDevices, loadUnclaimed, loadAnimals, loadGroups]);
+
   const deleteGeofence = useCallback(
     async (id: string) => {
       setGeofenceBusy(true);
       try {
-        const res = await fetch(`${API_URL}/api/geofences/${id}`, {
-          method: "DELETE",
-          headers: { Authorization: `Bearer ${token}` },
-        });
-
-        if (!res.ok) {
-          const t = await res.text().catch(() => "");
-          throw new Error(`Delete geofence failed: ${res.status} ${res.statusText} ${t}`);
-        }
-
+        await api.geofences.remove(id, { ranchId });
         await loadGeofences();
       } catch (e) {
         console.error(e);
@@ -323,48 +631,203 @@ export default function Dashboard({ token, user, onLogout }: DashboardProps) {
         setGeofenceBusy(false);
       }
     },
-    [token, loadGeofences]
+    [ranchId, loadGeofences]
   );
 
-  const createGeofence = useCallback(
-    async (payload: any) => {
+  const updateGeofence = useCallback(
+    async (id: string, patch: UpdateGeofenceInput) => {
       setGeofenceBusy(true);
       try {
-        const res = await fetch(`${API_URL}/api/geofences`, {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${token}`,
-          },
-          body: JSON.stringify(payload),
-        });
+        const saved = await api.geofences.update(id, patch, { ranchId });
+        setFetchedGeofences((rows) => rows.map((g) => (g.id === id ? { ...g, ...patch, ...saved } : g)));
+      } catch (e) {
+        console.error(e);
+        // Put the map shape back to what the server has
+        loadGeofences().catch(console.error);
+        throw e;
+      } finally {
+        setGeofenceBusy(false);
+      }
+    },
+    [ranchId, loadGeofences]
+  );
+
+  // Leaflet layer id -> fence id, for the edit tool's "edited" event
+  const fenceLayerIdsRef = useRef(new Map<number, string>());
+
+  const registerFenceLayer = useCallback((id: string, layer: L.Layer | null) => {
+    if (layer) fenceLayerIdsRef.current.set(L.stamp(layer), id);
+  }, []);
 
-        if (!res.ok) {
-          const t = await res.text().catch(() => "");
-          throw new Error(`Create geofence failed: ${res.status} ${res.statusText} ${t}`);
+  const handleGeofencesEdited = useCallback(
+    async (e: L.DrawEvents.Edited) => {
+      const edits: [string, UpdateGeofenceInput][] = [];
+
+      e.layers.eachLayer((layer: L.Layer) => {
+        const id = fenceLayerIdsRef.current.get(L.stamp(layer));
+        if (!id) return;
+
+        if (layer instanceof L.Circle) {
+          const c = layer.getLatLng();
+          edits.push([id, { centerLat: c.lat, centerLon: c.lng, radiusM: layer.getRadius() }]);
+        } else if (layer instanceof L.Polygon) {
+          const geometry = layer.toGeoJSON().geometry;
+          if (isValidGeoJsonPolygonGeometry(geometry)) edits.push([id, { polygon: geometry as GeofenceGeometry }]);
         }
+      });
 
-        await loadGeofences();
+      for (const [id, patch] of edits) {
+        try {
+          await updateGeofence(id, patch);
+        } catch {
+          // logged and reverted in updateGeofence
+        }
+      }
+    },
+    [updateGeofence]
+  );
+
+  const createGeofence = useCallback(
+    async (input: CreateGeofenceInput) => {
+      setGeofenceBusy(true);
+      try {
+        const result = await runOrQueue({ kind: "geofences.create", input }, ranchId);
+        if (!result.queued) await loadGeofences();
       } catch (e) {
         console.error(e);
       } finally {
         setGeofenceBusy(false);
       }
     },
-    [token, loadGeofences]
+    [ranchId, loadGeofences]
+  );
+
+  const toggleParcel = useCallback((parcel: Parcel) => {
+    setSelectedParcels((prev) =>
+      prev.some((p) => p.key === parcel.key) ? prev.filter((p) => p.key !== parcel.key) : [...prev, parcel]
+    );
+  }, []);
+
+  const createFenceFromParcels = async () => {
+    const polygon = mergeGeometries(selectedParcels.map((p) => p.geometry));
+    if (!polygon) return;
+    if (
+      selectedParcels.length > 1 &&
+      polygon.type === "MultiPolygon" &&
+      !confirm("Some of the selected parcels don't touch. Create one fence with separate areas?")
+    ) {
+      return;
+    }
+
+    const only = selectedParcels.length === 1 ? selectedParcels[0] : null;
+    const name = prompt("Fence name", only?.owner ? `${only.owner} parcel` : `Pasture ${new Date().toLocaleTimeString()}`);
+    if (!name?.trim()) return;
+
+    await createGeofence({
+      name: name.trim(),
+      type: "polygon",
+      centerLat: null,
+      centerLon: null,
+      radiusM: null,
+      polygon,
+    });
+    setSelectedParcels([]);
+  };
+
+  // Resolves with the number of fences that couldn't be saved or queued
+  const importGeofences = useCallback(
+    async (items: ImportedFence[]) => {
+      setGeofenceBusy(true);
+      const saved: boolean[] = [];
+      try {
+        for (const item of items) {
+          const input: CreateGeofenceInput = item.circle
+            ? {
+                name: item.name,
+                type: "circle",
+                centerLat: item.circle.lat,
+                centerLon: item.circle.lon,
+                radiusM: item.circle.radiusM,
+                polygon: null,
+              }
+            : {
+                name: item.name,
+                type: "polygon",
+                centerLat: null,
+                centerLon: null,
+                radiusM: null,
+                polygon: item.geometry,
+                corridorWidthM: item.corridorWidthM ?? undefined,
+              };
+
+          try {
+            await runOrQueue({ kind: "geofences.create", input }, ranchId);
+            saved.push(true);
+          } catch (e) {
+            console.error("Failed to import geofence:", item.name, e);
+            saved.push(false);
+          }
+        }
+        await loadGeofences().catch(console.error);
+      } finally {
+        setGeofenceBusy(false);
+      }
+      return saved;
+    },
+    [ranchId, loadGeofences]
+  );
+
+  const exportGeofences = useCallback(
+    async (format: FenceFileFormat) => {
+      const ranchName = ranches.find((r) => r.id === ranchId)?.name;
+      const baseName = `${(ranchName || "geofences").replace(/[^\w-]+/g, "_")}_${new Date().toISOString().slice(0, 10)}`;
+      try {
+        const { blob, filename } = await exportFences(fetchedGeofences, format, baseName);
+        downloadBlob(blob, filename);
+      } catch (e) {
+        console.error("Failed to export geofences:", e);
+        alert("Couldn't export geofences.");
+      }
+    },
+    [ranches, ranchId, fetchedGeofences]
   );
 
   const handleGeofenceCreated = useCallback(
-    async (e: any) => {
-      const layer = e?.layer as any;
+    async (e: L.DrawEvents.Created) => {
+      const layer = e.layer;
       if (!layer) return;
 
-      if (layer instanceof L.Circle && !(layer instanceof (L as any).CircleMarker)) {
+      // The draw plugin adds the sketch to the editable group; the saved
+      // fence renders in its place, with an id the edit tool can map back.
+      layer.remove();
+
+      // Cutting a hole in, or adding an area to, an existing fence
+      const mode = drawModeRef.current;
+      if (mode) {
+        setDrawMode(null);
+        const fence = fetchedGeofencesRef.current.find((g) => g.id === mode.fenceId);
+        const ring = drawnRing(layer);
+        if (!fence?.polygon || !ring) return;
+
+        const next = mode.kind === "hole" ? addHole(fence.polygon, ring) : addPart(fence.polygon, ring);
+        if (!next) {
+          alert("Draw the hole entirely inside the fence.");
+          return;
+        }
+
+        await updateGeofence(fence.id, { polygon: next }).catch(() => {});
+        return;
+      }
+
+      const stamp = new Date().toLocaleTimeString();
+
+      // L.Circle extends L.CircleMarker; circle markers aren't offered by the toolbar
+      if (layer instanceof L.Circle) {
         const center = layer.getLatLng();
         const radius = layer.getRadius();
 
         await createGeofence({
-          name: `Circle ${new Date().toLocaleTimeString()}`,
+          name: `Circle ${stamp}`,
           type: "circle",
           centerLat: center.lat,
           centerLon: center.lng,
@@ -374,25 +837,183 @@ export default function Dashboard({ token, user, onLogout }: DashboardProps) {
         return;
       }
 
-      if (layer instanceof L.Polygon && !(layer instanceof L.Rectangle)) {
-        const latlngs = layer.getLatLngs();
-        const coords = polygonLatLngsToDb(latlngs);
-
-        if (coords.length >= 3) {
-          await createGeofence({
-            name: `Polygon ${new Date().toLocaleTimeString()}`,
-            type: "polygon",
-            centerLat: null,
-            centerLon: null,
-            radiusM: null,
-            polygon: coords, // backend should normalize to GeoJSON geometry
-          });
+      // Rectangles are polygons too
+      if (layer instanceof L.Polygon) {
+        const ring = drawnRing(layer);
+        if (!ring) return;
+
+        await createGeofence({
+          name: `${layer instanceof L.Rectangle ? "Rectangle" : "Polygon"} ${stamp}`,
+          type: "polygon",
+          centerLat: null,
+          centerLon: null,
+          radiusM: null,
+          polygon: { type: "Polygon", coordinates: [ring] },
+        });
+        return;
+      }
+
+      // A drawn line becomes a corridor: a lane of the given width along it
+      if (layer instanceof L.Polyline) {
+        const line = (layer.getLatLngs() as L.LatLng[]).map((p) => [p.lng, p.lat]);
+        const answer = prompt("Corridor width in meters", String(DEFAULT_CORRIDOR_WIDTH_M));
+        if (answer == null) return;
+
+        const widthM = Number(answer);
+        const polygon = corridorGeometry(line, widthM);
+        if (!polygon) {
+          alert("Enter a width above zero and draw at least two points.");
+          return;
         }
+
+        await createGeofence({
+          name: `Corridor ${stamp}`,
+          type: "polygon",
+          centerLat: null,
+          centerLon: null,
+          radiusM: null,
+          polygon,
+          corridorWidthM: widthM,
+        });
       }
     },
-    [createGeofence]
+    [createGeofence, updateGeofence]
   );
 
+  const loadAll = useCallback(async () => {
+    await loadDevices();
+    await loadUnclaimed();
+    await loadLatestPoints();
+    await loadGeofences();
+    await loadAnimals();
+    await loadGroups();
+  }, [loadDevices, loadUnclaimed, loadLatestPoints, loadGeofences, loadAnimals, loadGroups]);
+
+  // After a gap: reload the small lists and backfill only the fixes we missed
+  const resyncAfterGap = useCallback(async () => {
+    await loadDevices();
+    await loadUnclaimed();
+    await loadGeofences();
+    await loadAnimals();
+    await loadGroups();
+
+    const cursor = cursorRef.current;
+    if (!cursor) {
+      await loadLatestPoints();
+      return;
+    }
+
+    const missed = await api.live.since(cursor, { ranchId });
+    advanceCursor(missed);
+    setPointsByDevice((prev) => mergeLivePoints(prev, missed));
+    refreshUnread();
+  }, [ranchId, loadDevices, loadUnclaimed, loadGeofences, loadAnimals, loadGroups, loadLatestPoints, advanceCursor, refreshUnread]);
+
+  // Applies one socket message to state in place
+  const applyLiveMessage = useCallback((msg: LiveMessage) => {
+    switch (msg.type) {
+      case "telemetry": {
+        const p = msg.data;
+        advanceCursor([p]);
+        setPointsByDevice((prev) => mergeLivePoints(prev, [p]));
+
+        const lastSeen = p.receivedAt || p.ts;
+        if (lastSeen) {
+          const touch = (rows: DeviceRow[]) =>
+            rows.some((d) => d.deviceId === p.deviceId)
+              ? rows.map((d) => (d.deviceId === p.deviceId ? { ...d, lastSeen } : d))
+              : rows;
+          setDevices(touch);
+          setUnclaimed(touch);
+        }
+        return;
+      }
+
+      case "device": {
+        const d = msg.data;
+        const byId = (r: DeviceRow) => r.deviceId;
+        const without = (rows: DeviceRow[]) => rows.filter((r) => r.deviceId !== d.deviceId);
+        const patch = (rows: DeviceRow[]) =>
+          rows.some((r) => r.deviceId === d.deviceId) ? upsertBy(rows, d, byId) : rows;
+
+        if (msg.event === "claimed") {
+          setDevices((rows) => upsertBy(rows, d, byId));
+          setUnclaimed(without);
+        } else if (msg.event === "unclaimed") {
+          setUnclaimed((rows) => upsertBy(rows, d, byId));
+          setDevices(without);
+        } else {
+          setDevices(patch);
+          setUnclaimed(patch);
+        }
+        return;
+      }
+
+      case "alert": {
+        const a = msg.data;
+        setIncomingAlert(a);
+        if (msg.event !== "created") {
+          refreshUnread();
+          return;
+        }
+        if (!a.isRead) setUnreadCount((n) => n + 1);
+        notifyAlert(a, { deviceLabel: labelOfRef.current(a.deviceId), onClick: () => navigate({ name: "alert", id: a.id }) });
+        setToastAlert(a);
+        window.setTimeout(() => {
+          setToastAlert((cur) => (cur?.id === a.id ? null : cur));
+        }, 8000);
+        return;
+      }
+
+      case "geofence": {
+        if (msg.event === "deleted") {
+          const { id } = msg.data;
+          setFetchedGeofences((rows) => rows.filter((g) => g.id !== id));
+        } else {
+          const gf = msg.data;
+          setFetchedGeofences((rows) => upsertBy(rows, gf, (g) => g.id));
+        }
+        return;
+      }
+    }
+  }, [advanceCursor, refreshUnread]);
+
+  // Last-known data so the map isn't empty when the first load can't get out.
+  // Anything the network already returned wins.
+  useEffect(() => {
+    let cancelled = false;
+
+    loadSnapshot(ranchId).then((snap) => {
+      if (!snap || cancelled) return;
+      setDevices((cur) => (cur.length ? cur : snap.devices));
+      setUnclaimed((cur) => (cur.length ? cur : snap.unclaimed));
+      setFetchedGeofences((cur) => (cur.length ? cur : snap.geofences));
+      setAnimals((cur) => (cur.length ? cur : snap.animals ?? []));
+      setGroups((cur) => (cur.length ? cur : snap.groups ?? []));
+      setPointsByDevice((cur) => mergeLivePoints(snap.pointsByDevice, Object.values(cur).flat()));
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [ranchId]);
+
+  useEffect(() => {
+    if (loadStatus !== "ready") return;
+    const t = window.setTimeout(() => {
+      saveSnapshot(ranchId, { devices, unclaimed, pointsByDevice, geofences: fetchedGeofences, animals, groups });
+    }, 2000);
+    return () => window.clearTimeout(t);
+  }, [ranchId, loadStatus, devices, unclaimed, pointsByDevice, fetchedGeofences, animals, groups]);
+
+  // A replayed action may have created a fence (swap the stand-in for the
+  // real one) or read an alert
+  useEffect(() => {
+    if (!queueSynced) return;
+    loadGeofences().catch((e) => console.error(e));
+    refreshUnread();
+  }, [queueSynced, loadGeofences, refreshUnread]);
+
   // initial load + polling
   useEffect(() => {
     let mounted = true;
@@ -400,10 +1021,7 @@ export default function Dashboard({ token, user, onLogout }: DashboardProps) {
     (async () => {
       try {
         setLoadStatus("loading");
-        await loadDevices();
-        await loadUnclaimed();
-        await loadLatestPoints();
-        await loadGeofences();
+        await loadAll();
         if (!mounted) return;
         setLoadStatus("ready");
       } catch (e) {
@@ -413,12 +1031,11 @@ export default function Dashboard({ token, user, onLogout }: DashboardProps) {
       }
     })();
 
+    // Fallback while the socket is down; an open socket keeps state current
     pollTimerRef.current = window.setInterval(async () => {
+      if (wsRef.current?.readyState === WebSocket.OPEN) return;
       try {
-        await loadDevices();
-        await loadUnclaimed();
-        await loadLatestPoints();
-        await loadGeofences();
+        await resyncAfterGap();
       } catch (e) {
         console.error("poll error", e);
       }
@@ -428,81 +1045,110 @@ export default function Dashboard({ token, user, onLogout }: DashboardProps) {
       mounted = false;
       if (pollTimerRef.current) window.clearInterval(pollTimerRef.current);
     };
-  }, [loadDevices, loadUnclaimed, loadLatestPoints, loadGeofences]);
+  }, [loadAll, resyncAfterGap]);
 
   // WebSocket connect
   useEffect(() => {
     let stopped = false;
 
+    function scheduleReconnect() {
+      const attempt = wsAttemptRef.current + 1;
+      if (attempt > WS_MAX_RETRIES) {
+        setWsStatus("offline");
+        return;
+      }
+
+      wsAttemptRef.current = attempt;
+      setWsAttempt(attempt);
+      setWsStatus("reconnecting");
+
+      // Full jitter so a tower coming back doesn't get every client at once
+      const ceiling = Math.min(WS_MAX_DELAY_MS, WS_BASE_DELAY_MS * 2 ** (attempt - 1));
+      const delay = Math.round(ceiling / 2 + (Math.random() * ceiling) / 2);
+      if (reconnectTimerRef.current) window.clearTimeout(reconnectTimerRef.current);
+      reconnectTimerRef.current = window.setTimeout(() => connect(), delay);
+    }
+
     function connect() {
       if (stopped) return;
 
       try {
         if (wsRef.current) {
+          wsRef.current.onclose = null;
           wsRef.current.close();
           wsRef.current = null;
         }
 
-        setWsStatus((prev) => (prev === "connected" ? "reconnecting" : "connecting"));
+        setWsStatus((prev) => (prev === "connected" || prev === "reconnecting" ? "reconnecting" : "connecting"));
 
-        const ws = new WebSocket(`${WS_URL}/api/live`);
+        const qs = new URLSearchParams();
+        if (ranchId) qs.set("ranchId", ranchId);
+        const ws = new WebSocket(`${WS_URL}/api/live?${qs}`);
         wsRef.current = ws;
 
         ws.onopen = () => {
           if (stopped) return;
+          if (tokenRef.current) ws.send(encodeLiveMessage({ type: "auth", token: tokenRef.current }));
+          wsAttemptRef.current = 0;
+          setWsAttempt(0);
           setWsStatus("connected");
-        };
 
-        ws.onmessage = async (event) => {
-          try {
-            const raw = event?.data;
-
-            if (typeof raw === "string") {
-              try {
-                const msg = JSON.parse(raw);
-
-                if (msg?.type === "alert" && msg?.data) {
-                  const a = msg.data as AlertRow;
-                  setIncomingAlert(a);
-                  setToastAlert(a);
-                  window.setTimeout(() => {
-                    setToastAlert((cur) => (cur?.id === a.id ? null : cur));
-                  }, 8000);
-                }
-              } catch {}
-            }
-
-            await loadLatestPoints();
-            await loadDevices();
-            await loadUnclaimed();
-          } catch {}
+          flushQueue();
+          if (hasConnectedRef.current) {
+            resyncAfterGap().catch((e) => console.error("resync after reconnect failed", e));
+          }
+          hasConnectedRef.current = true;
         };
 
-        ws.onerror = () => {
-          if (stopped) return;
-          setWsStatus("error");
+        ws.onmessage = (event) => {
+          const msg = parseLiveMessage(event?.data);
+          if (msg) applyLiveMessage(msg);
         };
 
+        // onclose always follows and schedules the retry
+        ws.onerror = () => {};
+
         ws.onclose = () => {
           if (stopped) return;
-          setWsStatus("reconnecting");
-          if (reconnectTimerRef.current) window.clearTimeout(reconnectTimerRef.current);
-          reconnectTimerRef.current = window.setTimeout(() => connect(), 1500) as any;
+          scheduleReconnect();
         };
       } catch (e) {
         console.error("WS connect failed", e);
-        setWsStatus("error");
+        scheduleReconnect();
       }
     }
 
+    // Coming back online is a better signal than any timer
+    const onOnline = () => {
+      if (wsRef.current?.readyState === WebSocket.OPEN) return;
+      if (reconnectTimerRef.current) window.clearTimeout(reconnectTimerRef.current);
+      wsAttemptRef.current = 0;
+      setWsAttempt(0);
+      connect();
+    };
+    window.addEventListener("online", onOnline);
+
+    wsAttemptRef.current = 0;
+    setWsAttempt(0);
     connect();
 
     return () => {
       stopped = true;
+      window.removeEventListener("online", onOnline);
       if (reconnectTimerRef.current) window.clearTimeout(reconnectTimerRef.current);
       if (wsRef.current) wsRef.current.close();
     };
-  }, [loadLatestPoints, loadDevices, loadUnclaimed]);
+  }, [ranchId, wsGeneration, resyncAfterGap, applyLiveMessage]);
+
+  useEffect(() => {
+    if (tokenRef.current === token) return;
+    tokenRef.current = token;
+
+    const ws = wsRef.current;
+    if (ws?.readyState === WebSocket.OPEN) {
+      ws.send(encodeLiveMessage({ type: "auth", token }));
+    }
+  }, [token]);
 
   // Motion state
   type MotionState = "moving" | "stationary" | "unknown";
@@ -561,6 +1207,28 @@ export default function Dashboard({ token, user, onLogout }: DashboardProps) {
     return out;
   }, [pointsByDevice]);
 
+  // Fence schedules turn on and off with the clock, not only with new fixes
+  const [clock, setClock] = useState(() => new Date());
+  useEffect(() => {
+    const t = window.setInterval(() => setClock(new Date()), 60_000);
+    return () => window.clearInterval(t);
+  }, []);
+
+  const containment = useMemo(() => {
+    const positions: Record<string, { lat: number; lon: number }> = {};
+    for (const [deviceId, pts] of Object.entries(pointsByDevice)) {
+      const last = pts[pts.length - 1];
+      if (last) positions[deviceId] = { lat: last.lat, lon: last.lon };
+    }
+    return evaluateContainment(geofences, positions, {
+      at: clock,
+      timeZone: ranchTimeZone,
+      groupIdsOf: (deviceId) => (deviceGroups.get(deviceId) ?? []).map((g) => g.id),
+    });
+  }, [geofences, pointsByDevice, clock, ranchTimeZone, deviceGroups]);
+
+  const fenceNames = useMemo(() => new Map(geofences.map((g) => [g.id, g.name])), [geofences]);
+
   const allPoints = useMemo(() => Object.values(pointsByDevice).flat(), [pointsByDevice]);
 
   const mapCenter = useMemo<[number, number]>(() => {
@@ -570,7 +1238,7 @@ export default function Dashboard({ token, user, onLogout }: DashboardProps) {
       .at(-1);
 
     if (latest) return [latest.lat, latest.lon];
-    return [32.9565, -96.3893];
+    return DEFAULT_CENTER;
   }, [allPoints]);
 
   const selectedPoints = useMemo(() => {
@@ -584,12 +1252,99 @@ export default function Dashboard({ token, user, onLogout }: DashboardProps) {
     return selectedPoints.map((p) => [p.lat, p.lon]) as [number, number][];
   }, [selectedDevice, selectedPoints]);
 
+  const playbackPolyline = useMemo(
+    () => playbackTrack.map((p) => [p.lat, p.lon]) as [number, number][],
+    [playbackTrack]
+  );
+
+  const focusTarget = useMemo<MapFocusTarget | null>(() => {
+    if (selectedDevice) {
+      const p = selectedPoints[selectedPoints.length - 1];
+      if (!p) return null;
+      return { key: `device:${selectedDevice}`, bounds: L.latLng(p.lat, p.lon).toBounds(400) };
+    }
+
+    if (selectedGeofenceId) {
+      const gf = geofences.find((g) => g.id === selectedGeofenceId);
+      if (!gf) return null;
+      if (gf.type === "circle" && gf.centerLat != null && gf.centerLon != null && gf.radiusM != null) {
+        return { key: `geofence:${gf.id}`, bounds: L.latLng(gf.centerLat, gf.centerLon).toBounds(gf.radiusM * 2) };
+      }
+      if (isValidGeoJsonPolygonGeometry(gf.polygon)) {
+        return { key: `geofence:${gf.id}`, bounds: L.geoJSON(gf.polygon).getBounds() };
+      }
+      return null;
+    }
+
+    if (selectedAlertId && focusedAlert?.id === selectedAlertId) {
+      if (focusedAlert.lat != null && focusedAlert.lon != null) {
+        return { key: `alert:${focusedAlert.id}`, bounds: L.latLng(focusedAlert.lat, focusedAlert.lon).toBounds(400) };
+      }
+      // No fix on the alert; the animal's last known position is the next best place to look
+      const last = pointsByDevice[focusedAlert.deviceId]?.at(-1);
+      if (last) return { key: `alert:${focusedAlert.id}`, bounds: L.latLng(last.lat, last.lon).toBounds(400) };
+    }
+
+    return null;
+  }, [selectedDevice, selectedPoints, selectedGeofenceId, geofences, selectedAlertId, focusedAlert, pointsByDevice]);
+
+  // Everything we know about on the ranch, for offline tile packs
+  const ranchBounds = useMemo<Bounds | null>(() => {
+    const b = L.latLngBounds([]);
+    for (const gf of fetchedGeofences) {
+      if (gf.type === "circle" && gf.centerLat != null && gf.centerLon != null && gf.radiusM != null) {
+        b.extend(L.latLng(gf.centerLat, gf.centerLon).toBounds(gf.radiusM * 2));
+      } else if (isValidGeoJsonPolygonGeometry(gf.polygon)) {
+        b.extend(L.geoJSON(gf.polygon).getBounds());
+      }
+    }
+    for (const pts of Object.values(pointsByDevice)) {
+      const last = pts[pts.length - 1];
+      if (last) b.extend([last.lat, last.lon]);
+    }
+    if (!b.isValid()) return null;
+
+    const padded = b.pad(0.2);
+    return { south: padded.getSouth(), west: padded.getWest(), north: padded.getNorth(), east: padded.getEast() };
+  }, [fetchedGeofences, pointsByDevice]);
+
+  const renderFence = (gf: Geofence) => {
+    const shape = fenceShape(gf);
+    if (!shape) return null;
+
+    const style = gf.id === selectedGeofenceId ? SELECTED_FENCE_STYLE : FENCE_STYLE;
+    const ref = (layer: L.Layer | null) => registerFenceLayer(gf.id, layer);
+    const eventHandlers = { click: () => navigate({ name: "geofence", id: gf.id }) };
+
+    return shape.kind === "circle" ? (
+      <Circle
+        key={gf.id}
+        ref={ref}
+        center={shape.center}
+        radius={shape.radius}
+        pathOptions={style}
+        eventHandlers={eventHandlers}
+      >
+        <Tooltip sticky>{gf.name}</Tooltip>
+      </Circle>
+    ) : (
+      <Polygon key={gf.id} ref={ref} positions={shape.positions} pathOptions={style} eventHandlers={eventHandlers}>
+        <Tooltip sticky>{gf.name}</Tooltip>
+      </Polygon>
+    );
+  };
+
+  const selectedDeviceRow = useMemo(
+    () => devices.find((d) => d.deviceId === selectedDevice) ?? null,
+    [devices, selectedDevice]
+  );
+
   const wsDotColor =
     wsStatus === "connected"
       ? "#22c55e"
       : wsStatus === "reconnecting"
       ? "#f59e0b"
-      : wsStatus === "error"
+      : wsStatus === "offline"
       ? "#ef4444"
       : "#9ca3af";
 
@@ -614,7 +1369,9 @@ export default function Dashboard({ token, user, onLogout }: DashboardProps) {
           }}
         >
           <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 10 }}>
-            <div style={{ fontWeight: 900 }}>Geofence alert</div>
+            <div style={{ fontWeight: 900 }}>
+              {alertTypeInfo(toastAlert.type).label} • {labelOf(toastAlert.deviceId)}
+            </div>
             <button
               onClick={() => setToastAlert(null)}
               style={{
@@ -673,229 +1430,383 @@ export default function Dashboard({ token, user, onLogout }: DashboardProps) {
 
             <div style={{ display: "flex", alignItems: "center", gap: 8 }}>
               <div style={{ width: 8, height: 8, borderRadius: 50, background: wsDotColor }} />
-              <div style={{ fontSize: 12, color: "#cbd5e1" }}>{wsStatus}</div>
+              <div style={{ fontSize: 12, color: "#cbd5e1" }}>
+                {wsStatus === "reconnecting" && wsAttempt > 0
+                  ? `reconnecting ${wsAttempt}/${WS_MAX_RETRIES}`
+                  : wsStatus}
+              </div>
+              {wsStatus === "offline" ? (
+                <button
+                  onClick={() => setWsGeneration((n) => n + 1)}
+                  style={{
+                    background: "rgba(255,255,255,0.06)",
+                    border: "1px solid rgba(255,255,255,0.10)",
+                    color: "#e5e7eb",
+                    borderRadius: 10,
+                    padding: "4px 8px",
+                    cursor: "pointer",
+                    fontSize: 11,
+                    fontWeight: 700,
+                  }}
+                >
+                  Retry
+                </button>
+              ) : null}
             </div>
           </div>
         </div>
 
+        {onRanchChange ? (
+          <div style={{ marginTop: 10 }}>
+            <RanchSwitcher ranches={ranches} ranchId={ranchId} onChange={onRanchChange} />
+          </div>
+        ) : null}
+
         <div style={{ height: 10 }} />
         <div style={{ fontSize: 12, color: "#cbd5e1", opacity: 0.9, marginBottom: 10 }}>
           {loadStatus === "loading" ? "Loading…" : loadStatus === "error" ? "Error loading data" : "Live map"}
         </div>
 
-        {/* Unclaimed devices */}
-        <div style={{ marginTop: 6, marginBottom: 14 }}>
-          <div style={{ fontSize: 12, color: "#94a3b8", marginBottom: 6 }}>Unclaimed devices</div>
-
-          {unclaimed.length === 0 ? (
-            <div style={{ color: "#94a3b8", fontSize: 12 }}>None found.</div>
-          ) : (
-            <div style={{ display: "flex", flexDirection: "column", gap: 8 }}>
-              {unclaimed.slice(0, 8).map((d) => (
-                <div
-                  key={d.deviceId}
-                  style={{
-                    borderRadius: 12,
-                    border: "1px solid rgba(255,255,255,0.08)",
-                    background: "rgba(255,255,255,0.03)",
-                    padding: 10,
-                  }}
-                >
-                  <div style={{ fontWeight: 800, fontSize: 13, color: "white" }}>{d.deviceId}</div>
-                  <div style={{ fontSize: 11, color: "#94a3b8", marginTop: 4 }}>
-                    Last seen: {d.lastSeen ? new Date(d.lastSeen).toLocaleString() : "—"}
-                  </div>
-
-                  <button
-                    onClick={() => claimDevice(d.deviceId)}
-                    disabled={claimingId === d.deviceId}
-                    style={{
-                      marginTop: 8,
-                      width: "100%",
-                      borderRadius: 10,
-                      border: "1px solid rgba(34,197,94,0.7)",
-                      background: "rgba(34,197,94,0.12)",
-                      color: "#e5e7eb",
-                      padding: "8px 10px",
-                      cursor: "pointer",
-                      fontSize: 12,
-                      fontWeight: 800,
-                      opacity: claimingId === d.deviceId ? 0.7 : 1,
-                    }}
-                  >
-                    {claimingId === d.deviceId ? "Claiming…" : "Claim to my ranch"}
-                  </button>
-                </div>
-              ))}
-            </div>
-          )}
+        {/* Sidebar tabs */}
+        <div style={{ display: "flex", gap: 8, marginBottom: 12 }}>
+          {SIDEBAR_TABS.map(([key, label, tabRoute]) => (
+            <button
+              key={key}
+              onClick={() => {
+                if (sidebarTab !== key) navigate(tabRoute);
+              }}
+              style={{
+                flex: 1,
+                borderRadius: 10,
+                border: sidebarTab === key ? "1px solid rgba(34,197,94,0.9)" : "1px solid rgba(255,255,255,0.10)",
+                background: sidebarTab === key ? "rgba(34,197,94,0.12)" : "rgba(255,255,255,0.04)",
+                color: "#e5e7eb",
+                padding: "6px 10px",
+                cursor: "pointer",
+                fontSize: 12,
+                fontWeight: 800,
+              }}
+            >
+              {label}
+            </button>
+          ))}
         </div>
 
-        {/* Geofences */}
-        <div
-          style={{
-            borderRadius: 12,
-            border: "1px solid rgba(255,255,255,0.08)",
-            background: "rgba(255,255,255,0.03)",
-            padding: 12,
-            marginBottom: 12,
-          }}
-        >
-          <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: 10 }}>
-            <div>
-              <div style={{ fontWeight: 900, fontSize: 13 }}>Geofences</div>
-              <div style={{ fontSize: 11, color: "#94a3b8" }}>Draw on the map (top-right tools). Saved to DB.</div>
-            </div>
-
-            <label style={{ display: "flex", alignItems: "center", gap: 8, cursor: "pointer" }}>
-              <input type="checkbox" checked={showGeofences} onChange={(e) => setShowGeofences(e.target.checked)} />
-              <span style={{ fontSize: 12, fontWeight: 800, color: "#e5e7eb" }}>Show ({geofences.length})</span>
-            </label>
+        {sidebarTab === "team" ? (
+          <div style={{ margin: "0 -16px" }}>
+            <TeamPanel
+              ranchId={ranchId}
+              currentUserId={user?.id ?? ""}
+              canManage={perms.canManageTeam}
+            />
           </div>
+        ) : sidebarTab === "animals" ? (
+          <AnimalsPanel
+            ranchId={ranchId}
+            animals={animals}
+            devices={devices}
+            loading={loadStatus === "loading"}
+            selectedId={selectedAnimalId}
+            canEdit={perms.canEditAnimals}
+            onSelect={(id) => navigate(id ? { name: "animal", id } : { name: "animals" })}
+            onChanged={upsertAnimal}
+            onRemoved={(id) => {
+              setAnimals((rows) => rows.filter((a) => a.id !== id));
+              navigate({ name: "animals" });
+            }}
+            onShowDevice={(id) => navigate({ name: "device", id })}
+          />
+        ) : (
+          <>
+            <button
+              onClick={() => setShowScanner(true)}
+              style={{
+                width: "100%",
+                marginBottom: 12,
+                borderRadius: 10,
+                border: "1px solid rgba(255,255,255,0.14)",
+                background: "rgba(255,255,255,0.06)",
+                color: "#e5e7eb",
+                padding: "8px 10px",
+                cursor: "pointer",
+                fontSize: 12,
+                fontWeight: 800,
+              }}
+            >
+              📷 Scan a tag
+            </button>
 
-          {geofences.length > 0 ? (
-            <div style={{ marginTop: 10, display: "flex", flexDirection: "column", gap: 8 }}>
-              {geofences.slice(0, 10).map((g) => (
-                <div
-                  key={g.id}
-                  style={{
-                    borderRadius: 10,
-                    border: "1px solid rgba(255,255,255,0.08)",
-                    padding: 10,
-                    display: "flex",
-                    alignItems: "center",
-                    justifyContent: "space-between",
-                    gap: 10,
-                  }}
-                >
-                  <div style={{ minWidth: 0 }}>
-                    <div
+            {/* Unclaimed devices */}
+            {perms.canClaimDevices ? (
+              <div style={{ marginTop: 6, marginBottom: 14 }}>
+                <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", marginBottom: 6 }}>
+                  <div style={{ fontSize: 12, color: "#94a3b8" }}>Unclaimed devices</div>
+                  {!showBulkClaim ? (
+                    <button
+                      onClick={() => setShowBulkClaim(true)}
                       style={{
-                        fontWeight: 900,
-                        fontSize: 12,
-                        whiteSpace: "nowrap",
-                        overflow: "hidden",
-                        textOverflow: "ellipsis",
+                        borderRadius: 10,
+                        border: "1px solid rgba(255,255,255,0.14)",
+                        background: "rgba(255,255,255,0.06)",
+                        color: "#e5e7eb",
+                        padding: "4px 8px",
+                        cursor: "pointer",
+                        fontSize: 11,
+                        fontWeight: 800,
                       }}
                     >
-                      {g.name}
-                    </div>
-                    <div style={{ fontSize: 11, color: "#94a3b8" }}>
-                      {g.type}
-                      {g.type === "circle" && g.radiusM != null ? ` • ${Math.round(g.radiusM)}m` : ""}
-                    </div>
+                      Bulk claim…
+                    </button>
+                  ) : null}
+                </div>
+
+                {showBulkClaim ? (
+                  <BulkClaimPanel
+                    ranchId={ranchId}
+                    claimed={devices}
+                    onClaimed={refreshDeviceLists}
+                    onClose={() => setShowBulkClaim(false)}
+                  />
+                ) : null}
+
+                {unclaimed.length === 0 ? (
+                  <div style={{ color: "#94a3b8", fontSize: 12 }}>None found.</div>
+                ) : (
+                  <div style={{ display: "flex", flexDirection: "column", gap: 8 }}>
+                    {unclaimed.slice(0, 8).map((d) => (
+                      <div
+                        key={d.deviceId}
+                        style={{
+                          borderRadius: 12,
+                          border: "1px solid rgba(255,255,255,0.08)",
+                          background: "rgba(255,255,255,0.03)",
+                          padding: 10,
+                        }}
+                      >
+                        <div style={{ fontWeight: 800, fontSize: 13, color: "white" }}>{d.deviceId}</div>
+                        <div style={{ fontSize: 11, color: "#94a3b8", marginTop: 4 }}>
+                          Last seen: {d.lastSeen ? new Date(d.lastSeen).toLocaleString() : "—"}
+                        </div>
+
+                        <button
+                          onClick={() => claimDevice(d.deviceId)}
+                          disabled={claimingId === d.deviceId}
+                          style={{
+                            marginTop: 8,
+                            width: "100%",
+                            borderRadius: 10,
+                            border: "1px solid rgba(34,197,94,0.7)",
+                            background: "rgba(34,197,94,0.12)",
+                            color: "#e5e7eb",
+                            padding: "8px 10px",
+                            cursor: "pointer",
+                            fontSize: 12,
+                            fontWeight: 800,
+                            opacity: claimingId === d.deviceId ? 0.7 : 1,
+                          }}
+                        >
+                          {claimingId === d.deviceId ? "Claiming…" : "Claim to my ranch"}
+                        </button>
+                      </div>
+                    ))}
                   </div>
+                )}
+              </div>
+            ) : null}
 
-                  <button
-                    disabled={geofenceBusy}
-                    onClick={() => deleteGeofence(g.id)}
-                    style={{
-                      borderRadius: 10,
-                      border: "1px solid rgba(239,68,68,0.6)",
-                      background: "rgba(239,68,68,0.10)",
-                      color: "#e5e7eb",
-                      padding: "6px 10px",
-                      cursor: "pointer",
-                      fontSize: 12,
-                      fontWeight: 900,
-                      opacity: geofenceBusy ? 0.7 : 1,
-                      flexShrink: 0,
-                    }}
-                  >
-                    Delete
-                  </button>
-                </div>
-              ))}
-              {geofences.length > 10 ? (
-                <div style={{ fontSize: 11, color: "#94a3b8" }}>Showing 10 of {geofences.length}</div>
-              ) : null}
-            </div>
-          ) : (
-            <div style={{ marginTop: 10, fontSize: 12, color: "#94a3b8" }}>
-              No geofences yet. Use the draw tools on the map.
-            </div>
-          )}
-        </div>
+            {/* Geofences */}
+            <GeofencePanel
+              geofences={geofences}
+              selectedId={selectedGeofenceId}
+              visible={showGeofences}
+              onVisibleChange={setShowGeofences}
+              canEdit={perms.canEditGeofences}
+              busy={geofenceBusy}
+              onSelect={(g) => navigate({ name: "geofence", id: g.id })}
+              onRename={(id, name) => updateGeofence(id, { name })}
+              onDelete={deleteGeofence}
+              onRulesChange={(id, rules) => updateGeofence(id, { rules })}
+              devices={ruleTargets}
+              headcounts={containment.byFence}
+              drawMode={drawMode}
+              onDrawModeChange={setDrawMode}
+              onImport={() => setShowImport(true)}
+              onExport={exportGeofences}
+              parcelsVisible={showParcels}
+              onParcelsVisibleChange={setShowParcels}
+              groups={groupTargets}
+            />
 
-        {/* Alerts */}
-        <AlertsPanel token={token} incomingAlert={incomingAlert} />
+            {/* Rename, release or transfer the selected device */}
+            {selectedDeviceRow ? (
+              <DeviceActions
+                key={selectedDeviceRow.deviceId}
+                device={selectedDeviceRow}
+                label={labelOf(selectedDeviceRow.deviceId)}
+                ranchId={ranchId}
+                ranches={ranches}
+                canRename={perms.canClaimDevices}
+                canRelease={perms.canReleaseDevices}
+                onRenamed={(row) => setDevices((rows) => upsertBy(rows, row, (r) => r.deviceId))}
+                onReleased={releaseDevice}
+                onShowTelemetry={() => navigate({ name: "telemetry", id: selectedDeviceRow.deviceId })}
+              />
+            ) : null}
 
-        {/* Claimed devices */}
-        <div style={{ fontSize: 12, color: "#94a3b8", marginBottom: 6 }}>Devices</div>
+            {/* Playback for the selected device */}
+            {selectedDevice ? (
+              <PlaybackPanel
+                key={selectedDevice}
+                ranchId={ranchId}
+                deviceId={selectedDevice}
+                deviceName={labelOf(selectedDevice)}
+                onTrackChange={setPlaybackTrack}
+                cursor={playbackCursor}
+              />
+            ) : null}
 
-        <div style={{ display: "flex", flexDirection: "column", gap: 10 }}>
-          {devices.length === 0 ? (
-            <div style={{ color: "#94a3b8", fontSize: 12 }}>No devices yet.</div>
-          ) : (
-            devices.map((d) => {
-              const id = d.deviceId;
-              const pts = pointsByDevice[id] || [];
-              const last = pts[pts.length - 1];
+            {/* Alerts */}
+            <AlertsPanel
+              ranchId={ranchId}
+              incomingAlert={incomingAlert}
+              canMarkRead={perms.canMarkAlertsRead}
+              selectedAlertId={selectedAlertId}
+              onSelect={(a) => {
+                setFocusedAlert(a);
+                navigate({ name: "alert", id: a.id });
+              }}
+              onSelectedResolved={setFocusedAlert}
+              devices={ruleTargets}
+              geofences={geofences}
+              currentUserId={user?.id ?? ""}
+              canHandle={perms.canHandleAlerts}
+              onReadChange={refreshUnread}
+            />
 
-              const motion = motionByDevice[id] ?? "unknown";
-              const motionLabel = motion === "moving" ? "Moving" : motion === "stationary" ? "Stationary" : "—";
-              const motionColor = motion === "moving" ? "#22c55e" : motion === "stationary" ? "#93c5fd" : "#6b7280";
+            <NotificationSettings />
 
-              const bPct = last?.batteryPct ?? null;
+            {/* Battery, signal, temperature and silent-device thresholds */}
+            <AlertRulesPanel
+              ranchId={ranchId}
+              devices={ruleTargets}
+              groups={groupTargets}
+              canEdit={perms.canManageAlertRules}
+            />
 
-              return (
-                <button
-                  key={id}
-                  onClick={() => setSelectedDevice((cur) => (cur === id ? null : id))}
-                  style={{
-                    width: "100%",
-                    textAlign: "left",
-                    borderRadius: 12,
-                    border:
-                      selectedDevice === id ? "1px solid rgba(34,197,94,0.9)" : "1px solid rgba(255,255,255,0.08)",
-                    background: "rgba(255,255,255,0.03)",
-                    padding: 10,
-                    cursor: "pointer",
-                    color: "white",
-                  }}
-                >
-                  <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between" }}>
-                    <div style={{ fontWeight: 800, fontSize: 13 }}>{d.name || id}</div>
-                    <div style={{ fontSize: 12, color: "#cbd5e1" }}>{bPct != null ? `${bPct.toFixed(0)}%` : "—"}</div>
-                  </div>
+            {/* Offline: queued changes and tile packs */}
+            <OfflinePanel bounds={ranchBounds} />
+
+            <HerdGroupsPanel
+              ranchId={ranchId}
+              groups={groups}
+              devices={ruleTargets}
+              filter={groupFilter}
+              onFilterChange={setGroupFilter}
+              canEdit={perms.canManageGroups}
+              onChanged={(g) => setGroups((rows) => upsertBy(rows, g, (r) => r.id))}
+              onRemoved={(id) => {
+                setGroups((rows) => rows.filter((g) => g.id !== id));
+                setGroupFilter((f) => f.filter((x) => x !== id));
+              }}
+            />
 
-                  <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 8, marginTop: 8 }}>
-                    <div>
-                      <div style={{ color: "#6b7280", fontSize: 11 }}>Last</div>
-                      <div style={{ color: "#e5e7eb", fontSize: 11 }}>
-                        {last?.receivedAt
-                          ? new Date(last.receivedAt).toLocaleTimeString()
-                          : d.lastSeen
-                          ? new Date(d.lastSeen).toLocaleTimeString()
-                          : "—"}
-                      </div>
-                    </div>
+            {/* Claimed devices */}
+            <div style={{ fontSize: 12, color: "#94a3b8", marginBottom: 6 }}>
+              Devices{groupFilter.length ? ` • ${visibleDevices.length} of ${devices.length}` : ""}
+            </div>
 
-                    <div>
-                      <div style={{ color: "#6b7280", fontSize: 11 }}>Status</div>
-                      <div style={{ color: motionColor, fontWeight: 800, fontSize: 12 }}>{motionLabel}</div>
-                    </div>
+            <div style={{ display: "flex", flexDirection: "column", gap: 10 }}>
+              {devices.length === 0 ? (
+                <div style={{ color: "#94a3b8", fontSize: 12 }}>No devices yet.</div>
+              ) : visibleDevices.length === 0 ? (
+                <div style={{ color: "#94a3b8", fontSize: 12 }}>No devices in the selected groups.</div>
+              ) : (
+                visibleDevices.map((d) => {
+                  const id = d.deviceId;
+                  const pts = pointsByDevice[id] || [];
+                  const last = pts[pts.length - 1];
 
-                    <div>
-                      <div style={{ color: "#6b7280", fontSize: 11 }}>GPS</div>
-                      <div style={{ color: "#e5e7eb", fontSize: 11 }}>
-                        {last?.lat != null && last?.lon != null ? `${last.lat.toFixed(4)}, ${last.lon.toFixed(4)}` : "—"}
+                  const motion = motionByDevice[id] ?? "unknown";
+                  const motionLabel = motion === "moving" ? "Moving" : motion === "stationary" ? "Stationary" : "—";
+                  const motionColor = motion === "moving" ? "#22c55e" : motion === "stationary" ? "#93c5fd" : "#6b7280";
+
+                  const bPct = last?.batteryPct ?? null;
+
+                  return (
+                    <button
+                      key={id}
+                      onClick={() => navigate(selectedDevice === id ? { name: "home" } : { name: "device", id })}
+                      style={{
+                        width: "100%",
+                        textAlign: "left",
+                        borderRadius: 12,
+                        border:
+                          selectedDevice === id ? "1px solid rgba(34,197,94,0.9)" : "1px solid rgba(255,255,255,0.08)",
+                        background: "rgba(255,255,255,0.03)",
+                        padding: 10,
+                        cursor: "pointer",
+                        color: "white",
+                      }}
+                    >
+                      <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between" }}>
+                        <div style={{ fontWeight: 800, fontSize: 13 }}>
+                          {deviceLabel(d, animalByDevice.get(id))}
+                          {animalByDevice.has(id) ? (
+                            <span style={{ fontWeight: 400, fontSize: 11, color: "#94a3b8" }}> • {d.name || id}</span>
+                          ) : null}
+                        </div>
+                        <div style={{ fontSize: 12, color: "#cbd5e1" }}>{bPct != null ? `${bPct.toFixed(0)}%` : "—"}</div>
                       </div>
-                    </div>
 
-                    <div>
-                      <div style={{ color: "#6b7280", fontSize: 11 }}>Battery</div>
-                      <div style={{ color: "#e5e7eb", fontSize: 11 }}>
-                        {last?.batteryPct != null ? `${last.batteryPct.toFixed(0)}%` : "—"}{" "}
-                        {last?.batteryV != null ? `(${last.batteryV.toFixed(2)}V)` : ""}
+                      {deviceGroups.has(id) ? (
+                        <div style={{ display: "flex", gap: 8, flexWrap: "wrap", marginTop: 4, fontSize: 11 }}>
+                          {deviceGroups.get(id)!.map((g) => (
+                            <span key={g.id} style={{ color: g.color, fontWeight: 800 }}>
+                              {g.icon} {g.name}
+                            </span>
+                          ))}
+                        </div>
+                      ) : null}
+
+                      <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 8, marginTop: 8 }}>
+                        <div>
+                          <div style={{ color: "#6b7280", fontSize: 11 }}>Last</div>
+                          <div style={{ color: "#e5e7eb", fontSize: 11 }}>
+                            {last?.receivedAt
+                              ? new Date(last.receivedAt).toLocaleTimeString()
+                              : d.lastSeen
+                              ? new Date(d.lastSeen).toLocaleTimeString()
+                              : "—"}
+                          </div>
+                        </div>
+
+                        <div>
+                          <div style={{ color: "#6b7280", fontSize: 11 }}>Status</div>
+                          <div style={{ color: motionColor, fontWeight: 800, fontSize: 12 }}>{motionLabel}</div>
+                        </div>
+
+                        <div>
+                          <div style={{ color: "#6b7280", fontSize: 11 }}>GPS</div>
+                          <div style={{ color: "#e5e7eb", fontSize: 11 }}>
+                            {last?.lat != null && last?.lon != null ? `${last.lat.toFixed(4)}, ${last.lon.toFixed(4)}` : "—"}
+                          </div>
+                        </div>
+
+                        <div>
+                          <div style={{ color: "#6b7280", fontSize: 11 }}>Battery</div>
+                          <div style={{ color: "#e5e7eb", fontSize: 11 }}>
+                            {last?.batteryPct != null ? `${last.batteryPct.toFixed(0)}%` : "—"}{" "}
+                            {last?.batteryV != null ? `(${last.batteryV.toFixed(2)}V)` : ""}
+                          </div>
+                        </div>
                       </div>
-                    </div>
-                  </div>
-                </button>
-              );
-            })
-          )}
-        </div>
+                    </button>
+                  );
+                })
+              )}
+            </div>
+          </>
+        )}
 
         <div style={{ height: 20 }} />
         <div style={{ fontSize: 11, color: "#6b7280" }}>Logged in as: {user?.email ?? "—"}</div>
@@ -903,79 +1814,94 @@ export default function Dashboard({ token, user, onLogout }: DashboardProps) {
 
       {/* Map */}
       <div style={{ flex: 1, position: "relative" }}>
-        <MapContainer center={mapCenter} zoom={13} style={{ height: "100%", width: "100%" }}>
-          <TileLayer
-            attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OSM</a>'
-            url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
-          />
-
-          {/* Geofences (ONE render path; no duplicates) */}
-          {showGeofences
-            ? geofences.map((gf: any) => {
-                // circle
-                if (
-                  gf.type === "circle" &&
-                  gf.centerLat != null &&
-                  gf.centerLon != null &&
-                  gf.radiusM != null
-                ) {
-                  return (
-                    <Circle key={gf.id} center={[gf.centerLat, gf.centerLon]} radius={gf.radiusM} pathOptions={{ weight: 2 }}>
-                      <Tooltip sticky>{gf.name}</Tooltip>
-                    </Circle>
-                  );
-                }
-
-                // polygon via GeoJSON (Polygon or MultiPolygon)
-                if (gf.type === "polygon") {
-                  if (!isValidGeoJsonPolygonGeometry(gf.polygon)) {
-                    console.warn("Skipping invalid polygon geofence:", gf?.id, gf?.name, gf?.polygon);
-                    return null;
-                  }
+        <MapContainer
+          center={initialMap ? [initialMap.lat, initialMap.lon] : mapCenter}
+          zoom={initialMap?.zoom ?? DEFAULT_ZOOM}
+          style={{ height: "100%", width: "100%" }}
+        >
+          <MapViewSync view={urlMap} />
+          <MapFocus target={focusTarget} skipFirst={!!initialMap} />
 
-                  const feature = geofenceToFeature(gf);
+          <TileLayer attribution={TILE_ATTRIBUTION} url={TILE_URL} />
 
-                  return (
-                    <GeoJSON
-                      key={gf.id}
-                      data={feature as any}
-                      style={() => ({ weight: 2 })}
-                      onEachFeature={(f, layer) => {
-                        const name = (f?.properties as any)?.name ?? "Geofence";
-                        layer.bindTooltip(String(name), { sticky: true });
-                      }}
-                    />
-                  );
-                }
+          {/* Under the fences, so fences stay clickable */}
+          <ParcelLinesLayer
+            ranchId={ranchId}
+            enabled={showParcels}
+            selectedKeys={selectedParcelKeys}
+            onParcelClick={perms.canEditGeofences ? toggleParcel : undefined}
+          />
 
-                return null;
-              })
+          {/* Geofences (ONE render path; no duplicates). Saved fences sit in the
+              edit tool's group; fences still waiting to sync can't be edited yet. */}
+          {perms.canEditGeofences ? (
+            <FeatureGroup>
+              {showGeofences ? geofences.filter((gf) => !isPendingGeofence(gf)).map(renderFence) : null}
+              <EditControl
+                position="topright"
+                onCreated={handleGeofenceCreated}
+                onEdited={handleGeofencesEdited}
+                draw={{ marker: false, circlemarker: false }}
+                edit={{ remove: false }}
+              />
+            </FeatureGroup>
+          ) : null}
+          {showGeofences
+            ? geofences.filter((gf) => !perms.canEditGeofences || isPendingGeofence(gf)).map(renderFence)
             : null}
 
-          <FeatureGroup>
-            <EditControl
-              position="topright"
-              onCreated={handleGeofenceCreated as any}
-              draw={{ rectangle: false, polyline: false, marker: false, circlemarker: false }}
-              edit={{ edit: false, remove: false }}
-            />
-          </FeatureGroup>
+          {/* Fences read from an import file, before they're created */}
+          {importPreview ? (
+            <>
+              {importPreview.fences.map((f, i) => (
+                <Polygon
+                  key={`import:${i}`}
+                  positions={geometryToLatLngs(f.geometry)}
+                  interactive={false}
+                  pathOptions={
+                    importPreview.selected[i]
+                      ? { color: "#a855f7", weight: 2, dashArray: "6 4", fillOpacity: 0.15 }
+                      : { color: "#6b7280", weight: 1, dashArray: "6 4", fillOpacity: 0.05 }
+                  }
+                />
+              ))}
+              <FitToFences fences={importPreview.fences} />
+            </>
+          ) : null}
 
-          {devices.map((d) => {
+          {visibleDevices.map((d) => {
             const id = d.deviceId;
             const pts = pointsByDevice[id] || [];
             const p = pts[pts.length - 1];
             if (!p) return null;
+            const group = deviceGroups.get(id)?.[0];
 
             const motion = motionByDevice[id] ?? "unknown";
-            const color = motion === "moving" ? "#22c55e" : motion === "stationary" ? "#93c5fd" : "#9ca3af";
-            const icon = createColoredIcon(color);
+            const fences = containment.byDevice[id];
+            const breaches = fences?.breachIds ?? [];
+            const color =
+              breaches.length > 0
+                ? "#ef4444"
+                : group
+                ? group.color
+                : motion === "moving"
+                ? "#22c55e"
+                : motion === "stationary"
+                ? "#93c5fd"
+                : "#9ca3af";
+            const icon = createColoredIcon(color, group?.icon);
 
             return (
-              <Marker key={id} position={[p.lat, p.lon]} icon={icon}>
+              <Marker
+                key={id}
+                position={[p.lat, p.lon]}
+                icon={icon}
+                eventHandlers={{ click: () => navigate({ name: "device", id }) }}
+              >
                 <Popup>
                   <div style={{ minWidth: 220 }}>
-                    <div style={{ fontWeight: 900 }}>{d.name || id}</div>
+                    <div style={{ fontWeight: 900 }}>{deviceLabel(d, animalByDevice.get(id))}</div>
+                    {animalByDevice.has(id) ? <div style={{ color: "#6b7280" }}>📡 {d.name || id}</div> : null}
                     <div>🕐 {p.receivedAt ? new Date(p.receivedAt).toLocaleString() : "—"}</div>
                     <div>
                       📍 {p.lat.toFixed(5)}, {p.lon.toFixed(5)}
@@ -984,15 +1910,147 @@ export default function Dashboard({ token, user, onLogout }: DashboardProps) {
                       🔋 {p.batteryPct != null ? `${p.batteryPct.toFixed(0)}%` : "—"}{" "}
                       {p.batteryV != null ? `(${p.batteryV.toFixed(2)}V)` : ""}
                     </div>
+                    {p.rssi != null || p.snr != null ? (
+                      <div>
+                        📶 {p.rssi != null ? `${p.rssi} dBm` : "—"}
+                        {p.snr != null ? ` • SNR ${p.snr.toFixed(1)}` : ""}
+                      </div>
+                    ) : null}
+                    {fences?.insideIds.length ? (
+                      <div>🧭 In {fences.insideIds.map((f) => fenceNames.get(f)).join(", ")}</div>
+                    ) : null}
+                    {breaches.length ? (
+                      <div style={{ color: "#b91c1c", fontWeight: 800 }}>
+                        ⚠️ Breaking {breaches.map((f) => fenceNames.get(f)).join(", ")}
+                      </div>
+                    ) : null}
+                    <a
+                      href={routePath({ name: "telemetry", id })}
+                      onClick={(e) => {
+                        e.preventDefault();
+                        navigate({ name: "telemetry", id });
+                      }}
+                      style={{ display: "inline-block", marginTop: 6, fontWeight: 800 }}
+                    >
+                      Telemetry charts →
+                    </a>
                   </div>
                 </Popup>
               </Marker>
             );
           })}
 
-          {routePolyline ? <Polyline positions={routePolyline} /> : null}
+          {routePolyline ? (
+            <Polyline
+              positions={routePolyline}
+              pathOptions={{ color: (selectedDevice && deviceGroups.get(selectedDevice)?.[0]?.color) || "#3388ff" }}
+            />
+          ) : null}
+
+          {/* Historical playback */}
+          {playbackPolyline.length >= 2 ? (
+            <>
+              <Polyline positions={playbackPolyline} pathOptions={{ color: "#f59e0b", weight: 3, dashArray: "6 6" }} />
+              <FitToTrack positions={playbackPolyline} />
+            </>
+          ) : null}
+
+          <PlaybackMarker cursor={playbackCursor} />
         </MapContainer>
 
+        {route.name === "telemetry" ? (
+          <DeviceDetail
+            key={route.id}
+            ranchId={ranchId}
+            deviceId={route.id}
+            deviceName={labelOf(route.id)}
+            devEui={selectedDeviceRow?.devEui}
+            onClose={() => navigate({ name: "device", id: route.id })}
+          />
+        ) : null}
+
+        {selectedParcels.length > 0 ? (
+          <div
+            style={{
+              position: "absolute",
+              left: "50%",
+              bottom: 18,
+              transform: "translateX(-50%)",
+              zIndex: 1000,
+              display: "flex",
+              alignItems: "center",
+              gap: 10,
+              padding: "8px 10px 8px 14px",
+              borderRadius: 12,
+              background: "rgba(0,0,0,0.7)",
+              color: "white",
+              fontSize: 12,
+              fontWeight: 800,
+              border: "1px solid rgba(255,255,255,0.12)",
+            }}
+          >
+            <span>
+              {selectedParcels.length} parcel{selectedParcels.length === 1 ? "" : "s"} •{" "}
+              {selectedParcels.reduce((sum, p) => sum + p.acres, 0).toLocaleString(undefined, { maximumFractionDigits: 1 })}{" "}
+              acres
+            </span>
+            <button
+              disabled={geofenceBusy}
+              onClick={createFenceFromParcels}
+              style={{
+                borderRadius: 8,
+                border: "none",
+                background: "#22c55e",
+                color: "#fff",
+                padding: "6px 10px",
+                fontSize: 12,
+                fontWeight: 800,
+                cursor: "pointer",
+              }}
+            >
+              {selectedParcels.length > 1 ? "Merge into fence" : "Create fence"}
+            </button>
+            <button
+              onClick={() => setSelectedParcels([])}
+              style={{
+                borderRadius: 8,
+                border: "1px solid rgba(255,255,255,0.14)",
+                background: "rgba(255,255,255,0.06)",
+                color: "#e5e7eb",
+                padding: "6px 10px",
+                fontSize: 12,
+                fontWeight: 800,
+                cursor: "pointer",
+              }}
+            >
+              Clear
+            </button>
+          </div>
+        ) : null}
+
+        {showImport ? (
+          <GeofenceImportDialog
+            onPreviewChange={setImportPreview}
+            onImport={importGeofences}
+            onClose={() => setShowImport(false)}
+          />
+        ) : null}
+
+        {showScanner ? (
+          <ScanTagDialog
+            ranchId={ranchId}
+            devices={devices}
+            unclaimed={unclaimed}
+            animals={animals}
+            canClaim={perms.canClaimDevices}
+            canEditAnimals={perms.canEditAnimals}
+            onOpenDevice={(id) => navigate({ name: "telemetry", id })}
+            onClaimed={refreshDeviceLists}
+            onAnimalChanged={upsertAnimal}
+            onClose={() => setShowScanner(false)}
+          />
+        ) : null}
+
         {geofenceBusy ? (
           <div
             style={{
@@ -0,0 +1,183 @@
+import { useState } from "react";
+
+import { api } from "../api";
+import type { DeviceRow, Ranch } from "../api/types";
+
+type DeviceActionsProps = {
+  device: DeviceRow;
+  // Animal name when the tracker is on one
+  label: string;
+  ranchId?: string | null;
+  // Transfer targets: the other ranches this user owns
+  ranches: Ranch[];
+  canRename?: boolean;
+  canRelease?: boolean;
+  onRenamed: (device: DeviceRow) => void;
+  // After an unclaim or transfer; the device has left this ranch
+  onReleased: () => void;
+  onShowTelemetry: () => void;
+};
+
+const smallButton = {
+  borderRadius: 10,
+  border: "1px solid rgba(255,255,255,0.14)",
+  background: "rgba(255,255,255,0.06)",
+  color: "#e5e7eb",
+  padding: "6px 10px",
+  cursor: "pointer",
+  fontSize: 12,
+  fontWeight: 800,
+} as const;
+
+const inputStyle = {
+  background: "#0f1117",
+  color: "#e5e7eb",
+  border: "1px solid #374151",
+  borderRadius: 8,
+  padding: "5px 6px",
+  fontSize: 12,
+  minWidth: 0,
+} as const;
+
+export default function DeviceActions({
+  device,
+  label,
+  ranchId = null,
+  ranches,
+  canRename = false,
+  canRelease = false,
+  onRenamed,
+  onReleased,
+  onShowTelemetry,
+}: DeviceActionsProps) {
+  const [renaming, setRenaming] = useState(false);
+  const [name, setName] = useState(device.name ?? "");
+  const [target, setTarget] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+
+  const transferTargets = ranches.filter((r) => r.id !== ranchId && r.role === "owner");
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setBusy(true);
+    setError("");
+    try {
+      await action();
+    } catch (e) {
+      console.error(failure, e);
+      setError(failure);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const rename = () =>
+    run(async () => {
+      onRenamed(await api.devices.rename(device.deviceId, name.trim(), { ranchId }));
+      setRenaming(false);
+    }, "Couldn't rename the device.");
+
+  const unclaim = () => {
+    if (!confirm(`Release ${label} from this ranch? Its history stays here; it goes back to the unclaimed list.`)) return;
+    run(async () => {
+      await api.devices.unclaim(device.deviceId, { ranchId });
+      onReleased();
+    }, "Couldn't release the device.");
+  };
+
+  const transfer = () => {
+    const to = transferTargets.find((r) => r.id === target);
+    if (!to || !confirm(`Move ${label} to ${to.name}? It stops showing here and is taken off its animal.`)) return;
+    run(async () => {
+      await api.devices.transfer(device.deviceId, to.id, { ranchId });
+      onReleased();
+    }, "Couldn't transfer the device.");
+  };
+
+  return (
+    <div
+      style={{
+        borderRadius: 12,
+        border: "1px solid rgba(255,255,255,0.08)",
+        background: "rgba(255,255,255,0.03)",
+        padding: 12,
+        marginBottom: 12,
+      }}
+    >
+      <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: 10 }}>
+        <div style={{ minWidth: 0 }}>
+          <div style={{ fontWeight: 900, fontSize: 13 }}>{label}</div>
+          <div style={{ fontSize: 11, color: "#94a3b8", fontFamily: "ui-monospace, monospace" }}>
+            {device.devEui || device.deviceId}
+          </div>
+        </div>
+        <button onClick={onShowTelemetry} style={{ ...smallButton, flexShrink: 0 }}>
+          📈 Telemetry
+        </button>
+      </div>
+
+      {renaming ? (
+        <div style={{ display: "flex", gap: 6, marginTop: 8 }}>
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && name.trim()) rename();
+              if (e.key === "Escape") setRenaming(false);
+            }}
+            placeholder="Device name"
+            style={{ ...inputStyle, flex: 1 }}
+            autoFocus
+          />
+          <button onClick={rename} disabled={busy || !name.trim()} style={smallButton}>
+            Save
+          </button>
+          <button onClick={() => setRenaming(false)} disabled={busy} style={smallButton}>
+            Cancel
+          </button>
+        </div>
+      ) : canRename || canRelease ? (
+        <div style={{ display: "flex", gap: 6, flexWrap: "wrap", marginTop: 8 }}>
+          {canRename ? (
+            <button
+              onClick={() => {
+                setName(device.name ?? "");
+                setRenaming(true);
+              }}
+              style={smallButton}
+            >
+              Rename
+            </button>
+          ) : null}
+          {canRelease ? (
+            <button
+              onClick={unclaim}
+              disabled={busy}
+              style={{ ...smallButton, border: "1px solid rgba(239,68,68,0.6)", background: "rgba(239,68,68,0.10)" }}
+            >
+              Unclaim
+            </button>
+          ) : null}
+        </div>
+      ) : null}
+
+      {canRelease && transferTargets.length > 0 ? (
+        <div style={{ display: "flex", gap: 6, marginTop: 8 }}>
+          <select value={target} onChange={(e) => setTarget(e.target.value)} style={{ ...inputStyle, flex: 1 }}>
+            <option value="">Transfer to ranch…</option>
+            {transferTargets.map((r) => (
+              <option key={r.id} value={r.id}>
+                {r.name}
+              </option>
+            ))}
+          </select>
+          <button onClick={transfer} disabled={busy || !target} style={smallButton}>
+            Transfer
+          </button>
+        </div>
+      ) : null}
+
+      {error ? <div style={{ marginTop: 8, fontSize: 12, color: "#fca5a5" }}>{error}</div> : null}
+    </div>
+  );
+}
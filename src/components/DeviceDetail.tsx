@@ -0,0 +1,250 @@
+import { useMemo, useState } from "react";
+
+import { api } from "../api";
+import { useApiQuery } from "../api/hooks";
+import type { LivePoint } from "../api/types";
+import { bucketSum, dailyDistance, downsample, frameGaps, seriesOf, sortFixes, type SeriesPoint } from "../telemetry";
+import TelemetryChart from "./TelemetryChart";
+
+type DeviceDetailProps = {
+  ranchId?: string | null;
+  deviceId: string;
+  deviceName?: string | null;
+  devEui?: string | null;
+  onClose: () => void;
+};
+
+type RangeKey = "24h" | "7d" | "30d" | "custom";
+
+const PRESETS: [RangeKey, string, number][] = [
+  ["24h", "24 hours", 24 * 3600_000],
+  ["7d", "7 days", 7 * 86400_000],
+  ["30d", "30 days", 30 * 86400_000],
+];
+
+const DAY_MS = 86400_000;
+// Points per line chart; plenty for a ~300px wide plot
+const CHART_POINTS = 240;
+const GAP_BUCKETS = 48;
+
+// <input type="datetime-local"> wants local time without a zone suffix
+function toLocalInput(d: Date) {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+}
+
+function presetRange(key: RangeKey) {
+  const ms = PRESETS.find(([k]) => k === key)?.[2] ?? DAY_MS;
+  const to = Date.now();
+  return { from: to - ms, to };
+}
+
+/** Percent per day the battery is falling, from the first and last reading. Null when flat or rising. */
+function drainPerDay(battery: SeriesPoint[]): number | null {
+  if (battery.length < 2) return null;
+  const first = battery[0];
+  const last = battery[battery.length - 1];
+  const days = (last.t - first.t) / DAY_MS;
+  if (days < 0.5) return null;
+  const rate = (first.v - last.v) / days;
+  return rate > 0 ? rate : null;
+}
+
+function Stat({ label, value, warn }: { label: string; value: string; warn?: boolean }) {
+  return (
+    <div>
+      <div style={{ color: "#6b7280", fontSize: 11 }}>{label}</div>
+      <div style={{ color: warn ? "#fca5a5" : "#e5e7eb", fontSize: 14, fontWeight: 900 }}>{value}</div>
+    </div>
+  );
+}
+
+export default function DeviceDetail({ ranchId = null, deviceId, deviceName, devEui, onClose }: DeviceDetailProps) {
+  const [rangeKey, setRangeKey] = useState<RangeKey>("7d");
+  const [range, setRange] = useState(() => presetRange("7d"));
+  const [customFrom, setCustomFrom] = useState(() => toLocalInput(new Date(range.from)));
+  const [customTo, setCustomTo] = useState(() => toLocalInput(new Date(range.to)));
+
+  const {
+    data: raw,
+    error,
+    loading,
+  } = useApiQuery(
+    (signal) => api.live.history(deviceId, new Date(range.from), new Date(range.to), { ranchId, signal }),
+    [deviceId, ranchId, range.from, range.to],
+    [] as LivePoint[]
+  );
+
+  const fixes = useMemo(() => sortFixes(raw), [raw]);
+
+  const charts = useMemo(() => {
+    const line = (field: Parameters<typeof seriesOf>[1]) => downsample(seriesOf(fixes, field), CHART_POINTS);
+    const gaps = frameGaps(fixes);
+    return {
+      batteryPct: line("batteryPct"),
+      batteryV: line("batteryV"),
+      rssi: line("rssi"),
+      snr: line("snr"),
+      temperatureC: line("temperatureC"),
+      gaps,
+      missedFrames: bucketSum(gaps.gaps, range.from, range.to, GAP_BUCKETS),
+      // The first day can start before the range; pin its bar to the left edge
+      distance: dailyDistance(fixes).map((p) => ({ t: Math.max(p.t, range.from), v: p.v })),
+    };
+  }, [fixes, range.from, range.to]);
+
+  const selectPreset = (key: RangeKey) => {
+    setRangeKey(key);
+    if (key !== "custom") setRange(presetRange(key));
+  };
+
+  const applyCustom = () => {
+    const from = new Date(customFrom).getTime();
+    const to = new Date(customTo).getTime();
+    if (Number.isFinite(from) && Number.isFinite(to) && from < to) setRange({ from, to });
+  };
+
+  const drain = drainPerDay(seriesOf(fixes, "batteryPct"));
+  const lastBattery = charts.batteryPct[charts.batteryPct.length - 1]?.v;
+  const daysLeft = drain && lastBattery != null ? lastBattery / drain : null;
+  const delivery = charts.gaps.expected > 0 ? 1 - charts.gaps.missed / charts.gaps.expected : null;
+  const avgDistance = charts.distance.length
+    ? charts.distance.reduce((sum, p) => sum + p.v, 0) / charts.distance.length
+    : null;
+
+  const inputStyle = {
+    padding: "5px 8px",
+    borderRadius: 8,
+    border: "1px solid #374151",
+    background: "#0f1117",
+    color: "#e5e7eb",
+    fontSize: 12,
+  } as const;
+
+  const chip = (on: boolean) =>
+    ({
+      borderRadius: 10,
+      border: on ? "1px solid rgba(34,197,94,0.9)" : "1px solid rgba(255,255,255,0.14)",
+      background: on ? "rgba(34,197,94,0.12)" : "rgba(255,255,255,0.06)",
+      color: "#e5e7eb",
+      padding: "6px 10px",
+      cursor: "pointer",
+      fontSize: 12,
+      fontWeight: 800,
+    }) as const;
+
+  const span = { fromMs: range.from, toMs: range.to };
+
+  return (
+    <div
+      style={{
+        position: "absolute",
+        inset: 0,
+        zIndex: 1000,
+        background: "rgba(11,16,32,0.97)",
+        color: "white",
+        overflowY: "auto",
+        padding: 18,
+      }}
+    >
+      <div style={{ display: "flex", alignItems: "flex-start", justifyContent: "space-between", gap: 12 }}>
+        <div>
+          <div style={{ fontSize: 18, fontWeight: 900 }}>{deviceName || deviceId}</div>
+          <div style={{ fontSize: 11, color: "#94a3b8" }}>
+            {devEui ? `DevEUI ${devEui} • ` : ""}
+            {loading ? "Loading…" : `${fixes.length} fixes`}
+          </div>
+        </div>
+        <button onClick={onClose} style={chip(false)}>
+          Back to map
+        </button>
+      </div>
+
+      <div style={{ display: "flex", gap: 6, flexWrap: "wrap", alignItems: "center", marginTop: 14 }}>
+        {PRESETS.map(([key, label]) => (
+          <button key={key} onClick={() => selectPreset(key)} style={chip(rangeKey === key)}>
+            {label}
+          </button>
+        ))}
+        <button onClick={() => selectPreset("custom")} style={chip(rangeKey === "custom")}>
+          Custom
+        </button>
+        {rangeKey === "custom" ? (
+          <>
+            <input type="datetime-local" value={customFrom} onChange={(e) => setCustomFrom(e.target.value)} style={inputStyle} />
+            <span style={{ fontSize: 11, color: "#94a3b8" }}>to</span>
+            <input type="datetime-local" value={customTo} onChange={(e) => setCustomTo(e.target.value)} style={inputStyle} />
+            <button onClick={applyCustom} style={chip(false)}>
+              Show
+            </button>
+          </>
+        ) : (
+          <button onClick={() => selectPreset(rangeKey)} disabled={loading} style={chip(false)}>
+            Refresh
+          </button>
+        )}
+      </div>
+
+      {error ? <div style={{ marginTop: 10, color: "#fca5a5", fontSize: 12 }}>Failed to load telemetry</div> : null}
+
+      <div
+        style={{
+          display: "grid",
+          gridTemplateColumns: "repeat(auto-fill, minmax(120px, 1fr))",
+          gap: 12,
+          marginTop: 14,
+          padding: 12,
+          borderRadius: 12,
+          border: "1px solid rgba(255,255,255,0.08)",
+          background: "rgba(255,255,255,0.03)",
+        }}
+      >
+        <Stat label="Battery" value={lastBattery != null ? `${lastBattery.toFixed(0)}%` : "—"} warn={lastBattery != null && lastBattery < 20} />
+        <Stat label="Drain" value={drain ? `${drain.toFixed(1)}% / day` : "—"} />
+        <Stat
+          label="Battery left"
+          value={daysLeft != null ? `~${Math.round(daysLeft)} days` : "—"}
+          warn={daysLeft != null && daysLeft < 14}
+        />
+        <Stat
+          label="Uplinks received"
+          value={delivery != null ? `${(delivery * 100).toFixed(1)}%` : "—"}
+          warn={delivery != null && delivery < 0.8}
+        />
+        <Stat label="Avg distance / day" value={avgDistance != null ? `${(avgDistance / 1000).toFixed(2)} km` : "—"} />
+      </div>
+
+      <div style={{ display: "grid", gridTemplateColumns: "repeat(auto-fill, minmax(300px, 1fr))", gap: 12, marginTop: 12 }}>
+        <TelemetryChart title="Battery" series={charts.batteryPct} color="#22c55e" format={(v) => `${v.toFixed(0)}%`} {...span} />
+        <TelemetryChart title="Voltage" series={charts.batteryV} color="#facc15" format={(v) => `${v.toFixed(2)} V`} {...span} />
+        <TelemetryChart title="RSSI" series={charts.rssi} color="#a78bfa" format={(v) => `${v.toFixed(0)} dBm`} {...span} />
+        <TelemetryChart title="SNR" series={charts.snr} color="#38bdf8" format={(v) => `${v.toFixed(1)} dB`} {...span} />
+        <TelemetryChart
+          title="Temperature"
+          series={charts.temperatureC}
+          color="#f97316"
+          format={(v) => `${v.toFixed(1)}°C`}
+          {...span}
+        />
+        <TelemetryChart
+          title={`Missed uplinks (${charts.gaps.missed})`}
+          series={charts.missedFrames}
+          kind="bar"
+          barMs={(range.to - range.from) / GAP_BUCKETS}
+          color="#ef4444"
+          format={(v) => v.toFixed(0)}
+          {...span}
+        />
+        <TelemetryChart
+          title="Distance per day"
+          series={charts.distance}
+          kind="bar"
+          barMs={DAY_MS}
+          color="#22c55e"
+          format={(v) => `${(v / 1000).toFixed(1)} km`}
+          {...span}
+        />
+      </div>
+    </div>
+  );
+}
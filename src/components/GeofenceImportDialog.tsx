@@ -0,0 +1,199 @@
+import { useEffect, useState } from "react";
+
+import { FENCE_FILE_ACCEPT, parseFenceFile, type ImportedFence } from "../fenceFiles";
+
+export type ImportPreview = {
+  fences: ImportedFence[];
+  selected: boolean[];
+};
+
+type GeofenceImportDialogProps = {
+  // Drawn on the map while the dialog is open
+  onPreviewChange: (preview: ImportPreview | null) => void;
+  // Resolves with whether each fence was saved, in the order given
+  onImport: (fences: ImportedFence[]) => Promise<boolean[]>;
+  onClose: () => void;
+};
+
+export default function GeofenceImportDialog({ onPreviewChange, onImport, onClose }: GeofenceImportDialogProps) {
+  const [fences, setFences] = useState<ImportedFence[]>([]);
+  const [selected, setSelected] = useState<boolean[]>([]);
+  // Kept apart from `fences` so typing a name doesn't refit the preview
+  const [names, setNames] = useState<string[]>([]);
+  const [parsing, setParsing] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    onPreviewChange(fences.length ? { fences, selected } : null);
+  }, [fences, selected, onPreviewChange]);
+
+  // Take the preview off the map when the dialog goes away
+  useEffect(() => () => onPreviewChange(null), [onPreviewChange]);
+
+  const chosenIndices = fences.map((_, i) => i).filter((i) => selected[i]);
+  const chosen = chosenIndices.map((i) => ({ ...fences[i], name: names[i] ?? fences[i].name }));
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setError("");
+    setParsing(true);
+    try {
+      const parsed = await parseFenceFile(file);
+      if (parsed.length === 0) setError("No polygons found in that file.");
+      setFences(parsed);
+      setSelected(parsed.map(() => true));
+      setNames(parsed.map((f) => f.name));
+    } catch (e) {
+      setFences([]);
+      setSelected([]);
+      setNames([]);
+      setError(e instanceof Error ? e.message : "Couldn't read that file.");
+    } finally {
+      setParsing(false);
+    }
+  };
+
+  const submit = async () => {
+    if (chosen.some((f) => !f.name.trim())) {
+      setError("Every selected fence needs a name.");
+      return;
+    }
+
+    setError("");
+    setImporting(true);
+    try {
+      const saved = await onImport(chosen.map((f) => ({ ...f, name: f.name.trim() })));
+      const failed = chosenIndices.filter((_, k) => !saved[k]);
+      if (failed.length > 0) {
+        // Only the failures stay, so importing again can't duplicate the saved ones
+        setFences(failed.map((i) => fences[i]));
+        setNames(failed.map((i) => names[i] ?? fences[i].name));
+        setSelected(failed.map(() => true));
+        setError(`${failed.length} of ${chosen.length} fences couldn't be saved. Try those again.`);
+        return;
+      }
+      onClose();
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const buttonStyle = {
+    borderRadius: 10,
+    border: "1px solid rgba(255,255,255,0.14)",
+    background: "rgba(255,255,255,0.06)",
+    color: "#e5e7eb",
+    padding: "6px 10px",
+    cursor: "pointer",
+    fontSize: 12,
+    fontWeight: 800,
+  } as const;
+
+  return (
+    <div
+      style={{
+        position: "absolute",
+        top: 12,
+        left: 56,
+        zIndex: 1000,
+        width: 340,
+        maxHeight: "calc(100% - 24px)",
+        display: "flex",
+        flexDirection: "column",
+        background: "#161b27",
+        border: "1px solid #1f2937",
+        borderRadius: 12,
+        boxShadow: "0 10px 40px rgba(0,0,0,0.4)",
+        color: "#e5e7eb",
+        padding: 14,
+      }}
+    >
+      <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: 10 }}>
+        <div style={{ fontWeight: 900, fontSize: 14 }}>Import geofences</div>
+        <button onClick={onClose} style={buttonStyle}>
+          Close
+        </button>
+      </div>
+
+      <div style={{ marginTop: 6, fontSize: 11, color: "#94a3b8" }}>
+        GeoJSON, KML / KMZ (Google Earth) or a zipped Shapefile. Only polygons are imported.
+      </div>
+
+      <input
+        type="file"
+        accept={FENCE_FILE_ACCEPT}
+        disabled={parsing || importing}
+        onChange={(e) => handleFile(e.target.files?.[0])}
+        style={{ marginTop: 10, fontSize: 12 }}
+      />
+
+      {parsing ? <div style={{ marginTop: 10, fontSize: 12, color: "#94a3b8" }}>Reading…</div> : null}
+
+      {fences.length > 0 ? (
+        <>
+          <div style={{ marginTop: 12, display: "flex", alignItems: "center", justifyContent: "space-between" }}>
+            <div style={{ fontSize: 12, color: "#cbd5e1" }}>
+              {chosen.length} of {fences.length} selected
+            </div>
+            <button
+              onClick={() => setSelected(fences.map(() => chosen.length !== fences.length))}
+              style={{ ...buttonStyle, padding: "4px 8px", fontSize: 11 }}
+            >
+              {chosen.length === fences.length ? "Select none" : "Select all"}
+            </button>
+          </div>
+
+          <div style={{ marginTop: 8, overflowY: "auto", display: "flex", flexDirection: "column", gap: 6 }}>
+            {fences.map((f, i) => (
+              <label key={i} style={{ display: "flex", alignItems: "center", gap: 8 }}>
+                <input
+                  type="checkbox"
+                  checked={!!selected[i]}
+                  onChange={(e) => setSelected((prev) => prev.map((s, j) => (j === i ? e.target.checked : s)))}
+                />
+                <input
+                  value={names[i] ?? ""}
+                  onChange={(e) => setNames((prev) => prev.map((n, j) => (j === i ? e.target.value : n)))}
+                  style={{
+                    flex: 1,
+                    minWidth: 0,
+                    background: "#0f1117",
+                    color: "#e5e7eb",
+                    border: "1px solid #374151",
+                    borderRadius: 8,
+                    padding: "5px 8px",
+                    fontSize: 12,
+                  }}
+                />
+                <span style={{ fontSize: 10, color: "#94a3b8", flexShrink: 0 }}>
+                  {f.circle ? "circle" : f.geometry.type === "MultiPolygon" ? "multi" : "polygon"}
+                </span>
+              </label>
+            ))}
+          </div>
+        </>
+      ) : null}
+
+      {error ? <div style={{ marginTop: 10, fontSize: 12, color: "#fca5a5" }}>{error}</div> : null}
+
+      <button
+        onClick={submit}
+        disabled={chosen.length === 0 || importing}
+        style={{
+          marginTop: 12,
+          padding: 10,
+          fontSize: 13,
+          fontWeight: 700,
+          background: chosen.length === 0 || importing ? "#374151" : "#22c55e",
+          color: "#fff",
+          border: "none",
+          borderRadius: 8,
+          cursor: chosen.length === 0 || importing ? "not-allowed" : "pointer",
+        }}
+      >
+        {importing ? "Importing…" : `Create ${chosen.length} fence${chosen.length === 1 ? "" : "s"}`}
+      </button>
+    </div>
+  );
+}
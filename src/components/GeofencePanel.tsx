@@ -1,126 +1,374 @@
-import { useState, useEffect } from "react";
-import { API_URL } from "../config";
-
-type Geofence = {
-  id: string;
-  name: string;
-  type: string;
-  centerLat: number | null;
-  centerLon: number | null;
-  radiusM: number | null;
-  polygon: any;
-  createdAt: string;
-};
+import { useRef, useState } from "react";
+
+import type { Geofence, GeofenceRules } from "../api/types";
+import type { FenceHeadcount } from "../containment";
+import type { FenceFileFormat } from "../fenceFiles";
+import { describeRules, rulesOf } from "../geofenceRules";
+import GeofenceRulesEditor from "./GeofenceRulesEditor";
+import { isPendingGeofence } from "../offline/queue";
+
+// The next shape drawn on the map edits this fence instead of creating one
+export type FenceDrawMode = { kind: "hole" | "part"; fenceId: string };
 
 type GeofencePanelProps = {
-  token: string;
-  onGeofenceCreated: () => void;
-  onGeofenceDeleted: () => void;
+  geofences: Geofence[];
+  selectedId?: string | null;
+  visible: boolean;
+  onVisibleChange: (visible: boolean) => void;
+  canEdit?: boolean;
+  busy?: boolean;
+  onSelect: (fence: Geofence) => void;
+  // Rejects when the save fails, so the editor stays open
+  onRename: (id: string, name: string) => Promise<void>;
+  onDelete: (id: string) => void;
+  // Rejects when the save fails, so the editor stays open
+  onRulesChange?: (id: string, rules: GeofenceRules) => Promise<void>;
+  // Offered as rule targets
+  devices?: { id: string; name: string }[];
+  groups?: { id: string; name: string }[];
+  // Live, from the client-side containment check
+  headcounts?: Record<string, FenceHeadcount>;
+  drawMode?: FenceDrawMode | null;
+  onDrawModeChange?: (mode: FenceDrawMode | null) => void;
+  onImport?: () => void;
+  onExport?: (format: FenceFileFormat) => void;
+  parcelsVisible?: boolean;
+  onParcelsVisibleChange?: (visible: boolean) => void;
 };
 
+const EXPORT_FORMATS: { value: FenceFileFormat; label: string }[] = [
+  { value: "geojson", label: "GeoJSON" },
+  { value: "kml", label: "KML" },
+  { value: "kmz", label: "KMZ" },
+  { value: "shapefile", label: "Shapefile (.zip)" },
+];
+
+function describe(g: Geofence) {
+  if (g.type === "circle") return g.radiusM != null ? `circle • ${Math.round(g.radiusM)}m` : "circle";
+
+  const parts = g.polygon?.type === "MultiPolygon" ? g.polygon.coordinates : g.polygon ? [g.polygon.coordinates] : [];
+  const holes = parts.reduce((n, rings) => n + Math.max(0, rings.length - 1), 0);
+  const bits = [g.corridorWidthM ? `corridor • ${Math.round(g.corridorWidthM)}m wide` : "polygon"];
+  if (parts.length > 1) bits.push(`${parts.length} areas`);
+  if (holes > 0) bits.push(`${holes} hole${holes === 1 ? "" : "s"}`);
+  return bits.join(" • ");
+}
+
 export default function GeofencePanel({
-  token,
-  onGeofenceCreated,
-  onGeofenceDeleted,
+  geofences,
+  selectedId = null,
+  visible,
+  onVisibleChange,
+  canEdit = false,
+  busy = false,
+  onSelect,
+  onRename,
+  onDelete,
+  onRulesChange,
+  devices = [],
+  groups = [],
+  headcounts = {},
+  drawMode = null,
+  onDrawModeChange,
+  onImport,
+  onExport,
+  parcelsVisible = false,
+  onParcelsVisibleChange,
 }: GeofencePanelProps) {
-  const [geofences, setGeofences] = useState<Geofence[]>([]);
-  const [loading, setLoading] = useState(true);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [rulesId, setRulesId] = useState<string | null>(null);
+  // Enter saves and the blur that follows must not save again
+  const savingRef = useRef(false);
+
+  const startRename = (fence: Geofence) => {
+    setEditingId(fence.id);
+    setDraftName(fence.name);
+  };
 
-  useEffect(() => {
-    loadGeofences();
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [token]);
+  const saveRename = async () => {
+    if (savingRef.current) return;
+    const id = editingId;
+    const name = draftName.trim();
+    const current = geofences.find((g) => g.id === id);
+    if (!id || !name || name === current?.name) {
+      setEditingId(null);
+      return;
+    }
 
-  const loadGeofences = async () => {
+    savingRef.current = true;
+    setSaving(true);
     try {
-      const res = await fetch(`${API_URL}/api/geofences`, {
-        headers: { Authorization: `Bearer ${token}` },
-      });
-      if (res.ok) {
-        const data = await res.json();
-        setGeofences(data);
-        onGeofenceCreated();
-      }
-    } catch (err) {
-      console.error("Failed to load geofences:", err);
+      await onRename(id, name);
+      setEditingId(null);
+    } catch (e) {
+      console.error("Failed to rename geofence:", e);
     } finally {
-      setLoading(false);
+      savingRef.current = false;
+      setSaving(false);
     }
   };
 
-  const handleDelete = async (id: string) => {
+  const handleDelete = (id: string) => {
     if (!confirm("Delete this geofence? This will also delete associated alerts.")) return;
-
-    try {
-      const res = await fetch(`${API_URL}/api/geofences/${id}`, {
-        method: "DELETE",
-        headers: { Authorization: `Bearer ${token}` },
-      });
-
-      if (res.ok) {
-        setGeofences((prev) => prev.filter((g) => g.id !== id));
-        onGeofenceDeleted();
-      }
-    } catch (err) {
-      console.error("Failed to delete geofence:", err);
-    }
+    onDelete(id);
   };
 
-  if (loading) {
-    return <div style={{ padding: 16, color: "#9ca3af", fontSize: 13 }}>Loading geofences...</div>;
-  }
+  const smallButton = {
+    borderRadius: 10,
+    border: "1px solid rgba(255,255,255,0.14)",
+    background: "rgba(255,255,255,0.06)",
+    color: "#e5e7eb",
+    padding: "6px 10px",
+    cursor: "pointer",
+    fontSize: 12,
+    fontWeight: 800,
+    flexShrink: 0,
+  } as const;
 
   return (
-    <div style={{ padding: "0 16px 16px" }}>
-      <div style={{ marginBottom: 12, fontSize: 14, fontWeight: 600, color: "#e5e7eb" }}>
-        🗺️ Geofences ({geofences.length})
+    <div
+      style={{
+        borderRadius: 12,
+        border: "1px solid rgba(255,255,255,0.08)",
+        background: "rgba(255,255,255,0.03)",
+        padding: 12,
+        marginBottom: 12,
+      }}
+    >
+      <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: 10 }}>
+        <div>
+          <div style={{ fontWeight: 900, fontSize: 13 }}>Geofences</div>
+          <div style={{ fontSize: 11, color: "#94a3b8" }}>
+            {canEdit
+              ? "Draw on the map (top-right tools); a line becomes a corridor. Use the edit tool to reshape, move or resize."
+              : "View only for your role."}
+          </div>
+        </div>
+
+        <div style={{ display: "flex", flexDirection: "column", gap: 4, flexShrink: 0 }}>
+          <label style={{ display: "flex", alignItems: "center", gap: 8, cursor: "pointer" }}>
+            <input type="checkbox" checked={visible} onChange={(e) => onVisibleChange(e.target.checked)} />
+            <span style={{ fontSize: 12, fontWeight: 800, color: "#e5e7eb" }}>Show ({geofences.length})</span>
+          </label>
+          {onParcelsVisibleChange ? (
+            <label style={{ display: "flex", alignItems: "center", gap: 8, cursor: "pointer" }}>
+              <input
+                type="checkbox"
+                checked={parcelsVisible}
+                onChange={(e) => onParcelsVisibleChange(e.target.checked)}
+              />
+              <span style={{ fontSize: 12, fontWeight: 800, color: "#e5e7eb" }}>Parcels</span>
+            </label>
+          ) : null}
+        </div>
       </div>
 
-      {geofences.length === 0 && (
-        <div style={{ padding: 16, background: "#1e2a3a", borderRadius: 6, fontSize: 13, color: "#9ca3af", textAlign: "center" }}>
-          No geofences yet. Draw one on the map to get started.
+      {parcelsVisible && canEdit ? (
+        <div style={{ marginTop: 8, fontSize: 11, color: "#94a3b8" }}>
+          Click parcels on the map to select them; adjacent parcels merge into one pasture fence.
         </div>
-      )}
+      ) : null}
 
-      {geofences.map((fence) => (
-        <div
-          key={fence.id}
-          style={{
-            marginBottom: 8,
-            padding: 12,
-            background: "#1e2a3a",
-            border: "1px solid #374151",
-            borderRadius: 6,
-          }}
-        >
-          <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", marginBottom: 6 }}>
-            <strong style={{ fontSize: 13, color: "#e5e7eb" }}>{fence.name}</strong>
-            <button
-              onClick={() => handleDelete(fence.id)}
-              style={{
-                padding: "4px 8px",
-                fontSize: 11,
-                background: "#7f1d1d",
-                color: "#fecaca",
-                border: "1px solid #991b1b",
-                borderRadius: 4,
-                cursor: "pointer",
+      {(canEdit && onImport) || onExport ? (
+        <div style={{ marginTop: 10, display: "flex", gap: 6, flexWrap: "wrap" }}>
+          {canEdit && onImport ? (
+            <button disabled={busy} onClick={onImport} style={smallButton}>
+              Import file
+            </button>
+          ) : null}
+          {onExport ? (
+            <select
+              value=""
+              disabled={geofences.length === 0}
+              onChange={(e) => {
+                if (e.target.value) onExport(e.target.value as FenceFileFormat);
               }}
+              style={{ ...smallButton, appearance: "auto" }}
             >
-              Delete
-            </button>
-          </div>
-          <div style={{ fontSize: 12, color: "#9ca3af" }}>
-            Type: {fence.type === "circle" ? "Circle" : "Polygon"}
-            {fence.type === "circle" && fence.radiusM && (
-              <span> • {(fence.radiusM / 1000).toFixed(2)} km radius</span>
-            )}
-          </div>
-          <div style={{ fontSize: 11, color: "#6b7280", marginTop: 4 }}>
-            Created: {new Date(fence.createdAt).toLocaleDateString()}
-          </div>
+              <option value="">Export as…</option>
+              {EXPORT_FORMATS.map((f) => (
+                <option key={f.value} value={f.value}>
+                  {f.label}
+                </option>
+              ))}
+            </select>
+          ) : null}
         </div>
-      ))}
+      ) : null}
+
+      {geofences.length > 0 ? (
+        <div style={{ marginTop: 10, display: "flex", flexDirection: "column", gap: 8, maxHeight: 320, overflowY: "auto" }}>
+          {geofences.map((g) => {
+            const pending = isPendingGeofence(g);
+            const editing = editingId === g.id;
+            const count = headcounts[g.id];
+            const keepOut = rulesOf(g).mode === "keep_out";
+
+            return (
+              <div
+                key={g.id}
+                style={{
+                  borderRadius: 10,
+                  border: selectedId === g.id ? "1px solid rgba(245,158,11,0.9)" : "1px solid rgba(255,255,255,0.08)",
+                  padding: 10,
+                  display: "flex",
+                  alignItems: "center",
+                  justifyContent: "space-between",
+                  gap: 10,
+                }}
+              >
+                <div style={{ minWidth: 0, flex: 1 }}>
+                  {editing ? (
+                    <input
+                      autoFocus
+                      value={draftName}
+                      disabled={saving}
+                      onChange={(e) => setDraftName(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") saveRename();
+                        if (e.key === "Escape") setEditingId(null);
+                      }}
+                      onBlur={saveRename}
+                      style={{
+                        width: "100%",
+                        boxSizing: "border-box",
+                        background: "#0f1117",
+                        color: "#e5e7eb",
+                        border: "1px solid #374151",
+                        borderRadius: 8,
+                        padding: "5px 8px",
+                        fontSize: 12,
+                        fontWeight: 800,
+                      }}
+                    />
+                  ) : (
+                    <div
+                      onClick={() => onSelect(g)}
+                      onDoubleClick={() => canEdit && !pending && startRename(g)}
+                      title={canEdit && !pending ? "Double-click to rename" : undefined}
+                      style={{
+                        fontWeight: 900,
+                        fontSize: 12,
+                        cursor: "pointer",
+                        whiteSpace: "nowrap",
+                        overflow: "hidden",
+                        textOverflow: "ellipsis",
+                      }}
+                    >
+                      {g.name}
+                    </div>
+                  )}
+                  {count && count.total > 0 ? (
+                    <div
+                      style={{
+                        fontSize: 11,
+                        fontWeight: 800,
+                        color: keepOut
+                          ? count.inside > 0
+                            ? "#fca5a5"
+                            : "#86efac"
+                          : count.inside < count.total
+                          ? "#fcd34d"
+                          : "#86efac",
+                      }}
+                    >
+                      {keepOut ? `${count.inside} inside` : `${count.inside} of ${count.total} in`}
+                    </div>
+                  ) : null}
+                  <div style={{ fontSize: 11, color: "#94a3b8" }}>{describe(g)}</div>
+                  <div style={{ fontSize: 11, color: "#94a3b8" }}>{describeRules(rulesOf(g))}</div>
+
+                  {canEdit && onDrawModeChange && !pending && g.type === "polygon" && selectedId === g.id ? (
+                    <div style={{ marginTop: 8, display: "flex", gap: 6, flexWrap: "wrap" }}>
+                      {drawMode?.fenceId === g.id ? (
+                        <>
+                          <div style={{ fontSize: 11, color: "#f59e0b", alignSelf: "center" }}>
+                            {drawMode.kind === "hole"
+                              ? "Draw the area to exclude inside the fence"
+                              : "Draw the extra area on the map"}
+                          </div>
+                          <button onClick={() => onDrawModeChange(null)} style={smallButton}>
+                            Cancel
+                          </button>
+                        </>
+                      ) : (
+                        <>
+                          <button
+                            disabled={busy}
+                            onClick={() => onDrawModeChange({ kind: "hole", fenceId: g.id })}
+                            style={smallButton}
+                          >
+                            Cut hole
+                          </button>
+                          <button
+                            disabled={busy}
+                            onClick={() => onDrawModeChange({ kind: "part", fenceId: g.id })}
+                            style={smallButton}
+                          >
+                            Add area
+                          </button>
+                        </>
+                      )}
+                    </div>
+                  ) : null}
+
+                  {rulesId === g.id && onRulesChange ? (
+                    <GeofenceRulesEditor
+                      rules={rulesOf(g)}
+                      devices={devices}
+                      groups={groups}
+                      busy={busy}
+                      onSave={async (rules) => {
+                        await onRulesChange(g.id, rules);
+                        setRulesId(null);
+                      }}
+                      onCancel={() => setRulesId(null)}
+                    />
+                  ) : null}
+                </div>
+
+                {pending ? (
+                  <div style={{ fontSize: 11, color: "#f59e0b", flexShrink: 0 }}>waiting to sync</div>
+                ) : canEdit && !editing ? (
+                  <div style={{ display: "flex", gap: 6, flexShrink: 0 }}>
+                    <button disabled={busy} onClick={() => startRename(g)} style={smallButton}>
+                      Rename
+                    </button>
+                    {onRulesChange ? (
+                      <button
+                        disabled={busy}
+                        onClick={() => setRulesId(rulesId === g.id ? null : g.id)}
+                        style={smallButton}
+                      >
+                        Rules
+                      </button>
+                    ) : null}
+                    <button
+                      disabled={busy}
+                      onClick={() => handleDelete(g.id)}
+                      style={{
+                        ...smallButton,
+                        border: "1px solid rgba(239,68,68,0.6)",
+                        background: "rgba(239,68,68,0.10)",
+                        fontWeight: 900,
+                        opacity: busy ? 0.7 : 1,
+                      }}
+                    >
+                      Delete
+                    </button>
+                  </div>
+                ) : null}
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <div style={{ marginTop: 10, fontSize: 12, color: "#94a3b8" }}>
+          No geofences yet. Use the draw tools on the map.
+        </div>
+      )}
     </div>
   );
 }
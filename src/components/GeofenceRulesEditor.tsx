@@ -0,0 +1,212 @@
+import { useState } from "react";
+
+import type { GeofenceRules } from "../api/types";
+import { WEEKDAYS } from "../geofenceRules";
+
+type Target = { id: string; name: string };
+
+type GeofenceRulesEditorProps = {
+  rules: GeofenceRules;
+  devices: Target[];
+  groups?: Target[];
+  busy?: boolean;
+  // Rejects when the save fails, so the editor stays open
+  onSave: (rules: GeofenceRules) => Promise<void>;
+  onCancel: () => void;
+};
+
+const DEFAULT_SCHEDULE = { days: [], start: "20:00", end: "06:00" };
+
+const inputStyle = {
+  background: "#0f1117",
+  color: "#e5e7eb",
+  border: "1px solid #374151",
+  borderRadius: 8,
+  padding: "4px 6px",
+  fontSize: 12,
+} as const;
+
+const labelStyle = { fontSize: 11, fontWeight: 800, color: "#cbd5e1", marginBottom: 4 } as const;
+
+function toggle<T>(list: T[], item: T): T[] {
+  return list.includes(item) ? list.filter((x) => x !== item) : [...list, item];
+}
+
+export default function GeofenceRulesEditor({
+  rules,
+  devices,
+  groups = [],
+  busy = false,
+  onSave,
+  onCancel,
+}: GeofenceRulesEditorProps) {
+  const [draft, setDraft] = useState<GeofenceRules>(rules);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  const set = (patch: Partial<GeofenceRules>) => setDraft((d) => ({ ...d, ...patch }));
+  const allTargets = draft.deviceIds.length === 0 && draft.groupIds.length === 0;
+
+  const save = async () => {
+    if (draft.schedule && (!draft.schedule.start || !draft.schedule.end)) {
+      setError("Pick a start and end time.");
+      return;
+    }
+    setError("");
+    setSaving(true);
+    try {
+      await onSave(draft);
+    } catch (e) {
+      console.error("Failed to save geofence rules:", e);
+      setError("Couldn't save the rules.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const chip = (active: boolean) =>
+    ({
+      borderRadius: 8,
+      border: active ? "1px solid rgba(59,130,246,0.7)" : "1px solid rgba(255,255,255,0.12)",
+      background: active ? "rgba(59,130,246,0.2)" : "transparent",
+      color: "#e5e7eb",
+      padding: "3px 7px",
+      fontSize: 11,
+      fontWeight: 800,
+      cursor: "pointer",
+    }) as const;
+
+  return (
+    <div
+      style={{
+        marginTop: 8,
+        padding: 10,
+        borderRadius: 10,
+        border: "1px solid rgba(255,255,255,0.08)",
+        background: "rgba(0,0,0,0.15)",
+        display: "flex",
+        flexDirection: "column",
+        gap: 10,
+      }}
+    >
+      <div>
+        <div style={labelStyle}>Alert when an animal</div>
+        <div style={{ display: "flex", gap: 6 }}>
+          <button onClick={() => set({ mode: "keep_in" })} style={chip(draft.mode === "keep_in")}>
+            leaves (keep in)
+          </button>
+          <button onClick={() => set({ mode: "keep_out" })} style={chip(draft.mode === "keep_out")}>
+            enters (keep out)
+          </button>
+        </div>
+      </div>
+
+      <div>
+        <label style={{ ...labelStyle, display: "flex", alignItems: "center", gap: 6, cursor: "pointer" }}>
+          <input
+            type="checkbox"
+            checked={!!draft.schedule}
+            onChange={(e) => set({ schedule: e.target.checked ? DEFAULT_SCHEDULE : null })}
+          />
+          Only active during
+        </label>
+        {draft.schedule ? (
+          <>
+            <div style={{ display: "flex", alignItems: "center", gap: 6 }}>
+              <input
+                type="time"
+                value={draft.schedule.start}
+                onChange={(e) => set({ schedule: { ...draft.schedule!, start: e.target.value } })}
+                style={inputStyle}
+              />
+              <span style={{ fontSize: 11, color: "#94a3b8" }}>to</span>
+              <input
+                type="time"
+                value={draft.schedule.end}
+                onChange={(e) => set({ schedule: { ...draft.schedule!, end: e.target.value } })}
+                style={inputStyle}
+              />
+            </div>
+            <div style={{ marginTop: 6, display: "flex", gap: 4, flexWrap: "wrap" }}>
+              {WEEKDAYS.map((label, day) => (
+                <button
+                  key={label}
+                  onClick={() => set({ schedule: { ...draft.schedule!, days: toggle(draft.schedule!.days, day) } })}
+                  style={chip(draft.schedule!.days.includes(day))}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <div style={{ marginTop: 4, fontSize: 10, color: "#94a3b8" }}>No days picked means every day.</div>
+          </>
+        ) : null}
+      </div>
+
+      <div>
+        <div style={labelStyle}>Ignore breaches shorter than</div>
+        <div style={{ display: "flex", alignItems: "center", gap: 6 }}>
+          <input
+            type="number"
+            min={0}
+            step={0.5}
+            value={draft.minDwellSec / 60}
+            onChange={(e) => set({ minDwellSec: Math.max(0, Math.round(Number(e.target.value) * 60) || 0) })}
+            style={{ ...inputStyle, width: 64 }}
+          />
+          <span style={{ fontSize: 11, color: "#94a3b8" }}>min, or closer than</span>
+          <input
+            type="number"
+            min={0}
+            step={5}
+            value={draft.minDistanceM}
+            onChange={(e) => set({ minDistanceM: Math.max(0, Number(e.target.value) || 0) })}
+            style={{ ...inputStyle, width: 64 }}
+          />
+          <span style={{ fontSize: 11, color: "#94a3b8" }}>m</span>
+        </div>
+        <div style={{ marginTop: 4, fontSize: 10, color: "#94a3b8" }}>
+          Stops GPS jitter along the fence line from raising alerts.
+        </div>
+      </div>
+
+      <div>
+        <div style={labelStyle}>Applies to</div>
+        <div style={{ display: "flex", gap: 4, flexWrap: "wrap" }}>
+          <button onClick={() => set({ deviceIds: [], groupIds: [] })} style={chip(allTargets)}>
+            All devices
+          </button>
+          {groups.map((g) => (
+            <button
+              key={`group:${g.id}`}
+              onClick={() => set({ groupIds: toggle(draft.groupIds, g.id) })}
+              style={chip(draft.groupIds.includes(g.id))}
+            >
+              {g.name}
+            </button>
+          ))}
+          {devices.map((d) => (
+            <button
+              key={d.id}
+              onClick={() => set({ deviceIds: toggle(draft.deviceIds, d.id) })}
+              style={chip(draft.deviceIds.includes(d.id))}
+            >
+              {d.name}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error ? <div style={{ fontSize: 12, color: "#fca5a5" }}>{error}</div> : null}
+
+      <div style={{ display: "flex", gap: 6, justifyContent: "flex-end" }}>
+        <button onClick={onCancel} disabled={saving} style={chip(false)}>
+          Cancel
+        </button>
+        <button onClick={save} disabled={saving || busy} style={{ ...chip(true), opacity: saving || busy ? 0.7 : 1 }}>
+          {saving ? "Saving…" : "Save rules"}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,293 @@
+import { useState } from "react";
+
+import { api } from "../api";
+import type { CreateHerdGroupInput, HerdGroup } from "../api/types";
+import { GROUP_COLORS, GROUP_ICONS, nextGroupStyle } from "../herdGroups";
+
+type Target = { id: string; name: string };
+
+type HerdGroupsPanelProps = {
+  ranchId?: string | null;
+  groups: HerdGroup[];
+  devices: Target[];
+  // Selected group ids; empty shows every device
+  filter: string[];
+  onFilterChange: (filter: string[]) => void;
+  canEdit?: boolean;
+  onChanged: (group: HerdGroup) => void;
+  onRemoved: (id: string) => void;
+};
+
+const smallButton = {
+  borderRadius: 10,
+  border: "1px solid rgba(255,255,255,0.14)",
+  background: "rgba(255,255,255,0.06)",
+  color: "#e5e7eb",
+  padding: "5px 9px",
+  cursor: "pointer",
+  fontSize: 11,
+  fontWeight: 800,
+} as const;
+
+const inputStyle = {
+  background: "#0f1117",
+  color: "#e5e7eb",
+  border: "1px solid #374151",
+  borderRadius: 8,
+  padding: "5px 6px",
+  fontSize: 12,
+  minWidth: 0,
+} as const;
+
+function GroupForm({
+  initial,
+  devices,
+  onSave,
+  onCancel,
+  onDelete,
+}: {
+  initial: CreateHerdGroupInput;
+  devices: Target[];
+  onSave: (input: CreateHerdGroupInput) => Promise<void>;
+  onCancel: () => void;
+  onDelete?: () => void;
+}) {
+  const [draft, setDraft] = useState(initial);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  const set = (patch: Partial<CreateHerdGroupInput>) => setDraft((d) => ({ ...d, ...patch }));
+
+  const save = async () => {
+    if (!draft.name.trim()) {
+      setError("Give the group a name.");
+      return;
+    }
+    setError("");
+    setSaving(true);
+    try {
+      await onSave({ ...draft, name: draft.name.trim() });
+    } catch (e) {
+      console.error("Failed to save group:", e);
+      setError("Couldn't save the group.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div
+      style={{
+        marginTop: 8,
+        padding: 10,
+        borderRadius: 10,
+        border: `1px solid ${draft.color}`,
+        background: "rgba(0,0,0,0.15)",
+        display: "flex",
+        flexDirection: "column",
+        gap: 8,
+      }}
+    >
+      <div style={{ display: "flex", gap: 6 }}>
+        <select value={draft.icon} onChange={(e) => set({ icon: e.target.value })} style={inputStyle}>
+          {GROUP_ICONS.map((i) => (
+            <option key={i} value={i}>
+              {i}
+            </option>
+          ))}
+        </select>
+        <input
+          value={draft.name}
+          onChange={(e) => set({ name: e.target.value })}
+          placeholder="Group name, e.g. Spring calvers"
+          style={{ ...inputStyle, flex: 1 }}
+          autoFocus
+        />
+      </div>
+
+      <div style={{ display: "flex", gap: 6, alignItems: "center" }}>
+        {GROUP_COLORS.map((c) => (
+          <button
+            key={c}
+            title={c}
+            onClick={() => set({ color: c })}
+            style={{
+              width: 18,
+              height: 18,
+              borderRadius: "50%",
+              background: c,
+              border: draft.color === c ? "2px solid white" : "2px solid transparent",
+              cursor: "pointer",
+              padding: 0,
+            }}
+          />
+        ))}
+      </div>
+
+      <div style={{ display: "flex", gap: 4, flexWrap: "wrap" }}>
+        {devices.length === 0 ? <div style={{ fontSize: 11, color: "#94a3b8" }}>No devices to add yet.</div> : null}
+        {devices.map((d) => {
+          const on = draft.deviceIds.includes(d.id);
+          return (
+            <button
+              key={d.id}
+              onClick={() => set({ deviceIds: on ? draft.deviceIds.filter((x) => x !== d.id) : [...draft.deviceIds, d.id] })}
+              style={{ ...smallButton, borderColor: on ? draft.color : undefined }}
+            >
+              {d.name}
+            </button>
+          );
+        })}
+      </div>
+
+      {error ? <div style={{ fontSize: 12, color: "#fca5a5" }}>{error}</div> : null}
+
+      <div style={{ display: "flex", gap: 6, justifyContent: "flex-end" }}>
+        {onDelete ? (
+          <button
+            onClick={onDelete}
+            disabled={saving}
+            style={{ ...smallButton, marginRight: "auto", border: "1px solid rgba(239,68,68,0.6)", background: "rgba(239,68,68,0.10)" }}
+          >
+            Delete
+          </button>
+        ) : null}
+        <button onClick={onCancel} disabled={saving} style={smallButton}>
+          Cancel
+        </button>
+        <button
+          onClick={save}
+          disabled={saving}
+          style={{ ...smallButton, border: "1px solid rgba(34,197,94,0.6)", opacity: saving ? 0.7 : 1 }}
+        >
+          {saving ? "Saving…" : "Save group"}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default function HerdGroupsPanel({
+  ranchId = null,
+  groups,
+  devices,
+  filter,
+  onFilterChange,
+  canEdit = false,
+  onChanged,
+  onRemoved,
+}: HerdGroupsPanelProps) {
+  // Group being edited; "new" for the create form
+  const [editing, setEditing] = useState<string | null>(null);
+
+  const chip = (on: boolean, color = "rgba(34,197,94,0.9)") =>
+    ({
+      ...smallButton,
+      border: on ? `1px solid ${color}` : "1px solid rgba(255,255,255,0.10)",
+      background: on ? "rgba(255,255,255,0.10)" : "rgba(255,255,255,0.04)",
+    }) as const;
+
+  const toggle = (id: string) => onFilterChange(filter.includes(id) ? filter.filter((x) => x !== id) : [...filter, id]);
+
+  const create = async (input: CreateHerdGroupInput) => {
+    onChanged(await api.groups.create(input, { ranchId }));
+    setEditing(null);
+  };
+
+  const update = async (id: string, input: CreateHerdGroupInput) => {
+    onChanged(await api.groups.update(id, input, { ranchId }));
+    setEditing(null);
+  };
+
+  const remove = async (group: HerdGroup) => {
+    if (!confirm(`Delete the group "${group.name}"? Its devices stay on the ranch.`)) return;
+    try {
+      await api.groups.remove(group.id, { ranchId });
+      onRemoved(group.id);
+      setEditing(null);
+    } catch (e) {
+      console.error("Failed to delete group:", e);
+    }
+  };
+
+  if (groups.length === 0 && !canEdit) return null;
+
+  const editingGroup = groups.find((g) => g.id === editing);
+
+  return (
+    <div
+      style={{
+        borderRadius: 12,
+        border: "1px solid rgba(255,255,255,0.08)",
+        background: "rgba(255,255,255,0.03)",
+        padding: 12,
+        marginBottom: 12,
+      }}
+    >
+      <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: 10 }}>
+        <div style={{ fontWeight: 900, fontSize: 13 }}>Groups</div>
+        {canEdit ? (
+          <button onClick={() => setEditing(editing === "new" ? null : "new")} style={smallButton}>
+            {editing === "new" ? "Cancel" : "New group"}
+          </button>
+        ) : null}
+      </div>
+
+      {editing === "new" ? (
+        <GroupForm
+          initial={{ name: "", ...nextGroupStyle(groups), deviceIds: [] }}
+          devices={devices}
+          onSave={create}
+          onCancel={() => setEditing(null)}
+        />
+      ) : null}
+
+      {groups.length === 0 ? (
+        <div style={{ marginTop: 8, fontSize: 12, color: "#94a3b8" }}>
+          Group devices (bulls, heifers, spring calvers…) to color and filter them together.
+        </div>
+      ) : (
+        <div style={{ display: "flex", gap: 6, flexWrap: "wrap", marginTop: 8 }}>
+          <button onClick={() => onFilterChange([])} style={chip(filter.length === 0)}>
+            All
+          </button>
+          {groups.map((g) => (
+            <button
+              key={g.id}
+              onClick={() => toggle(g.id)}
+              style={chip(filter.includes(g.id), g.color)}
+            >
+              <span style={{ color: g.color }}>●</span> {g.icon} {g.name} <span style={{ color: "#94a3b8" }}>{g.deviceIds.length}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {canEdit && groups.length > 0 && editing !== "new" ? (
+        <select
+          value={editingGroup?.id ?? ""}
+          onChange={(e) => setEditing(e.target.value || null)}
+          style={{ ...inputStyle, marginTop: 8, width: "100%" }}
+        >
+          <option value="">Edit a group…</option>
+          {groups.map((g) => (
+            <option key={g.id} value={g.id}>
+              {g.icon} {g.name}
+            </option>
+          ))}
+        </select>
+      ) : null}
+
+      {editingGroup ? (
+        <GroupForm
+          key={editingGroup.id}
+          initial={{ name: editingGroup.name, color: editingGroup.color, icon: editingGroup.icon, deviceIds: editingGroup.deviceIds }}
+          devices={devices}
+          onSave={(input) => update(editingGroup.id, input)}
+          onCancel={() => setEditing(null)}
+          onDelete={() => remove(editingGroup)}
+        />
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+export type InvitationDetails = {
+  token: string;
+  email: string;
+  role: string;
+  ranchId: string;
+  ranchName: string;
+  invitedBy: string;
+  expiresAt?: string;
+};
+
+type InvitationBannerProps = {
+  invitation: InvitationDetails | null;
+  error?: string;
+};
+
+export default function InvitationBanner({ invitation, error }: InvitationBannerProps) {
+  if (error) {
+    return (
+      <div
+        style={{
+          padding: 12,
+          marginBottom: 20,
+          background: "#7f1d1d",
+          border: "1px solid #991b1b",
+          borderRadius: 6,
+          fontSize: 13,
+          color: "#fecaca",
+        }}
+      >
+        {error}
+      </div>
+    );
+  }
+
+  if (!invitation) return null;
+
+  return (
+    <div
+      style={{
+        padding: 12,
+        marginBottom: 20,
+        background: "rgba(34,197,94,0.10)",
+        border: "1px solid rgba(34,197,94,0.45)",
+        borderRadius: 6,
+        fontSize: 13,
+        color: "#d1fae5",
+        lineHeight: 1.45,
+      }}
+    >
+      <b>{invitation.invitedBy}</b> invited you to join <b>{invitation.ranchName}</b> as{" "}
+      <b>{invitation.role}</b>.
+      {invitation.expiresAt ? (
+        <div style={{ marginTop: 4, fontSize: 12, color: "#9ca3af" }}>
+          Expires {new Date(invitation.expiresAt).toLocaleString()}
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -1,13 +1,17 @@
 import { useState } from "react";
-import { API_URL } from '../config';
+import { api, ApiError } from "../api";
+import type { User } from "../api/types";
+import InvitationBanner, { type InvitationDetails } from "./InvitationBanner";
 
 type LoginProps = {
-  onLogin: (token: string, user: any) => void;
+  onLogin: (token: string, user: User, refreshToken?: string | null) => void;
   onSwitchToRegister: () => void;
+  invitation?: InvitationDetails | null;
+  invitationError?: string;
 };
 
-export default function Login({ onLogin, onSwitchToRegister }: LoginProps) {
-  const [email, setEmail] = useState("");
+export default function Login({ onLogin, onSwitchToRegister, invitation = null, invitationError }: LoginProps) {
+  const [email, setEmail] = useState(invitation?.email ?? "");
   const [password, setPassword] = useState("");
   const [error, setError] = useState("");
   const [loading, setLoading] = useState(false);
@@ -18,25 +22,10 @@ export default function Login({ onLogin, onSwitchToRegister }: LoginProps) {
     setLoading(true);
 
     try {
-      const res = await fetch(`${API_URL}/api/auth/login`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ email, password }),
-      });
-
-      const data = await res.json();
-
-      if (!res.ok) {
-        setError(data.error || "Login failed");
-        setLoading(false);
-        return;
-      }
-
-      localStorage.setItem("token", data.token);
-      localStorage.setItem("user", JSON.stringify(data.user));
-      onLogin(data.token, data.user);
+      const data = await api.auth.login(email, password);
+      onLogin(data.token, data.user, data.refreshToken);
     } catch (err) {
-      setError("Network error. Is the backend running?");
+      setError(err instanceof ApiError ? err.message : "Login failed");
       setLoading(false);
     }
   };
@@ -73,6 +62,8 @@ export default function Login({ onLogin, onSwitchToRegister }: LoginProps) {
           </p>
         </div>
 
+        <InvitationBanner invitation={invitation} error={invitationError} />
+
         <form onSubmit={handleSubmit}>
           <div style={{ marginBottom: 20 }}>
             <label
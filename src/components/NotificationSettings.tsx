@@ -0,0 +1,186 @@
+import { useEffect, useState } from "react";
+
+import { notificationsSupported, playAlarm } from "../notifications/notify";
+import { NOTIFY_ALERT_TYPES, setNotificationPrefs, useNotificationPrefs } from "../notifications/prefs";
+import { disablePush, enablePush, getPushSubscription, pushSupported } from "../notifications/push";
+
+const DEFAULT_QUIET_HOURS = { days: [], start: "22:00", end: "06:00" };
+
+const smallButton = {
+  borderRadius: 10,
+  border: "1px solid rgba(255,255,255,0.14)",
+  background: "rgba(255,255,255,0.06)",
+  color: "#e5e7eb",
+  padding: "5px 9px",
+  cursor: "pointer",
+  fontSize: 11,
+  fontWeight: 800,
+} as const;
+
+const timeInput = {
+  background: "#0f1117",
+  color: "#e5e7eb",
+  border: "1px solid #374151",
+  borderRadius: 8,
+  padding: "3px 6px",
+  fontSize: 12,
+} as const;
+
+function Toggle({ checked, onChange, label }: { checked: boolean; onChange: (v: boolean) => void; label: string }) {
+  return (
+    <label style={{ display: "flex", alignItems: "center", gap: 8, cursor: "pointer", fontSize: 12 }}>
+      <input type="checkbox" checked={checked} onChange={(e) => onChange(e.target.checked)} />
+      {label}
+    </label>
+  );
+}
+
+export default function NotificationSettings() {
+  const prefs = useNotificationPrefs();
+  const [open, setOpen] = useState(false);
+  const [permission, setPermission] = useState(() =>
+    notificationsSupported() ? Notification.permission : "denied"
+  );
+  const [pushOn, setPushOn] = useState(false);
+  const [pushBusy, setPushBusy] = useState(false);
+
+  useEffect(() => {
+    if (!open || !pushSupported()) return;
+    getPushSubscription()
+      .then((sub) => setPushOn(!!sub))
+      .catch(() => setPushOn(false));
+  }, [open]);
+
+  const setDesktop = async (on: boolean) => {
+    if (on && notificationsSupported() && Notification.permission === "default") {
+      setPermission(await Notification.requestPermission());
+    }
+    setNotificationPrefs({ desktop: on });
+  };
+
+  const setPush = async (on: boolean) => {
+    setPushBusy(true);
+    try {
+      if (on) {
+        const ok = await enablePush();
+        setPushOn(ok);
+        if (notificationsSupported()) setPermission(Notification.permission);
+      } else {
+        await disablePush();
+        setPushOn(false);
+      }
+    } catch (e) {
+      console.error("Failed to change push subscription:", e);
+    } finally {
+      setPushBusy(false);
+    }
+  };
+
+  return (
+    <div
+      style={{
+        borderRadius: 12,
+        border: "1px solid rgba(255,255,255,0.08)",
+        background: "rgba(255,255,255,0.03)",
+        padding: 12,
+        marginBottom: 12,
+      }}
+    >
+      <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: 10 }}>
+        <div>
+          <div style={{ fontWeight: 900, fontSize: 13 }}>Notifications</div>
+          <div style={{ fontSize: 11, color: "#94a3b8" }}>
+            {prefs.desktop && permission === "granted" ? "On for this browser" : "Alerts show in the dashboard only"}
+            {prefs.quietHours ? ` • quiet ${prefs.quietHours.start}–${prefs.quietHours.end}` : ""}
+          </div>
+        </div>
+        <button onClick={() => setOpen((v) => !v)} style={smallButton}>
+          {open ? "Done" : "Settings"}
+        </button>
+      </div>
+
+      {open ? (
+        <div style={{ marginTop: 10, display: "flex", flexDirection: "column", gap: 8 }}>
+          {notificationsSupported() ? (
+            <>
+              <Toggle
+                checked={prefs.desktop && permission === "granted"}
+                onChange={setDesktop}
+                label="System notifications when the tab is in the background"
+              />
+              {permission === "denied" ? (
+                <div style={{ fontSize: 11, color: "#fca5a5" }}>
+                  Notifications are blocked for this site in the browser settings.
+                </div>
+              ) : null}
+            </>
+          ) : (
+            <div style={{ fontSize: 11, color: "#94a3b8" }}>This browser can't show notifications.</div>
+          )}
+
+          {pushSupported() ? (
+            <label style={{ display: "flex", alignItems: "center", gap: 8, cursor: "pointer", fontSize: 12 }}>
+              <input type="checkbox" checked={pushOn} disabled={pushBusy} onChange={(e) => setPush(e.target.checked)} />
+              Push alerts even when the dashboard is closed
+            </label>
+          ) : null}
+
+          <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: 8 }}>
+            <Toggle
+              checked={prefs.sound}
+              onChange={(sound) => setNotificationPrefs({ sound })}
+              label="Alarm sound for critical alerts"
+            />
+            <button onClick={playAlarm} style={smallButton}>
+              Test
+            </button>
+          </div>
+
+          <div>
+            <div style={{ fontSize: 11, fontWeight: 800, color: "#cbd5e1", marginBottom: 4 }}>Notify me about</div>
+            {NOTIFY_ALERT_TYPES.map(([type, label]) => (
+              <Toggle
+                key={type}
+                checked={prefs.types[type] !== false}
+                onChange={(on) => setNotificationPrefs({ types: { ...prefs.types, [type]: on } })}
+                label={label}
+              />
+            ))}
+          </div>
+
+          <div>
+            <Toggle
+              checked={!!prefs.quietHours}
+              onChange={(on) => setNotificationPrefs({ quietHours: on ? DEFAULT_QUIET_HOURS : null })}
+              label="Quiet hours"
+            />
+            {prefs.quietHours ? (
+              <div style={{ marginTop: 6, marginLeft: 22, display: "flex", flexDirection: "column", gap: 6 }}>
+                <div style={{ display: "flex", alignItems: "center", gap: 6 }}>
+                  <input
+                    type="time"
+                    value={prefs.quietHours.start}
+                    onChange={(e) => setNotificationPrefs({ quietHours: { ...prefs.quietHours!, start: e.target.value } })}
+                    style={timeInput}
+                  />
+                  <span style={{ fontSize: 11, color: "#94a3b8" }}>to</span>
+                  <input
+                    type="time"
+                    value={prefs.quietHours.end}
+                    onChange={(e) => setNotificationPrefs({ quietHours: { ...prefs.quietHours!, end: e.target.value } })}
+                    style={timeInput}
+                  />
+                </div>
+                <Toggle
+                  checked={prefs.criticalInQuietHours}
+                  onChange={(criticalInQuietHours) => setNotificationPrefs({ criticalInQuietHours })}
+                  label="Let critical alerts through"
+                />
+              </div>
+            ) : null}
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,194 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+
+import { isAbortError } from "../api";
+import { flushQueue, useOfflineQueue } from "../offline/queue";
+import {
+  MAX_PACK_TILES,
+  cachedTileCount,
+  clearTilePacks,
+  countTiles,
+  downloadTilePack,
+  type Bounds,
+  type PackProgress,
+} from "../offline/tiles";
+
+type OfflinePanelProps = {
+  // Area the tile pack covers; null until there's a fence or a device to go by
+  bounds: Bounds | null;
+};
+
+const MIN_ZOOM = 10;
+const MAX_ZOOM_CHOICES = [13, 14, 15, 16, 17];
+
+function useOnline() {
+  const [online, setOnline] = useState(() => navigator.onLine);
+
+  useEffect(() => {
+    const on = () => setOnline(true);
+    const off = () => setOnline(false);
+    window.addEventListener("online", on);
+    window.addEventListener("offline", off);
+    return () => {
+      window.removeEventListener("online", on);
+      window.removeEventListener("offline", off);
+    };
+  }, []);
+
+  return online;
+}
+
+export default function OfflinePanel({ bounds }: OfflinePanelProps) {
+  const online = useOnline();
+  const { pending, syncing } = useOfflineQueue();
+
+  const [maxZoom, setMaxZoom] = useState(15);
+  const [progress, setProgress] = useState<PackProgress | null>(null);
+  const [cached, setCached] = useState(0);
+  const [error, setError] = useState("");
+  const abortRef = useRef<AbortController | null>(null);
+
+  const supported = typeof window !== "undefined" && "caches" in window;
+  const downloading = !!abortRef.current && !!progress;
+  const estimate = useMemo(() => (bounds ? countTiles(bounds, MIN_ZOOM, maxZoom) : 0), [bounds, maxZoom]);
+
+  useEffect(() => {
+    if (supported) cachedTileCount().then(setCached, console.error);
+    return () => abortRef.current?.abort();
+  }, [supported]);
+
+  const download = async () => {
+    if (!bounds) return;
+    setError("");
+    const ctrl = new AbortController();
+    abortRef.current = ctrl;
+    setProgress({ done: 0, failed: 0, total: estimate });
+
+    try {
+      const result = await downloadTilePack(bounds, MIN_ZOOM, maxZoom, { signal: ctrl.signal, onProgress: setProgress });
+      if (result.failed > 0) setError(`${result.failed} tiles failed; run it again to retry them.`);
+    } catch (e) {
+      if (!isAbortError(e)) {
+        console.error(e);
+        setError(e instanceof Error ? e.message : "Download failed");
+      }
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+      cachedTileCount().then(setCached, console.error);
+    }
+  };
+
+  const clear = async () => {
+    if (!confirm("Delete all downloaded map tiles?")) return;
+    await clearTilePacks();
+    setCached(0);
+  };
+
+  const buttonStyle = {
+    borderRadius: 10,
+    border: "1px solid rgba(255,255,255,0.14)",
+    background: "rgba(255,255,255,0.06)",
+    color: "#e5e7eb",
+    padding: "6px 10px",
+    cursor: "pointer",
+    fontSize: 12,
+    fontWeight: 800,
+  } as const;
+
+  return (
+    <div
+      style={{
+        borderRadius: 12,
+        border: "1px solid rgba(255,255,255,0.08)",
+        background: "rgba(255,255,255,0.03)",
+        padding: 12,
+        marginBottom: 12,
+      }}
+    >
+      <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: 10 }}>
+        <div style={{ fontWeight: 900, fontSize: 13 }}>Offline</div>
+        <div style={{ fontSize: 11, fontWeight: 800, color: online ? "#22c55e" : "#f59e0b" }}>
+          {online ? "online" : "no connection"}
+        </div>
+      </div>
+
+      {pending.length > 0 ? (
+        <div style={{ marginTop: 8, display: "flex", alignItems: "center", justifyContent: "space-between", gap: 10 }}>
+          <div style={{ fontSize: 12, color: "#cbd5e1" }}>
+            {syncing ? "Syncing…" : `${pending.length} change${pending.length === 1 ? "" : "s"} waiting to sync`}
+          </div>
+          {online && !syncing ? (
+            <button onClick={() => flushQueue()} style={buttonStyle}>
+              Sync now
+            </button>
+          ) : null}
+        </div>
+      ) : null}
+
+      {supported ? (
+        <div style={{ marginTop: 10 }}>
+          <div style={{ fontSize: 11, color: "#94a3b8" }}>
+            Map tiles for the ranch (fences and herd), zoom {MIN_ZOOM}–{maxZoom}. {cached} tiles saved on this device.
+          </div>
+
+          <div style={{ marginTop: 8, display: "flex", alignItems: "center", gap: 8, flexWrap: "wrap" }}>
+            <select
+              value={maxZoom}
+              disabled={downloading}
+              onChange={(e) => setMaxZoom(Number(e.target.value))}
+              style={{
+                background: "#0f1117",
+                color: "#e5e7eb",
+                border: "1px solid #374151",
+                borderRadius: 8,
+                padding: "5px 6px",
+                fontSize: 12,
+              }}
+            >
+              {MAX_ZOOM_CHOICES.map((z) => (
+                <option key={z} value={z}>
+                  up to zoom {z}
+                </option>
+              ))}
+            </select>
+
+            {downloading ? (
+              <button onClick={() => abortRef.current?.abort()} style={buttonStyle}>
+                Cancel
+              </button>
+            ) : (
+              <button
+                onClick={download}
+                disabled={!bounds || !online || estimate > MAX_PACK_TILES}
+                style={{ ...buttonStyle, opacity: !bounds || !online || estimate > MAX_PACK_TILES ? 0.5 : 1 }}
+              >
+                Download {bounds ? `${estimate} tiles` : ""}
+              </button>
+            )}
+
+            {cached > 0 && !downloading ? (
+              <button onClick={clear} style={buttonStyle}>
+                Clear
+              </button>
+            ) : null}
+          </div>
+
+          {progress ? (
+            <div style={{ marginTop: 8, fontSize: 11, color: "#cbd5e1" }}>
+              {progress.done + progress.failed} / {progress.total}
+              {progress.failed ? ` (${progress.failed} failed)` : ""}
+            </div>
+          ) : null}
+
+          {!bounds ? (
+            <div style={{ marginTop: 6, fontSize: 11, color: "#94a3b8" }}>Draw a fence or claim a device first.</div>
+          ) : estimate > MAX_PACK_TILES ? (
+            <div style={{ marginTop: 6, fontSize: 11, color: "#f59e0b" }}>Too many tiles; lower the zoom.</div>
+          ) : null}
+
+          {error ? <div style={{ marginTop: 6, fontSize: 11, color: "#fca5a5" }}>{error}</div> : null}
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,279 @@
+import { useCallback, useEffect, useMemo, useState, useSyncExternalStore } from "react";
+
+import { api } from "../api";
+import type { LivePoint } from "../api/types";
+
+export type PlaybackPosition = {
+  lat: number;
+  lon: number;
+  atMs: number;
+};
+
+/**
+ * The playback marker's position. It changes ten times a second while
+ * playing, so it's kept out of React state: only the marker subscribes,
+ * not the whole dashboard.
+ */
+export type PlaybackCursor = {
+  get: () => PlaybackPosition | null;
+  set: (pos: PlaybackPosition | null) => void;
+  subscribe: (listener: () => void) => () => void;
+};
+
+export function createPlaybackCursor(): PlaybackCursor {
+  let pos: PlaybackPosition | null = null;
+  const listeners = new Set<() => void>();
+  return {
+    get: () => pos,
+    set: (next) => {
+      pos = next;
+      listeners.forEach((l) => l());
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+export function usePlaybackPosition(cursor: PlaybackCursor) {
+  return useSyncExternalStore(cursor.subscribe, cursor.get);
+}
+
+type PlaybackPanelProps = {
+  ranchId?: string | null;
+  deviceId: string;
+  deviceName?: string | null;
+  onTrackChange: (points: LivePoint[]) => void;
+  cursor: PlaybackCursor;
+};
+
+// Simulated seconds per real second
+const SPEEDS = [60, 300, 900, 3600];
+const TICK_MS = 100;
+
+function toMs(t?: string) {
+  const v = t ? new Date(t).getTime() : 0;
+  return Number.isFinite(v) ? v : 0;
+}
+
+function pointMs(p: LivePoint) {
+  return toMs(p.ts || p.receivedAt);
+}
+
+// <input type="datetime-local"> wants local time without a zone suffix
+function toLocalInput(d: Date) {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+}
+
+/**
+ * Linear interpolation between the two fixes surrounding `atMs`.
+ * Points must be sorted by time.
+ */
+function positionAt(points: LivePoint[], atMs: number): PlaybackPosition | null {
+  if (points.length === 0) return null;
+
+  const first = points[0];
+  const last = points[points.length - 1];
+  if (atMs <= pointMs(first)) return { lat: first.lat, lon: first.lon, atMs };
+  if (atMs >= pointMs(last)) return { lat: last.lat, lon: last.lon, atMs };
+
+  let i = 1;
+  while (i < points.length && pointMs(points[i]) < atMs) i++;
+
+  const a = points[i - 1];
+  const b = points[i];
+  const span = pointMs(b) - pointMs(a);
+  const f = span > 0 ? (atMs - pointMs(a)) / span : 0;
+
+  return {
+    lat: a.lat + (b.lat - a.lat) * f,
+    lon: a.lon + (b.lon - a.lon) * f,
+    atMs,
+  };
+}
+
+export default function PlaybackPanel({
+  ranchId = null,
+  deviceId,
+  deviceName,
+  onTrackChange,
+  cursor,
+}: PlaybackPanelProps) {
+  const [from, setFrom] = useState(() => toLocalInput(new Date(Date.now() - 24 * 3600_000)));
+  const [to, setTo] = useState(() => toLocalInput(new Date()));
+  const [points, setPoints] = useState<LivePoint[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  const [cursorMs, setCursorMs] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(SPEEDS[1]);
+
+  const startMs = points.length ? pointMs(points[0]) : 0;
+  const endMs = points.length ? pointMs(points[points.length - 1]) : 0;
+
+  const loadHistory = useCallback(async () => {
+    setError("");
+    setPlaying(false);
+
+    const fromDate = new Date(from);
+    const toDate = new Date(to);
+    if (!(fromDate < toDate)) {
+      setError("Start must be before end");
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const data = await api.live.history(deviceId, fromDate, toDate, { ranchId });
+      const sorted = data
+        .filter((p) => Number.isFinite(p?.lat) && Number.isFinite(p?.lon) && pointMs(p) > 0)
+        .sort((a, b) => pointMs(a) - pointMs(b));
+
+      setPoints(sorted);
+      setCursorMs(sorted.length ? pointMs(sorted[0]) : 0);
+      if (sorted.length === 0) setError("No positions in that range");
+    } catch (e) {
+      console.error(e);
+      setError("Failed to load history");
+    } finally {
+      setLoading(false);
+    }
+  }, [ranchId, deviceId, from, to]);
+
+  // Advance the cursor while playing; stop at the end of the track
+  useEffect(() => {
+    if (!playing) return;
+
+    const timer = window.setInterval(() => {
+      setCursorMs((cur) => Math.min(endMs, cur + speed * TICK_MS));
+    }, TICK_MS);
+
+    return () => window.clearInterval(timer);
+  }, [playing, speed, endMs]);
+
+  useEffect(() => {
+    if (playing && cursorMs >= endMs) setPlaying(false);
+  }, [playing, cursorMs, endMs]);
+
+  useEffect(() => {
+    onTrackChange(points);
+  }, [points, onTrackChange]);
+
+  const position = useMemo(() => positionAt(points, cursorMs), [points, cursorMs]);
+
+  useEffect(() => {
+    cursor.set(position);
+  }, [position, cursor]);
+
+  // Clear the map overlay when the panel goes away
+  useEffect(() => {
+    return () => {
+      onTrackChange([]);
+      cursor.set(null);
+    };
+  }, [onTrackChange, cursor]);
+
+  const togglePlay = () => {
+    if (!points.length) return;
+    if (!playing && cursorMs >= endMs) setCursorMs(startMs);
+    setPlaying((p) => !p);
+  };
+
+  const inputStyle = {
+    width: "100%",
+    padding: "6px 8px",
+    borderRadius: 8,
+    border: "1px solid rgba(255,255,255,0.10)",
+    background: "#0b1220",
+    color: "#e5e7eb",
+    fontSize: 12,
+  } as const;
+
+  const buttonStyle = {
+    borderRadius: 10,
+    border: "1px solid rgba(255,255,255,0.10)",
+    background: "rgba(255,255,255,0.06)",
+    color: "#e5e7eb",
+    padding: "6px 10px",
+    cursor: "pointer",
+    fontSize: 12,
+    fontWeight: 800,
+  } as const;
+
+  return (
+    <div
+      style={{
+        borderRadius: 12,
+        border: "1px solid rgba(245,158,11,0.35)",
+        background: "rgba(245,158,11,0.05)",
+        padding: 12,
+        marginBottom: 12,
+      }}
+    >
+      <div style={{ fontWeight: 900, fontSize: 13 }}>Track playback</div>
+      <div style={{ fontSize: 11, color: "#94a3b8" }}>{deviceName || deviceId}</div>
+
+      <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 8, marginTop: 10 }}>
+        <label style={{ fontSize: 11, color: "#94a3b8" }}>
+          From
+          <input type="datetime-local" value={from} onChange={(e) => setFrom(e.target.value)} style={inputStyle} />
+        </label>
+        <label style={{ fontSize: 11, color: "#94a3b8" }}>
+          To
+          <input type="datetime-local" value={to} onChange={(e) => setTo(e.target.value)} style={inputStyle} />
+        </label>
+      </div>
+
+      <button
+        onClick={loadHistory}
+        disabled={loading}
+        style={{ ...buttonStyle, width: "100%", marginTop: 8, opacity: loading ? 0.7 : 1 }}
+      >
+        {loading ? "Loading…" : "Load track"}
+      </button>
+
+      {error && <div style={{ marginTop: 8, color: "#fca5a5", fontSize: 12 }}>{error}</div>}
+
+      {points.length > 0 ? (
+        <div style={{ marginTop: 10 }}>
+          <input
+            type="range"
+            min={startMs}
+            max={endMs}
+            step={1000}
+            value={cursorMs}
+            onChange={(e) => setCursorMs(Number(e.target.value))}
+            style={{ width: "100%" }}
+          />
+
+          <div style={{ display: "flex", justifyContent: "space-between", fontSize: 11, color: "#94a3b8" }}>
+            <span>{new Date(cursorMs).toLocaleString()}</span>
+            <span>{points.length} fixes</span>
+          </div>
+
+          <div style={{ display: "flex", gap: 8, marginTop: 8 }}>
+            <button onClick={togglePlay} style={{ ...buttonStyle, flex: 1 }}>
+              {playing ? "Pause" : "Play"}
+            </button>
+            <select
+              value={speed}
+              onChange={(e) => setSpeed(Number(e.target.value))}
+              style={{ ...inputStyle, width: "auto" }}
+            >
+              {SPEEDS.map((s) => (
+                <option key={s} value={s}>
+                  {s}×
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+import type { Ranch } from "../api/types";
+
+type RanchSwitcherProps = {
+  ranches: Ranch[];
+  ranchId: string | null;
+  onChange: (ranchId: string) => void;
+};
+
+export default function RanchSwitcher({ ranches, ranchId, onChange }: RanchSwitcherProps) {
+  if (ranches.length === 0) return null;
+
+  const current = ranches.find((r) => r.id === ranchId);
+
+  if (ranches.length === 1) {
+    return <div style={{ fontSize: 12, color: "#cbd5e1", fontWeight: 700 }}>{ranches[0].name}</div>;
+  }
+
+  return (
+    <select
+      value={current?.id ?? ""}
+      onChange={(e) => onChange(e.target.value)}
+      title="Switch ranch"
+      style={{
+        maxWidth: "100%",
+        padding: "6px 8px",
+        borderRadius: 10,
+        border: "1px solid rgba(255,255,255,0.10)",
+        background: "#0b1220",
+        color: "#e5e7eb",
+        fontSize: 12,
+        fontWeight: 700,
+        cursor: "pointer",
+      }}
+    >
+      {!current ? <option value="">Select ranch…</option> : null}
+      {ranches.map((r) => (
+        <option key={r.id} value={r.id}>
+          {r.name} ({r.role})
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -1,13 +1,22 @@
 import { useState } from "react";
-import { API_URL } from '../config';
+import { api, ApiError } from "../api";
+import type { User } from "../api/types";
+import InvitationBanner, { type InvitationDetails } from "./InvitationBanner";
 
 type RegisterProps = {
-  onRegister: (token: string, user: any) => void;
+  onRegister: (token: string, user: User, refreshToken?: string | null) => void;
   onSwitchToLogin: () => void;
+  invitation?: InvitationDetails | null;
+  invitationError?: string;
 };
 
-export default function Register({ onRegister, onSwitchToLogin }: RegisterProps) {
-  const [email, setEmail] = useState("");
+export default function Register({
+  onRegister,
+  onSwitchToLogin,
+  invitation = null,
+  invitationError,
+}: RegisterProps) {
+  const [email, setEmail] = useState(invitation?.email ?? "");
   const [password, setPassword] = useState("");
   const [name, setName] = useState("");
   const [ranchName, setRanchName] = useState("");
@@ -26,25 +35,13 @@ export default function Register({ onRegister, onSwitchToLogin }: RegisterProps)
     setLoading(true);
 
     try {
-      const res = await fetch(`${API_URL}/api/auth/register`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ email, password, name, ranchName }),
-      });
-
-      const data = await res.json();
-
-      if (!res.ok) {
-        setError(data.error || "Registration failed");
-        setLoading(false);
-        return;
-      }
-
-      localStorage.setItem("token", data.token);
-      localStorage.setItem("user", JSON.stringify(data.user));
-      onRegister(data.token, data.user);
+      // Invited users join the inviter's ranch instead of creating their own
+      const data = await api.auth.register(
+        invitation ? { email, password, name, inviteToken: invitation.token } : { email, password, name, ranchName }
+      );
+      onRegister(data.token, data.user, data.refreshToken);
     } catch (err) {
-      setError("Network error. Is the backend running?");
+      setError(err instanceof ApiError ? err.message : "Registration failed");
       setLoading(false);
     }
   };
@@ -81,6 +78,8 @@ export default function Register({ onRegister, onSwitchToLogin }: RegisterProps)
           </p>
         </div>
 
+        <InvitationBanner invitation={invitation} error={invitationError} />
+
         <form onSubmit={handleSubmit}>
           <div style={{ marginBottom: 16 }}>
             <label
@@ -115,38 +114,40 @@ export default function Register({ onRegister, onSwitchToLogin }: RegisterProps)
             />
           </div>
 
-          <div style={{ marginBottom: 16 }}>
-            <label
-              style={{
-                display: "block",
-                marginBottom: 6,
-                fontSize: 13,
-                fontWeight: 500,
-                color: "#d1d5db",
-              }}
-            >
-              Ranch Name
-            </label>
-            <input
-              type="text"
-              value={ranchName}
-              onChange={(e) => setRanchName(e.target.value)}
-              required
-              style={{
-                width: "100%",
-                padding: "10px 12px",
-                fontSize: 14,
-                background: "#0f1117",
-                border: "1px solid #374151",
-                borderRadius: 6,
-                color: "#e5e7eb",
-                outline: "none",
-                transition: "border-color 0.2s",
-              }}
-              onFocus={(e) => (e.target.style.borderColor = "#22c55e")}
-              onBlur={(e) => (e.target.style.borderColor = "#374151")}
-            />
-          </div>
+          {!invitation && (
+            <div style={{ marginBottom: 16 }}>
+              <label
+                style={{
+                  display: "block",
+                  marginBottom: 6,
+                  fontSize: 13,
+                  fontWeight: 500,
+                  color: "#d1d5db",
+                }}
+              >
+                Ranch Name
+              </label>
+              <input
+                type="text"
+                value={ranchName}
+                onChange={(e) => setRanchName(e.target.value)}
+                required
+                style={{
+                  width: "100%",
+                  padding: "10px 12px",
+                  fontSize: 14,
+                  background: "#0f1117",
+                  border: "1px solid #374151",
+                  borderRadius: 6,
+                  color: "#e5e7eb",
+                  outline: "none",
+                  transition: "border-color 0.2s",
+                }}
+                onFocus={(e) => (e.target.style.borderColor = "#22c55e")}
+                onBlur={(e) => (e.target.style.borderColor = "#374151")}
+              />
+            </div>
+          )}
 
           <div style={{ marginBottom: 16 }}>
             <label
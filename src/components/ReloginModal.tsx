@@ -0,0 +1,154 @@
+import { useState } from "react";
+import { api, ApiError } from "../api";
+import type { User } from "../api/types";
+
+type ReloginModalProps = {
+  email?: string | null;
+  onRelogin: (token: string, user: User, refreshToken?: string | null) => void;
+  onLogout: () => void;
+};
+
+/**
+ * Shown over the dashboard when the session can't be refreshed, so map
+ * state survives signing back in.
+ */
+export default function ReloginModal({ email: initialEmail, onRelogin, onLogout }: ReloginModalProps) {
+  const [email, setEmail] = useState(initialEmail ?? "");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    setLoading(true);
+
+    try {
+      const data = await api.auth.login(email, password);
+      onRelogin(data.token, data.user, data.refreshToken);
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : "Login failed");
+      setLoading(false);
+    }
+  };
+
+  const inputStyle = {
+    width: "100%",
+    padding: "10px 12px",
+    fontSize: 14,
+    background: "#0f1117",
+    border: "1px solid #374151",
+    borderRadius: 6,
+    color: "#e5e7eb",
+    outline: "none",
+  } as const;
+
+  return (
+    <div
+      style={{
+        position: "fixed",
+        inset: 0,
+        zIndex: 10000,
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+        background: "rgba(0,0,0,0.6)",
+        backdropFilter: "blur(3px)",
+        fontFamily: "'Inter', system-ui, sans-serif",
+      }}
+    >
+      <div
+        style={{
+          width: "100%",
+          maxWidth: 380,
+          padding: 32,
+          background: "#161b27",
+          borderRadius: 12,
+          border: "1px solid #1f2937",
+          boxShadow: "0 10px 40px rgba(0,0,0,0.3)",
+        }}
+      >
+        <h2 style={{ margin: 0, fontSize: 20, fontWeight: 700, color: "#e5e7eb" }}>Session expired</h2>
+        <p style={{ margin: "8px 0 20px", fontSize: 13, color: "#9ca3af" }}>
+          Log in again to keep working. Your map stays where it is.
+        </p>
+
+        <form onSubmit={handleSubmit}>
+          <label style={{ display: "block", marginBottom: 6, fontSize: 13, fontWeight: 500, color: "#d1d5db" }}>
+            Email
+          </label>
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            required
+            style={{ ...inputStyle, marginBottom: 16 }}
+          />
+
+          <label style={{ display: "block", marginBottom: 6, fontSize: 13, fontWeight: 500, color: "#d1d5db" }}>
+            Password
+          </label>
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            required
+            autoFocus
+            style={{ ...inputStyle, marginBottom: 20 }}
+          />
+
+          {error && (
+            <div
+              style={{
+                padding: 12,
+                marginBottom: 16,
+                background: "#7f1d1d",
+                border: "1px solid #991b1b",
+                borderRadius: 6,
+                fontSize: 13,
+                color: "#fecaca",
+              }}
+            >
+              {error}
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={loading}
+            style={{
+              width: "100%",
+              padding: 12,
+              fontSize: 14,
+              fontWeight: 600,
+              background: loading ? "#374151" : "#22c55e",
+              color: "#fff",
+              border: "none",
+              borderRadius: 6,
+              cursor: loading ? "not-allowed" : "pointer",
+            }}
+          >
+            {loading ? "Logging in..." : "Log In"}
+          </button>
+        </form>
+
+        <div style={{ marginTop: 16, textAlign: "center", fontSize: 13 }}>
+          <button
+            onClick={onLogout}
+            style={{
+              background: "none",
+              border: "none",
+              color: "#9ca3af",
+              cursor: "pointer",
+              textDecoration: "underline",
+              padding: 0,
+              font: "inherit",
+            }}
+          >
+            Log out instead
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
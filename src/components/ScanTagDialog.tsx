@@ -0,0 +1,367 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+
+import { api } from "../api";
+import type { Animal, DeviceRow } from "../api/types";
+import { animalLabel } from "../animals";
+import { devEuiFromScan, isDeviceEui } from "../devEui";
+
+type ScanTagDialogProps = {
+  ranchId?: string | null;
+  devices: DeviceRow[];
+  unclaimed: DeviceRow[];
+  animals: Animal[];
+  canClaim?: boolean;
+  canEditAnimals?: boolean;
+  // A tag already on this ranch was scanned
+  onOpenDevice: (deviceId: string) => void;
+  onClaimed: () => void;
+  onAnimalChanged: (animal: Animal) => void;
+  onClose: () => void;
+};
+
+const SCAN_INTERVAL_MS = 200;
+// Tag labels: LoRa Alliance QR codes, plus the 1D codes some vendors print
+const FORMATS = ["qr_code", "data_matrix", "code_128", "code_39"];
+
+const button = {
+  borderRadius: 10,
+  border: "1px solid rgba(255,255,255,0.14)",
+  background: "rgba(255,255,255,0.06)",
+  color: "#e5e7eb",
+  padding: "8px 12px",
+  cursor: "pointer",
+  fontSize: 13,
+  fontWeight: 800,
+} as const;
+
+const primary = { ...button, border: "1px solid rgba(34,197,94,0.7)", background: "rgba(34,197,94,0.15)" } as const;
+
+const inputStyle = {
+  background: "#0f1117",
+  color: "#e5e7eb",
+  border: "1px solid #374151",
+  borderRadius: 8,
+  padding: "8px 10px",
+  fontSize: 14,
+  minWidth: 0,
+} as const;
+
+function scannerSupported() {
+  return typeof BarcodeDetector !== "undefined" && !!navigator.mediaDevices?.getUserMedia;
+}
+
+/**
+ * Reads codes off the rear camera while `active`. `error` is set when the
+ * browser can't (no BarcodeDetector, or the camera was refused).
+ */
+function useBarcodeScanner(active: boolean, onCode: (raw: string) => void) {
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const [error, setError] = useState(scannerSupported() ? "" : "This browser can't scan codes; type the DevEUI instead.");
+  const onCodeRef = useRef(onCode);
+  onCodeRef.current = onCode;
+
+  useEffect(() => {
+    // Once failed it stays on manual entry, even for the next tag
+    if (!active || error) return;
+
+    let stream: MediaStream | null = null;
+    let timer: number | null = null;
+    let stopped = false;
+    const detector = new BarcodeDetector({ formats: FORMATS });
+
+    const tick = async () => {
+      const video = videoRef.current;
+      if (stopped || !video) return;
+      try {
+        if (video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA) {
+          // Keeps going after a code; a DevEUI ends the scan by turning `active` off
+          const codes = await detector.detect(video);
+          if (!stopped && codes[0]) onCodeRef.current(codes[0].rawValue);
+        }
+      } catch (e) {
+        // A failure here repeats on every frame; give up on the camera once
+        console.error("Barcode detection failed:", e);
+        stopped = true;
+        stream?.getTracks().forEach((t) => t.stop());
+        setError("Scanning isn't working in this browser; type the DevEUI instead.");
+        return;
+      }
+      if (!stopped) timer = window.setTimeout(tick, SCAN_INTERVAL_MS);
+    };
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: "environment" }, audio: false })
+      .then((s) => {
+        if (stopped) {
+          s.getTracks().forEach((t) => t.stop());
+          return;
+        }
+        stream = s;
+        if (videoRef.current) {
+          videoRef.current.srcObject = s;
+          videoRef.current.play().catch(() => {});
+        }
+        tick();
+      })
+      .catch((e) => {
+        console.error("Camera unavailable:", e);
+        setError("Couldn't open the camera; type the DevEUI instead.");
+      });
+
+    return () => {
+      stopped = true;
+      if (timer) window.clearTimeout(timer);
+      stream?.getTracks().forEach((t) => t.stop());
+    };
+  }, [active, error]);
+
+  return { videoRef, error };
+}
+
+export default function ScanTagDialog({
+  ranchId = null,
+  devices,
+  unclaimed,
+  animals,
+  canClaim = false,
+  canEditAnimals = false,
+  onOpenDevice,
+  onClaimed,
+  onAnimalChanged,
+  onClose,
+}: ScanTagDialogProps) {
+  const [eui, setEui] = useState<string | null>(null);
+  const [manual, setManual] = useState("");
+  const [unreadable, setUnreadable] = useState("");
+  // Set once the scanned tag is on this ranch, for the assign step
+  const [claimed, setClaimed] = useState<DeviceRow | null>(null);
+  const [assignTo, setAssignTo] = useState("");
+  const [newTag, setNewTag] = useState("");
+  const [assigned, setAssigned] = useState<Animal | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+
+  const accept = (raw: string) => {
+    const found = devEuiFromScan(raw);
+    if (!found) {
+      setUnreadable(raw);
+      return;
+    }
+    navigator.vibrate?.(80);
+    const own = devices.find((d) => isDeviceEui(d, found));
+    if (own) {
+      onOpenDevice(own.deviceId);
+      onClose();
+      return;
+    }
+    setUnreadable("");
+    setEui(found);
+  };
+
+  const { videoRef, error: cameraError } = useBarcodeScanner(eui == null, accept);
+
+  const pending = useMemo(() => (eui ? unclaimed.find((d) => isDeviceEui(d, eui)) ?? null : null), [eui, unclaimed]);
+  const untracked = useMemo(
+    () =>
+      animals
+        .filter((a) => a.status === "active" && !a.deviceId)
+        .sort((a, b) => a.tagNumber.localeCompare(b.tagNumber, undefined, { numeric: true })),
+    [animals]
+  );
+
+  const reset = () => {
+    setEui(null);
+    setManual("");
+    setClaimed(null);
+    setAssignTo("");
+    setNewTag("");
+    setAssigned(null);
+    setError("");
+  };
+
+  const claim = async () => {
+    if (!eui) return;
+    setBusy(true);
+    setError("");
+    try {
+      if (pending) {
+        setClaimed(await api.devices.claim(pending.deviceId, { ranchId }));
+      } else {
+        // Never heard from: the bulk endpoint takes DevEUIs the server doesn't know yet
+        const r = await api.devices.claimBulk([eui], { ranchId });
+        if (!r.claimed[0]) throw new Error(r.failed[0]?.reason ?? "not claimed");
+        setClaimed(r.claimed[0]);
+      }
+      onClaimed();
+    } catch (e) {
+      console.error("Failed to claim scanned tag:", e);
+      setError(`Couldn't claim this tag${e instanceof Error && e.message ? `: ${e.message}` : "."}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const assign = async () => {
+    if (!claimed) return;
+    setBusy(true);
+    setError("");
+    try {
+      const animal =
+        assignTo === "new"
+          ? await api.animals.create({ tagNumber: newTag.trim(), deviceId: claimed.deviceId }, { ranchId })
+          : await api.animals.update(assignTo, { deviceId: claimed.deviceId }, { ranchId });
+      onAnimalChanged(animal);
+      setAssigned(animal);
+    } catch (e) {
+      console.error("Failed to assign scanned tag:", e);
+      setError("Couldn't put the tag on that animal.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div
+      style={{
+        position: "fixed",
+        inset: 0,
+        zIndex: 10000,
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+        background: "rgba(0,0,0,0.6)",
+        backdropFilter: "blur(3px)",
+      }}
+    >
+      <div
+        style={{
+          width: "100%",
+          maxWidth: 420,
+          maxHeight: "100vh",
+          overflowY: "auto",
+          padding: 18,
+          background: "#161b27",
+          borderRadius: 12,
+          border: "1px solid #1f2937",
+          boxShadow: "0 10px 40px rgba(0,0,0,0.3)",
+          color: "#e5e7eb",
+        }}
+      >
+        <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: 10 }}>
+          <div style={{ fontSize: 17, fontWeight: 900 }}>Scan a tag</div>
+          <button onClick={onClose} style={button}>
+            Close
+          </button>
+        </div>
+
+        {eui == null ? (
+          <>
+            {cameraError ? (
+              <div style={{ marginTop: 10, fontSize: 12, color: "#fca5a5" }}>{cameraError}</div>
+            ) : (
+              <video
+                ref={videoRef}
+                muted
+                playsInline
+                style={{ marginTop: 12, width: "100%", borderRadius: 10, background: "#000", aspectRatio: "4 / 3", objectFit: "cover" }}
+              />
+            )}
+
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (manual.trim()) accept(manual);
+              }}
+              style={{ display: "flex", gap: 6, marginTop: 12 }}
+            >
+              {/* Also takes input from handheld scanners that type like a keyboard */}
+              <input
+                value={manual}
+                onChange={(e) => setManual(e.target.value)}
+                placeholder="DevEUI, e.g. 70B3D57ED0051234"
+                style={{ ...inputStyle, flex: 1, fontFamily: "ui-monospace, monospace" }}
+                autoFocus={!!cameraError}
+              />
+              <button type="submit" disabled={!manual.trim()} style={button}>
+                Look up
+              </button>
+            </form>
+
+            {unreadable ? (
+              <div style={{ marginTop: 8, fontSize: 12, color: "#fca5a5", wordBreak: "break-all" }}>
+                No DevEUI in “{unreadable.slice(0, 80)}”.
+              </div>
+            ) : null}
+          </>
+        ) : (
+          <div style={{ marginTop: 12 }}>
+            <div style={{ fontSize: 12, color: "#94a3b8" }}>Tag</div>
+            <div style={{ fontSize: 18, fontWeight: 900, fontFamily: "ui-monospace, monospace" }}>{eui}</div>
+            <div style={{ fontSize: 12, color: "#94a3b8", marginTop: 2 }}>
+              {claimed
+                ? "On your ranch now."
+                : pending
+                ? `Unclaimed • last heard ${pending.lastSeen ? new Date(pending.lastSeen).toLocaleString() : "—"}`
+                : "Not heard from yet. It will show up after its first uplink."}
+            </div>
+
+            {!claimed ? (
+              canClaim ? (
+                <button onClick={claim} disabled={busy} style={{ ...primary, width: "100%", marginTop: 12, opacity: busy ? 0.7 : 1 }}>
+                  {busy ? "Claiming…" : "Claim to my ranch"}
+                </button>
+              ) : (
+                <div style={{ marginTop: 12, fontSize: 12, color: "#94a3b8" }}>Ask the ranch owner or a hand to claim it.</div>
+              )
+            ) : assigned ? (
+              <div style={{ marginTop: 12, fontSize: 13, color: "#86efac" }}>Now on {animalLabel(assigned)}.</div>
+            ) : canEditAnimals ? (
+              <div style={{ marginTop: 12, display: "flex", flexDirection: "column", gap: 8 }}>
+                <div style={{ fontSize: 12, fontWeight: 800, color: "#cbd5e1" }}>Put it on</div>
+                <select value={assignTo} onChange={(e) => setAssignTo(e.target.value)} style={inputStyle}>
+                  <option value="">Choose an animal…</option>
+                  <option value="new">New animal…</option>
+                  {untracked.map((a) => (
+                    <option key={a.id} value={a.id}>
+                      {animalLabel(a)}
+                    </option>
+                  ))}
+                </select>
+                {assignTo === "new" ? (
+                  <input value={newTag} onChange={(e) => setNewTag(e.target.value)} placeholder="Ear tag number" style={inputStyle} autoFocus />
+                ) : null}
+                <button
+                  onClick={assign}
+                  disabled={busy || !assignTo || (assignTo === "new" && !newTag.trim())}
+                  style={{ ...primary, opacity: busy ? 0.7 : 1 }}
+                >
+                  {busy ? "Saving…" : "Assign"}
+                </button>
+              </div>
+            ) : null}
+
+            {error ? <div style={{ marginTop: 8, fontSize: 12, color: "#fca5a5" }}>{error}</div> : null}
+
+            <div style={{ display: "flex", gap: 8, marginTop: 14 }}>
+              <button onClick={reset} disabled={busy} style={{ ...button, flex: 1 }}>
+                Scan next tag
+              </button>
+              {claimed ? (
+                <button
+                  onClick={() => {
+                    onOpenDevice(claimed.deviceId);
+                    onClose();
+                  }}
+                  disabled={busy}
+                  style={button}
+                >
+                  Open
+                </button>
+              ) : null}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
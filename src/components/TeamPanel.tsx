@@ -1,64 +1,39 @@
-import { useState, useEffect } from "react";
-import { API_URL } from "../config";
-
-type TeamMember = {
-  id: string;
-  userId: string;
-  email: string;
-  name: string | null;
-  role: string;
-  createdAt: string;
-};
-
-type Invitation = {
-  id: string;
-  email: string;
-  role: string;
-  status: string;
-  expiresAt: string;
-  invitedBy: string;
-  createdAt: string;
-};
+import { useState } from "react";
+import { api, ApiError } from "../api";
+import { useApiQuery } from "../api/hooks";
+import type { TeamInvitation, TeamMember } from "../api/types";
+import { ROLES } from "../permissions";
 
 type TeamPanelProps = {
-  token: string;
+  ranchId?: string | null;
   currentUserId: string;
+  canManage?: boolean;
 };
 
-export default function TeamPanel({ token, currentUserId }: TeamPanelProps) {
-  const [members, setMembers] = useState<TeamMember[]>([]);
-  const [invitations, setInvitations] = useState<Invitation[]>([]);
-  const [loading, setLoading] = useState(true);
+export default function TeamPanel({ ranchId = null, currentUserId, canManage = true }: TeamPanelProps) {
+  const {
+    data: members,
+    loading,
+    reload: reloadMembers,
+  } = useApiQuery((signal) => api.team.members({ ranchId, signal }), [ranchId], [] as TeamMember[]);
+
+  // Only owners can see pending invitations
+  const { data: invitations, reload: reloadInvitations } = useApiQuery(
+    (signal) => api.team.invitations({ ranchId, signal }),
+    [ranchId],
+    [] as TeamInvitation[],
+    { enabled: canManage }
+  );
+
   const [showInviteForm, setShowInviteForm] = useState(false);
   const [inviteEmail, setInviteEmail] = useState("");
   const [inviteRole, setInviteRole] = useState("viewer");
   const [inviteUrl, setInviteUrl] = useState("");
   const [error, setError] = useState("");
 
-  useEffect(() => {
-    loadTeam();
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [token]);
-
-  const loadTeam = async () => {
-    try {
-      setLoading(true);
-      const [membersRes, invitesRes] = await Promise.all([
-        fetch(`${API_URL}/api/team/members`, {
-          headers: { Authorization: `Bearer ${token}` },
-        }),
-        fetch(`${API_URL}/api/team/invitations`, {
-          headers: { Authorization: `Bearer ${token}` },
-        }),
-      ]);
-
-      if (membersRes.ok) setMembers(await membersRes.json());
-      if (invitesRes.ok) setInvitations(await invitesRes.json());
-    } catch (e) {
-      console.error("Failed to load team:", e);
-    } finally {
-      setLoading(false);
-    }
+  const loadTeam = () => {
+    reloadMembers();
+    if (canManage) reloadInvitations();
   };
 
   const sendInvite = async () => {
@@ -66,27 +41,13 @@ export default function TeamPanel({ token, currentUserId }: TeamPanelProps) {
     setInviteUrl("");
 
     try {
-      const res = await fetch(`${API_URL}/api/team/invite`, {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${token}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({ email: inviteEmail, role: inviteRole }),
-      });
-
-      const data = await res.json().catch(() => ({}));
-      if (!res.ok) {
-        setError(data?.error || "Invite failed");
-        return;
-      }
-
+      const data = await api.team.invite(inviteEmail, inviteRole, { ranchId });
       setInviteUrl(data?.inviteUrl || "");
       setInviteEmail("");
       setShowInviteForm(false);
       loadTeam();
     } catch (e) {
-      setError("Invite failed");
+      setError(e instanceof ApiError ? e.message : "Invite failed");
     }
   };
 
@@ -94,11 +55,8 @@ export default function TeamPanel({ token, currentUserId }: TeamPanelProps) {
     if (!confirm("Delete this invitation?")) return;
 
     try {
-      const res = await fetch(`${API_URL}/api/team/invitations/${id}`, {
-        method: "DELETE",
-        headers: { Authorization: `Bearer ${token}` },
-      });
-      if (res.ok) loadTeam();
+      await api.team.deleteInvitation(id, { ranchId });
+      loadTeam();
     } catch (e) {
       console.error("Failed to delete invite:", e);
     }
@@ -108,11 +66,8 @@ export default function TeamPanel({ token, currentUserId }: TeamPanelProps) {
     if (!confirm("Remove this team member?")) return;
 
     try {
-      const res = await fetch(`${API_URL}/api/team/members/${id}`, {
-        method: "DELETE",
-        headers: { Authorization: `Bearer ${token}` },
-      });
-      if (res.ok) loadTeam();
+      await api.team.removeMember(id, { ranchId });
+      loadTeam();
     } catch (e) {
       console.error("Failed to remove member:", e);
     }
@@ -128,24 +83,26 @@ export default function TeamPanel({ token, currentUserId }: TeamPanelProps) {
         👥 Team
       </div>
 
-      <div style={{ marginBottom: 10 }}>
-        <button
-          onClick={() => setShowInviteForm((s) => !s)}
-          style={{
-            padding: "6px 10px",
-            fontSize: 12,
-            background: "#111827",
-            color: "#e5e7eb",
-            border: "1px solid #374151",
-            borderRadius: 6,
-            cursor: "pointer",
-          }}
-        >
-          {showInviteForm ? "Cancel" : "Invite member"}
-        </button>
-      </div>
+      {canManage && (
+        <div style={{ marginBottom: 10 }}>
+          <button
+            onClick={() => setShowInviteForm((s) => !s)}
+            style={{
+              padding: "6px 10px",
+              fontSize: 12,
+              background: "#111827",
+              color: "#e5e7eb",
+              border: "1px solid #374151",
+              borderRadius: 6,
+              cursor: "pointer",
+            }}
+          >
+            {showInviteForm ? "Cancel" : "Invite member"}
+          </button>
+        </div>
+      )}
 
-      {showInviteForm && (
+      {canManage && showInviteForm && (
         <div style={{ marginBottom: 12, padding: 12, background: "#1e2a3a", borderRadius: 6, border: "1px solid #374151" }}>
           <div style={{ display: "flex", gap: 8, marginBottom: 8 }}>
             <input
@@ -159,8 +116,11 @@ export default function TeamPanel({ token, currentUserId }: TeamPanelProps) {
               onChange={(e) => setInviteRole(e.target.value)}
               style={{ padding: 8, borderRadius: 6, border: "1px solid #374151", background: "#0b1220", color: "#e5e7eb" }}
             >
-              <option value="viewer">viewer</option>
-              <option value="owner">owner</option>
+              {ROLES.map((r) => (
+                <option key={r} value={r}>
+                  {r}
+                </option>
+              ))}
             </select>
           </div>
           <button
@@ -212,7 +172,7 @@ export default function TeamPanel({ token, currentUserId }: TeamPanelProps) {
           </div>
           <div style={{ color: "#9ca3af", fontSize: 12, marginTop: 4 }}>{m.email}</div>
 
-          {m.userId !== currentUserId && !m.id.startsWith("owner:") && (
+          {canManage && m.userId !== currentUserId && !m.id.startsWith("owner:") && (
             <button
               onClick={() => removeMember(m.id)}
               style={{
@@ -232,9 +192,11 @@ export default function TeamPanel({ token, currentUserId }: TeamPanelProps) {
         </div>
       ))}
 
-      <div style={{ marginTop: 14, marginBottom: 10, fontSize: 12, color: "#9ca3af" }}>
-        Invitations ({invitations.length})
-      </div>
+      {canManage && (
+        <div style={{ marginTop: 14, marginBottom: 10, fontSize: 12, color: "#9ca3af" }}>
+          Invitations ({invitations.length})
+        </div>
+      )}
 
       {invitations.map((i) => (
         <div
@@ -0,0 +1,153 @@
+import { useMemo, useState } from "react";
+
+import type { SeriesPoint } from "../telemetry";
+
+type TelemetryChartProps = {
+  title: string;
+  series: SeriesPoint[];
+  fromMs: number;
+  toMs: number;
+  color: string;
+  format: (v: number) => string;
+  // Bars for counts per bucket (missed frames, daily distance), lines otherwise
+  kind?: "line" | "bar";
+  // Bar width in ms, for bar charts
+  barMs?: number;
+};
+
+const W = 320;
+const H = 110;
+const PAD = { left: 34, right: 6, top: 6, bottom: 16 };
+
+function niceRange(values: number[]): [number, number] {
+  let lo = Math.min(...values);
+  let hi = Math.max(...values);
+  if (lo === hi) {
+    lo -= 1;
+    hi += 1;
+  }
+  const pad = (hi - lo) * 0.08;
+  return [lo - pad, hi + pad];
+}
+
+function axisTime(ms: number, spanMs: number) {
+  const d = new Date(ms);
+  return spanMs > 2 * 86400_000
+    ? d.toLocaleDateString(undefined, { month: "short", day: "numeric" })
+    : d.toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit" });
+}
+
+export default function TelemetryChart({
+  title,
+  series,
+  fromMs,
+  toMs,
+  color,
+  format,
+  kind = "line",
+  barMs = 0,
+}: TelemetryChartProps) {
+  const [hover, setHover] = useState<SeriesPoint | null>(null);
+
+  const span = Math.max(1, toMs - fromMs);
+  const [lo, hi] = useMemo(() => {
+    if (series.length === 0) return [0, 1];
+    if (kind === "bar") return [0, Math.max(1, ...series.map((p) => p.v)) * 1.08];
+    return niceRange(series.map((p) => p.v));
+  }, [series, kind]);
+
+  const x = (t: number) => PAD.left + ((t - fromMs) / span) * (W - PAD.left - PAD.right);
+  const y = (v: number) => PAD.top + (1 - (v - lo) / (hi - lo)) * (H - PAD.top - PAD.bottom);
+
+  const path =
+    kind === "line" ? series.map((p, i) => `${i === 0 ? "M" : "L"}${x(p.t).toFixed(1)},${y(p.v).toFixed(1)}`).join("") : "";
+
+  const latest = series[series.length - 1];
+  const shown = hover ?? latest;
+
+  const onMove = (e: React.MouseEvent<SVGSVGElement>) => {
+    if (series.length === 0) return;
+    const box = e.currentTarget.getBoundingClientRect();
+    const px = ((e.clientX - box.left) / box.width) * W;
+    const t = fromMs + ((px - PAD.left) / (W - PAD.left - PAD.right)) * span;
+    let best = series[0];
+    for (const p of series) if (Math.abs(p.t - t) < Math.abs(best.t - t)) best = p;
+    setHover(best);
+  };
+
+  const barW = kind === "bar" ? Math.max(1, (barMs / span) * (W - PAD.left - PAD.right) - 1) : 0;
+
+  return (
+    <div
+      style={{
+        borderRadius: 12,
+        border: "1px solid rgba(255,255,255,0.08)",
+        background: "rgba(255,255,255,0.03)",
+        padding: 10,
+      }}
+    >
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "baseline", gap: 8 }}>
+        <div style={{ fontWeight: 900, fontSize: 12 }}>{title}</div>
+        <div style={{ fontSize: 11, color: "#94a3b8", whiteSpace: "nowrap" }}>
+          {shown ? (
+            <>
+              <span style={{ color, fontWeight: 800 }}>{format(shown.v)}</span> • {new Date(shown.t).toLocaleString()}
+            </>
+          ) : null}
+        </div>
+      </div>
+
+      {series.length === 0 ? (
+        <div style={{ height: 60, display: "flex", alignItems: "center", justifyContent: "center", fontSize: 11, color: "#6b7280" }}>
+          No readings in this range
+        </div>
+      ) : (
+        <svg
+          viewBox={`0 0 ${W} ${H}`}
+          style={{ width: "100%", display: "block", marginTop: 4 }}
+          onMouseMove={onMove}
+          onMouseLeave={() => setHover(null)}
+        >
+          {[lo, (lo + hi) / 2, hi].map((v, i) => (
+            <g key={i}>
+              <line x1={PAD.left} x2={W - PAD.right} y1={y(v)} y2={y(v)} stroke="rgba(255,255,255,0.07)" />
+              <text x={PAD.left - 4} y={y(v) + 3} textAnchor="end" fontSize={8} fill="#6b7280">
+                {format(v)}
+              </text>
+            </g>
+          ))}
+          <text x={PAD.left} y={H - 4} fontSize={8} fill="#6b7280">
+            {axisTime(fromMs, span)}
+          </text>
+          <text x={W - PAD.right} y={H - 4} textAnchor="end" fontSize={8} fill="#6b7280">
+            {axisTime(toMs, span)}
+          </text>
+
+          {kind === "line" ? (
+            <path d={path} fill="none" stroke={color} strokeWidth={1.5} strokeLinejoin="round" />
+          ) : (
+            series.map((p) =>
+              p.v > 0 ? (
+                <rect key={p.t} x={x(p.t)} y={y(p.v)} width={barW} height={y(0) - y(p.v)} fill={color} opacity={0.85} />
+              ) : null
+            )
+          )}
+
+          {hover ? (
+            <>
+              <line
+                x1={x(hover.t)}
+                x2={x(hover.t)}
+                y1={PAD.top}
+                y2={H - PAD.bottom}
+                stroke="rgba(255,255,255,0.25)"
+                strokeDasharray="2 2"
+              />
+              {kind === "line" ? <circle cx={x(hover.t)} cy={y(hover.v)} r={3} fill={color} /> : null}
+            </>
+          ) : null}
+        </svg>
+      )}
+    </div>
+  );
+}
@@ -9,3 +9,12 @@ export const API_URL = (
 export const WS_URL = API_URL.startsWith("https://")
   ? API_URL.replace(/^https:\/\//, "wss://")
   : API_URL.replace(/^http:\/\//, "ws://");
+
+// Web Push server key; push is offered only when set
+export const VAPID_PUBLIC_KEY = import.meta.env.VITE_VAPID_PUBLIC_KEY || "";
+
+// Basemap tiles. Point VITE_TILE_URL at a server that allows bulk
+// downloads before using offline tile packs; the public OSM servers don't.
+export const TILE_URL = import.meta.env.VITE_TILE_URL || "https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png";
+export const TILE_ATTRIBUTION =
+  import.meta.env.VITE_TILE_ATTRIBUTION || '&copy; <a href="https://www.openstreetmap.org/copyright">OSM</a>';
@@ -0,0 +1,100 @@
+// src/containment.ts
+// Which animals are in which fence, worked out in the browser from the
+// latest fixes. A preview of what the server alerts on: it ignores dwell
+// time, but honours mode, schedule, targets and the distance threshold.
+
+import type { Geofence, GeofenceRules } from "./api/types";
+import { distanceToEdgeM, haversineMeters, isValidGeoJsonPolygonGeometry, pointInGeometry } from "./geo";
+import { isScheduleActive, rulesOf } from "./geofenceRules";
+
+export type FenceHeadcount = {
+  // Targeted devices inside the fence
+  inside: number;
+  // Targeted devices with a known position
+  total: number;
+};
+
+export type DeviceContainment = {
+  // Fences the device is inside
+  insideIds: string[];
+  // Fences it's breaking right now: outside its keep-in pasture(s), or in a keep-out fence
+  breachIds: string[];
+};
+
+export type ContainmentResult = {
+  byDevice: Record<string, DeviceContainment>;
+  byFence: Record<string, FenceHeadcount>;
+};
+
+type Position = { lat: number; lon: number };
+
+function appliesTo(rules: GeofenceRules, deviceId: string, groupIds: string[]) {
+  if (rules.deviceIds.length === 0 && rules.groupIds.length === 0) return true;
+  return rules.deviceIds.includes(deviceId) || rules.groupIds.some((g) => groupIds.includes(g));
+}
+
+/**
+ * Signed meters past the fence line: negative inside, positive outside.
+ * Null for fences without usable geometry.
+ */
+function signedDistanceM(fence: Geofence, p: Position): number | null {
+  if (fence.type === "circle") {
+    if (fence.centerLat == null || fence.centerLon == null || fence.radiusM == null) return null;
+    return haversineMeters({ lat: fence.centerLat, lon: fence.centerLon }, p) - fence.radiusM;
+  }
+  if (!isValidGeoJsonPolygonGeometry(fence.polygon)) return null;
+
+  const pt = [p.lon, p.lat];
+  const d = distanceToEdgeM(pt, fence.polygon);
+  return pointInGeometry(pt, fence.polygon) ? -d : d;
+}
+
+export function evaluateContainment(
+  fences: Geofence[],
+  positions: Record<string, Position>,
+  opts: { at?: Date; timeZone?: string | null; groupIdsOf?: (deviceId: string) => string[] } = {}
+): ContainmentResult {
+  const at = opts.at ?? new Date();
+  const byDevice: Record<string, DeviceContainment> = {};
+  const byFence: Record<string, FenceHeadcount> = {};
+
+  const rulesById = new Map(fences.map((f) => [f.id, rulesOf(f)]));
+  for (const f of fences) byFence[f.id] = { inside: 0, total: 0 };
+
+  for (const [deviceId, p] of Object.entries(positions)) {
+    const groupIds = opts.groupIdsOf?.(deviceId) ?? [];
+    const insideIds: string[] = [];
+    const breachIds: string[] = [];
+    // Keep-in pastures this device belongs to, and whether it's in at least one
+    const pastures: string[] = [];
+    let inPasture = false;
+
+    for (const fence of fences) {
+      const rules = rulesById.get(fence.id)!;
+      const dist = signedDistanceM(fence, p);
+      if (dist == null) continue;
+
+      const inside = dist <= 0;
+      if (inside) insideIds.push(fence.id);
+
+      if (!appliesTo(rules, deviceId, groupIds)) continue;
+      byFence[fence.id].total++;
+      if (inside) byFence[fence.id].inside++;
+
+      if (!isScheduleActive(rules.schedule, at, opts.timeZone)) continue;
+      if (rules.mode === "keep_out") {
+        // Past the line by more than the threshold, going in
+        if (-dist > rules.minDistanceM) breachIds.push(fence.id);
+      } else {
+        pastures.push(fence.id);
+        if (dist <= rules.minDistanceM) inPasture = true;
+      }
+    }
+
+    // Being in any one assigned pasture is enough
+    if (pastures.length > 0 && !inPasture) breachIds.push(...pastures);
+    byDevice[deviceId] = { insideIds, breachIds };
+  }
+
+  return { byDevice, byFence };
+}
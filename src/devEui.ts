@@ -0,0 +1,69 @@
+// src/devEui.ts
+// Parsing LoRaWAN DevEUIs out of pasted text: spreadsheet columns, CSV
+// exports from the tag vendor, or one per line with ":" or "-" separators.
+
+import type { DeviceRow } from "./api/types";
+
+export type DevEuiList = {
+  // Normalized (16 uppercase hex digits), in the order first seen
+  valid: string[];
+  // Tokens that aren't a DevEUI, as typed
+  invalid: string[];
+  duplicates: number;
+};
+
+const HEX16 = /^[0-9A-F]{16}$/;
+
+/** "70:b3:d5-7e…" → "70B3D57E…", or null when it isn't 8 bytes of hex. */
+export function normalizeDevEui(raw: string): string | null {
+  const hex = raw
+    .trim()
+    .replace(/^0x/i, "")
+    .replace(/[\s:-]/g, "")
+    .toUpperCase();
+  return HEX16.test(hex) ? hex : null;
+}
+
+/** Whether `eui` (normalized) is this device's. Some networks use the EUI as the device id. */
+export function isDeviceEui(d: DeviceRow, eui: string): boolean {
+  return (!!d.devEui && normalizeDevEui(d.devEui) === eui) || normalizeDevEui(d.deviceId) === eui;
+}
+
+/**
+ * The DevEUI in a scanned tag code: a LoRa Alliance TR005 QR code
+ * ("LW:D0:<JoinEUI>:<DevEUI>:…"), a bare EUI, or a label with the EUI
+ * somewhere in it.
+ */
+export function devEuiFromScan(raw: string): string | null {
+  const text = raw.trim();
+  if (/^LW:D0:/i.test(text)) return normalizeDevEui(text.split(":")[3] ?? "");
+
+  const whole = normalizeDevEui(text);
+  if (whole) return whole;
+  // \b keeps a 32-digit AppKey from matching
+  const match = text.match(/\b[0-9A-Fa-f]{16}\b/);
+  return match ? match[0].toUpperCase() : null;
+}
+
+export function parseDevEuiList(text: string): DevEuiList {
+  const seen = new Set<string>();
+  const invalid: string[] = [];
+  let duplicates = 0;
+
+  for (const line of text.split(/\r?\n/)) {
+    if (!line.trim()) continue;
+
+    // A whole line can be one EUI written in spaced byte pairs
+    const whole = normalizeDevEui(line);
+    const tokens = whole ? [line] : line.split(/[\s,;|]+/).filter(Boolean);
+
+    for (const token of tokens) {
+      const eui = normalizeDevEui(token.replace(/^["']|["']$/g, ""));
+      if (!eui) invalid.push(token);
+      else if (seen.has(eui)) duplicates++;
+      else seen.add(eui);
+    }
+  }
+
+  return { valid: [...seen], invalid, duplicates };
+}
@@ -0,0 +1,334 @@
+// src/fenceFiles.ts
+// Geofence import/export: GeoJSON, KML, KMZ and zipped Shapefile.
+
+import { kml } from "@tmcw/togeojson";
+import { zip as shpZip } from "@mapbox/shp-write";
+import { strFromU8, strToU8, unzipSync, zipSync } from "fflate";
+import shp from "shpjs";
+import type { Feature, FeatureCollection, Geometry, Position } from "geojson";
+
+import type { Geofence, GeofenceGeometry } from "./api/types";
+import { circleRing } from "./geo";
+
+export type FenceFileFormat = "geojson" | "kml" | "kmz" | "shapefile";
+
+export const FENCE_FILE_ACCEPT = ".geojson,.json,.kml,.kmz,.zip";
+
+export type ImportedFence = {
+  name: string;
+  // Circles are approximated here for the preview and created as circles
+  geometry: GeofenceGeometry;
+  circle?: { lat: number; lon: number; radiusM: number };
+  corridorWidthM?: number | null;
+};
+
+// ---- import ----
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return !!v && typeof v === "object" && !Array.isArray(v);
+}
+
+// Just the outer shape; coordinates are checked on the way to a fence
+function isGeometry(v: unknown): v is Geometry {
+  return isRecord(v) && typeof v.type === "string" && v.type !== "Feature" && v.type !== "FeatureCollection";
+}
+
+function isFeature(v: unknown): v is Feature {
+  return isRecord(v) && v.type === "Feature" && (v.geometry === null || isGeometry(v.geometry));
+}
+
+function toRing(ring: unknown): Position[] | null {
+  if (!Array.isArray(ring)) return null;
+  const out: Position[] = [];
+  for (const p of ring) {
+    if (!Array.isArray(p) || !Number.isFinite(p[0]) || !Number.isFinite(p[1])) return null;
+    // Projected data (eastings/northings in metres) would import as nonsense
+    if (Math.abs(p[0]) > 180 || Math.abs(p[1]) > 90) {
+      throw new Error(
+        "The coordinates aren't longitude/latitude. For a shapefile, include its .prj in the zip so it can be reprojected."
+      );
+    }
+    // Drop altitude; KML and 3D shapefiles carry it
+    out.push([p[0], p[1]]);
+  }
+  return out.length >= 4 ? out : null;
+}
+
+function toPolygonRings(rings: unknown): Position[][] | null {
+  if (!Array.isArray(rings) || rings.length === 0) return null;
+  const out = rings.map(toRing);
+  return out.every((r): r is Position[] => !!r) ? out : null;
+}
+
+// Polygon / MultiPolygon (or a collection of them) as one fence geometry
+function toFenceGeometry(g: Geometry | null): GeofenceGeometry | null {
+  if (!g) return null;
+
+  if (g.type === "Polygon") {
+    const rings = toPolygonRings(g.coordinates);
+    return rings ? { type: "Polygon", coordinates: rings } : null;
+  }
+
+  if (g.type === "MultiPolygon") {
+    if (!Array.isArray(g.coordinates)) return null;
+    const parts = g.coordinates.map(toPolygonRings);
+    if (!parts.length || !parts.every((p): p is Position[][] => !!p)) return null;
+    return parts.length === 1 ? { type: "Polygon", coordinates: parts[0] } : { type: "MultiPolygon", coordinates: parts };
+  }
+
+  if (g.type === "GeometryCollection") {
+    if (!Array.isArray(g.geometries)) return null;
+    const parts = g.geometries
+      .map(toFenceGeometry)
+      .flatMap((p) => (p ? (p.type === "Polygon" ? [p.coordinates] : p.coordinates) : []));
+    if (!parts.length) return null;
+    return parts.length === 1 ? { type: "Polygon", coordinates: parts[0] } : { type: "MultiPolygon", coordinates: parts };
+  }
+
+  // Points and lines have no area to fence
+  return null;
+}
+
+function featureName(props: Record<string, unknown> | null, fallback: string) {
+  if (props) {
+    for (const key of ["name", "NAME", "Name", "title", "label"]) {
+      const v = props[key];
+      if (typeof v === "string" && v.trim()) return v.trim();
+    }
+    // County shapefiles name things all sorts of ways (PASTURE_NM, OWNER_NAME, ...)
+    for (const [k, v] of Object.entries(props)) {
+      if (/name/i.test(k) && typeof v === "string" && v.trim()) return v.trim();
+    }
+  }
+  return fallback;
+}
+
+function num(v: unknown) {
+  return typeof v === "number" && Number.isFinite(v) ? v : null;
+}
+
+function fromFeatures(features: Feature[], baseName: string): ImportedFence[] {
+  const out: ImportedFence[] = [];
+
+  features.forEach((f, i) => {
+    const props = (f.properties ?? null) as Record<string, unknown> | null;
+    const name = featureName(props, `${baseName} ${i + 1}`);
+
+    // Round-trips our own export: circles come back as circles
+    const lat = num(props?.centerLat);
+    const lon = num(props?.centerLon);
+    const radiusM = num(props?.radiusM);
+    if (props?.type === "circle" && lat != null && lon != null && radiusM != null && radiusM > 0) {
+      out.push({
+        name,
+        geometry: { type: "Polygon", coordinates: [circleRing(lat, lon, radiusM)] },
+        circle: { lat, lon, radiusM },
+      });
+      return;
+    }
+
+    const geometry = toFenceGeometry(f.geometry);
+    if (geometry) out.push({ name, geometry, corridorWidthM: num(props?.corridorWidthM) });
+  });
+
+  return out;
+}
+
+function parseKmlText(text: string) {
+  const doc = new DOMParser().parseFromString(text, "text/xml");
+  if (doc.getElementsByTagName("parsererror").length) throw new Error("The KML file is not valid XML.");
+  return kml(doc).features as Feature[];
+}
+
+/**
+ * Reads fences out of a GeoJSON, KML, KMZ or zipped Shapefile. Features
+ * without an area (points, lines) are skipped. Throws with a message fit
+ * to show when the file can't be read.
+ */
+export async function parseFenceFile(file: File): Promise<ImportedFence[]> {
+  const lower = file.name.toLowerCase();
+  const baseName = file.name.replace(/\.[^.]+$/, "");
+
+  if (lower.endsWith(".geojson") || lower.endsWith(".json")) {
+    let data: unknown;
+    try {
+      data = JSON.parse(await file.text());
+    } catch {
+      throw new Error("The file is not valid JSON.");
+    }
+    const features: Feature[] =
+      isRecord(data) && data.type === "FeatureCollection"
+        ? Array.isArray(data.features)
+          ? data.features.filter(isFeature)
+          : []
+        : isFeature(data)
+        ? [data]
+        : isGeometry(data)
+        ? [{ type: "Feature", properties: {}, geometry: data }]
+        : [];
+    return fromFeatures(features, baseName);
+  }
+
+  if (lower.endsWith(".kml")) {
+    return fromFeatures(parseKmlText(await file.text()), baseName);
+  }
+
+  if (lower.endsWith(".kmz")) {
+    const entries = unzipSync(new Uint8Array(await file.arrayBuffer()));
+    const names = Object.keys(entries).filter((n) => n.toLowerCase().endsWith(".kml"));
+    // doc.kml by convention, otherwise the first KML inside
+    const main = names.find((n) => n.toLowerCase() === "doc.kml") ?? names[0];
+    if (!main) throw new Error("The KMZ has no KML document inside.");
+    return fromFeatures(parseKmlText(strFromU8(entries[main])), baseName);
+  }
+
+  if (lower.endsWith(".zip")) {
+    let parsed;
+    try {
+      parsed = await shp(await file.arrayBuffer());
+    } catch (e) {
+      console.error(e);
+      throw new Error("Couldn't read a shapefile from the zip (it needs the .shp, .shx and .dbf).");
+    }
+    const layers = Array.isArray(parsed) ? parsed : [parsed];
+    return layers.flatMap((fc) => fromFeatures(fc.features, fc.fileName || baseName));
+  }
+
+  throw new Error("Use a .geojson, .kml, .kmz or zipped shapefile (.zip).");
+}
+
+// ---- export ----
+
+function fenceGeometry(gf: Geofence): GeofenceGeometry | null {
+  if (gf.type === "circle" && gf.centerLat != null && gf.centerLon != null && gf.radiusM != null) {
+    return { type: "Polygon", coordinates: [circleRing(gf.centerLat, gf.centerLon, gf.radiusM)] };
+  }
+  return gf.polygon;
+}
+
+export function fencesToFeatureCollection(fences: Geofence[]): FeatureCollection<GeofenceGeometry> {
+  const features: Feature<GeofenceGeometry>[] = [];
+  for (const gf of fences) {
+    const geometry = fenceGeometry(gf);
+    if (!geometry) continue;
+    features.push({
+      type: "Feature",
+      id: gf.id,
+      properties: {
+        id: gf.id,
+        name: gf.name,
+        type: gf.type,
+        centerLat: gf.centerLat,
+        centerLon: gf.centerLon,
+        radiusM: gf.radiusM,
+        corridorWidthM: gf.corridorWidthM ?? null,
+        createdAt: gf.createdAt,
+      },
+      geometry,
+    });
+  }
+  return { type: "FeatureCollection", features };
+}
+
+function escapeXml(s: string) {
+  return s.replace(/[<>&'"]/g, (c) => ({ "<": "&lt;", ">": "&gt;", "&": "&amp;", "'": "&apos;", '"': "&quot;" })[c]!);
+}
+
+function kmlPolygon(rings: Position[][]) {
+  const coords = (ring: Position[]) => ring.map(([lon, lat]) => `${lon},${lat}`).join(" ");
+  const [outer, ...holes] = rings;
+  return [
+    "<Polygon>",
+    `<outerBoundaryIs><LinearRing><coordinates>${coords(outer)}</coordinates></LinearRing></outerBoundaryIs>`,
+    ...holes.map((h) => `<innerBoundaryIs><LinearRing><coordinates>${coords(h)}</coordinates></LinearRing></innerBoundaryIs>`),
+    "</Polygon>",
+  ].join("");
+}
+
+export function fencesToKml(fences: Geofence[], docName = "Geofences") {
+  const placemarks = fencesToFeatureCollection(fences).features.map((f) => {
+    const g = f.geometry;
+    const shape =
+      g.type === "Polygon" ? kmlPolygon(g.coordinates) : `<MultiGeometry>${g.coordinates.map(kmlPolygon).join("")}</MultiGeometry>`;
+    return `<Placemark><name>${escapeXml(String(f.properties?.name ?? ""))}</name>${shape}</Placemark>`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2"><Document>',
+    `<name>${escapeXml(docName)}</name>`,
+    ...placemarks,
+    "</Document></kml>",
+  ].join("\n");
+}
+
+// Shoelace; positive when counter-clockwise
+function signedArea(ring: Position[]) {
+  let a = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) a += (ring[j][0] - ring[i][0]) * (ring[j][1] + ring[i][1]);
+  return a / 2;
+}
+
+// Shapefile readers tell holes from outer rings by winding: outer rings
+// clockwise, holes counter-clockwise (the reverse of GeoJSON's advice)
+function shapefileWinding(rings: Position[][]) {
+  return rings.map((ring, i) => {
+    const clockwise = signedArea(ring) < 0;
+    return clockwise === (i === 0) ? ring : [...ring].reverse();
+  });
+}
+
+/** File contents for the chosen format, ready to download. */
+export async function exportFences(
+  fences: Geofence[],
+  format: FenceFileFormat,
+  baseName: string
+): Promise<{ blob: Blob; filename: string }> {
+  switch (format) {
+    case "geojson":
+      return {
+        blob: new Blob([JSON.stringify(fencesToFeatureCollection(fences), null, 2)], { type: "application/geo+json" }),
+        filename: `${baseName}.geojson`,
+      };
+
+    case "kml":
+      return {
+        blob: new Blob([fencesToKml(fences, baseName)], { type: "application/vnd.google-earth.kml+xml" }),
+        filename: `${baseName}.kml`,
+      };
+
+    case "kmz": {
+      const data = zipSync({ "doc.kml": strToU8(fencesToKml(fences, baseName)) });
+      return { blob: new Blob([data], { type: "application/vnd.google-earth.kmz" }), filename: `${baseName}.kmz` };
+    }
+
+    case "shapefile": {
+      // shp-write writes Polygon and MultiPolygon features to the same file
+      // name, so the second would replace the first; send them all as
+      // MultiPolygon. Attribute names are cut to the 10 characters DBF allows.
+      const fc = fencesToFeatureCollection(fences);
+      fc.features = fc.features.map((f) => {
+        const parts = f.geometry.type === "Polygon" ? [f.geometry.coordinates] : f.geometry.coordinates;
+        return { ...f, geometry: { type: "MultiPolygon", coordinates: parts.map(shapefileWinding) } };
+      });
+      const blob = await shpZip<"blob">(fc, {
+        folder: baseName,
+        outputType: "blob",
+        compression: "DEFLATE",
+        types: { polygon: baseName },
+      });
+      return { blob, filename: `${baseName}.zip` };
+    }
+  }
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,210 @@
+// src/geo.ts
+// Geometry helpers for geofences. GeoJSON order throughout: [lon, lat].
+
+import { buffer } from "@turf/buffer";
+import { union } from "@turf/union";
+import type { LineString, Position } from "geojson";
+
+import type { GeofenceGeometry } from "./api/types";
+
+const EARTH_RADIUS_M = 6371000;
+// Equatorial radius, as used for geodesic areas
+const WGS84_RADIUS_M = 6378137;
+const SQ_METERS_PER_ACRE = 4046.8564224;
+
+function closeRing(ring: Position[]): Position[] {
+  if (ring.length === 0) return ring;
+  const [first, last] = [ring[0], ring[ring.length - 1]];
+  return first[0] === last[0] && first[1] === last[1] ? ring : [...ring, first];
+}
+
+/** Great-circle distance. */
+export function haversineMeters(a: { lat: number; lon: number }, b: { lat: number; lon: number }) {
+  const toRad = (v: number) => (v * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLon = toRad(b.lon - a.lon);
+  const lat1 = toRad(a.lat);
+  const lat2 = toRad(b.lat);
+
+  const sinDLat = Math.sin(dLat / 2);
+  const sinDLon = Math.sin(dLon / 2);
+
+  const h = sinDLat * sinDLat + Math.cos(lat1) * Math.cos(lat2) * sinDLon * sinDLon;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * Robust GeoJSON polygon validator (Polygon + MultiPolygon).
+ * Prevents Leaflet crashes by rejecting weird coordinate shapes (bbox / NaN / etc).
+ */
+export function isValidGeoJsonPolygonGeometry(geom: any): geom is GeofenceGeometry {
+  if (!geom || typeof geom !== "object") return false;
+
+  const t = geom.type;
+  const coords = geom.coordinates;
+
+  if (t !== "Polygon" && t !== "MultiPolygon") return false;
+  if (!Array.isArray(coords)) return false;
+
+  // Validate a single [lng,lat] coordinate pair
+  const isCoord = (c: any) =>
+    Array.isArray(c) &&
+    c.length >= 2 &&
+    Number.isFinite(Number(c[0])) &&
+    Number.isFinite(Number(c[1])) &&
+    Math.abs(Number(c[0])) <= 180 &&
+    Math.abs(Number(c[1])) <= 90;
+
+  if (t === "Polygon") {
+    // coords: [ ring1, ring2... ], ring: [ [lng,lat], ... ]
+    if (!Array.isArray(coords[0])) return false;
+    const ring = coords[0];
+    if (!Array.isArray(ring) || ring.length < 4) return false;
+    return ring.every(isCoord);
+  }
+
+  // MultiPolygon: [ polygon1, polygon2... ], polygon: [ ring1, ring2... ]
+  if (!Array.isArray(coords[0]) || !Array.isArray(coords[0][0])) return false;
+  const firstPoly = coords[0];
+  const firstRing = firstPoly?.[0];
+  if (!Array.isArray(firstRing) || firstRing.length < 4) return false;
+  return firstRing.every(isCoord);
+}
+
+/** Closed GeoJSON ring from Leaflet points. */
+export function ringFromLatLngs(points: { lat: number; lng: number }[]): Position[] {
+  return closeRing(points.map((p) => [p.lng, p.lat]));
+}
+
+/** Polygon ring approximating a circle, for cutting round holes. */
+export function circleRing(lat: number, lon: number, radiusM: number, steps = 48): Position[] {
+  const d = radiusM / EARTH_RADIUS_M;
+  const lat1 = (lat * Math.PI) / 180;
+  const lon1 = (lon * Math.PI) / 180;
+  const ring: Position[] = [];
+
+  for (let i = 0; i < steps; i++) {
+    const bearing = (2 * Math.PI * i) / steps;
+    const lat2 = Math.asin(Math.sin(lat1) * Math.cos(d) + Math.cos(lat1) * Math.sin(d) * Math.cos(bearing));
+    const lon2 =
+      lon1 + Math.atan2(Math.sin(bearing) * Math.sin(d) * Math.cos(lat1), Math.cos(d) - Math.sin(lat1) * Math.sin(lat2));
+    ring.push([(lon2 * 180) / Math.PI, (lat2 * 180) / Math.PI]);
+  }
+
+  return closeRing(ring);
+}
+
+/** Ray casting; points exactly on the edge may land either way. */
+export function pointInRing([x, y]: Position, ring: Position[]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+}
+
+/** Inside an outer ring and outside its holes, in any part. */
+export function pointInGeometry(pt: Position, geom: GeofenceGeometry): boolean {
+  const parts = geom.type === "Polygon" ? [geom.coordinates] : geom.coordinates;
+  return parts.some(([outer, ...holes]) => pointInRing(pt, outer) && !holes.some((h) => pointInRing(pt, h)));
+}
+
+/**
+ * Meters from the point to the nearest edge (outer ring or hole). Projects
+ * around the point, which is plenty at fence scale.
+ */
+export function distanceToEdgeM([lon, lat]: Position, geom: GeofenceGeometry): number {
+  const mPerDeg = (EARTH_RADIUS_M * Math.PI) / 180;
+  const kx = mPerDeg * Math.cos((lat * Math.PI) / 180);
+  const parts = geom.type === "Polygon" ? [geom.coordinates] : geom.coordinates;
+
+  let best = Infinity;
+  for (const rings of parts) {
+    for (const ring of rings) {
+      for (let i = 1; i < ring.length; i++) {
+        const ax = (ring[i - 1][0] - lon) * kx;
+        const ay = (ring[i - 1][1] - lat) * mPerDeg;
+        const bx = (ring[i][0] - lon) * kx;
+        const by = (ring[i][1] - lat) * mPerDeg;
+        const dx = bx - ax;
+        const dy = by - ay;
+        const len2 = dx * dx + dy * dy;
+        const t = len2 > 0 ? Math.max(0, Math.min(1, -(ax * dx + ay * dy) / len2)) : 0;
+        best = Math.min(best, Math.hypot(ax + t * dx, ay + t * dy));
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * A lane `widthM` wide centred on the line. Null for lines under two points
+ * or a non-positive width.
+ */
+export function corridorGeometry(line: Position[], widthM: number): GeofenceGeometry | null {
+  if (line.length < 2 || !(widthM > 0)) return null;
+  const centerline: LineString = { type: "LineString", coordinates: line };
+  return buffer(centerline, widthM / 2, { units: "meters", steps: 8 })?.geometry ?? null;
+}
+
+/**
+ * Cuts `hole` out of the part of the fence that fully contains it.
+ * Null when no part does.
+ */
+export function addHole(geom: GeofenceGeometry, hole: Position[]): GeofenceGeometry | null {
+  const ring = closeRing(hole);
+  const parts = geom.type === "Polygon" ? [geom.coordinates] : geom.coordinates;
+  const target = parts.findIndex((rings) => ring.every((pt) => pointInRing(pt, rings[0])));
+  if (target === -1) return null;
+
+  const next = parts.map((rings, i) => (i === target ? [...rings, ring] : rings));
+  return geom.type === "Polygon" ? { type: "Polygon", coordinates: next[0] } : { type: "MultiPolygon", coordinates: next };
+}
+
+/** Adds a separate area, turning the fence into a MultiPolygon. */
+export function addPart(geom: GeofenceGeometry, outer: Position[]): GeofenceGeometry {
+  const parts = geom.type === "Polygon" ? [geom.coordinates] : geom.coordinates;
+  return { type: "MultiPolygon", coordinates: [...parts, [closeRing(outer)]] };
+}
+
+// Area on the sphere (Chamberlain & Duquette); fine at pasture scale
+function ringAreaM2(ring: Position[]): number {
+  const pts = closeRing(ring).slice(0, -1);
+  const n = pts.length;
+  if (n < 3) return 0;
+
+  const rad = (deg: number) => (deg * Math.PI) / 180;
+  let total = 0;
+  for (let i = 0; i < n; i++) {
+    const lower = pts[i];
+    const middle = pts[(i + 1) % n];
+    const upper = pts[(i + 2) % n];
+    total += (rad(upper[0]) - rad(lower[0])) * Math.sin(rad(middle[1]));
+  }
+  return Math.abs((total * WGS84_RADIUS_M * WGS84_RADIUS_M) / 2);
+}
+
+/** Enclosed area in acres, holes excluded. */
+export function areaAcres(geom: GeofenceGeometry): number {
+  const parts = geom.type === "Polygon" ? [geom.coordinates] : geom.coordinates;
+  const m2 = parts.reduce(
+    (sum, [outer, ...holes]) => sum + ringAreaM2(outer) - holes.reduce((h, ring) => h + ringAreaM2(ring), 0),
+    0
+  );
+  return m2 / SQ_METERS_PER_ACRE;
+}
+
+/**
+ * Dissolves the shapes into one outline. Shapes that don't touch stay
+ * separate areas of a MultiPolygon.
+ */
+export function mergeGeometries(geoms: GeofenceGeometry[]): GeofenceGeometry | null {
+  if (geoms.length <= 1) return geoms[0] ?? null;
+  const merged = union({
+    type: "FeatureCollection",
+    features: geoms.map((geometry) => ({ type: "Feature", properties: {}, geometry })),
+  });
+  return merged?.geometry ?? null;
+}
@@ -0,0 +1,104 @@
+// src/geofenceRules.ts
+// Defaults and display helpers for per-fence alert rules. The backend does
+// the alerting; the dashboard edits the rules and shows what they mean.
+
+import type { Geofence, GeofenceRules, GeofenceSchedule } from "./api/types";
+
+export const DEFAULT_GEOFENCE_RULES: GeofenceRules = {
+  mode: "keep_in",
+  schedule: null,
+  minDwellSec: 60,
+  minDistanceM: 10,
+  deviceIds: [],
+  groupIds: [],
+};
+
+export const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export function rulesOf(fence: Geofence): GeofenceRules {
+  return { ...DEFAULT_GEOFENCE_RULES, ...fence.rules };
+}
+
+function minutesOf(hhmm: string): number {
+  const [h, m] = hhmm.split(":").map(Number);
+  return (h || 0) * 60 + (m || 0);
+}
+
+// Weekday and minutes past midnight of `at` on the wall clock in `timeZone`
+function wallClock(at: Date, timeZone?: string | null): { day: number; minutes: number } {
+  if (timeZone) {
+    try {
+      const parts = new Intl.DateTimeFormat("en-US", {
+        timeZone,
+        weekday: "short",
+        hour: "2-digit",
+        minute: "2-digit",
+        hourCycle: "h23",
+      }).formatToParts(at);
+      const part = (type: string) => parts.find((p) => p.type === type)?.value ?? "";
+      return { day: WEEKDAYS.indexOf(part("weekday")), minutes: Number(part("hour")) * 60 + Number(part("minute")) };
+    } catch {
+      // Unknown zone name: fall through to the browser's
+    }
+  }
+  return { day: at.getDay(), minutes: at.getHours() * 60 + at.getMinutes() };
+}
+
+/**
+ * Whether the schedule covers `at`, read in `timeZone` (the browser's when
+ * omitted). A null schedule always does.
+ */
+export function isScheduleActive(schedule: GeofenceSchedule | null, at = new Date(), timeZone?: string | null): boolean {
+  if (!schedule) return true;
+
+  const { day, minutes: now } = wallClock(at, timeZone);
+  const start = minutesOf(schedule.start);
+  const end = minutesOf(schedule.end);
+  const onDay = (d: number) => schedule.days.length === 0 || schedule.days.includes(d);
+
+  if (start === end) return onDay(day);
+  if (start < end) return onDay(day) && now >= start && now < end;
+  // Wraps midnight: the early-morning half belongs to the previous day's window
+  if (now >= start) return onDay(day);
+  return now < end && onDay((day + 6) % 7);
+}
+
+function formatDuration(sec: number) {
+  if (sec < 60) return `${sec}s`;
+  const min = Math.round(sec / 60);
+  return min < 60 ? `${min} min` : `${Math.floor(min / 60)}h${min % 60 ? ` ${min % 60}m` : ""}`;
+}
+
+function describeDays(days: number[]) {
+  if (days.length === 0 || days.length === 7) return "";
+  const sorted = [...days].sort((a, b) => a - b);
+  if (sorted.join() === "1,2,3,4,5") return "weekdays ";
+  if (sorted.join() === "0,6") return "weekends ";
+  return `${sorted.map((d) => WEEKDAYS[d]).join("/")} `;
+}
+
+/** One-line summary, e.g. "Keep out • 20:00–06:00 • after 5 min, 20 m • 3 devices". */
+export function describeRules(rules: GeofenceRules): string {
+  const bits = [rules.mode === "keep_out" ? "Keep out" : "Keep in"];
+  if (rules.schedule) bits.push(`${describeDays(rules.schedule.days)}${rules.schedule.start}–${rules.schedule.end}`);
+  if (rules.minDwellSec > 0 || rules.minDistanceM > 0) {
+    const after = [rules.minDwellSec > 0 ? formatDuration(rules.minDwellSec) : "", rules.minDistanceM > 0 ? `${rules.minDistanceM} m` : ""];
+    bits.push(`after ${after.filter(Boolean).join(", ")}`);
+  }
+
+  const targets = rules.deviceIds.length + rules.groupIds.length;
+  if (targets > 0) {
+    const parts = [];
+    if (rules.deviceIds.length) parts.push(`${rules.deviceIds.length} device${rules.deviceIds.length === 1 ? "" : "s"}`);
+    if (rules.groupIds.length) parts.push(`${rules.groupIds.length} group${rules.groupIds.length === 1 ? "" : "s"}`);
+    bits.push(parts.join(" + "));
+  }
+  return bits.join(" • ");
+}
+
+export function formatBreach(dwellSec?: number | null, distanceM?: number | null): string {
+  const bits = [];
+  if (dwellSec != null) bits.push(formatDuration(Math.round(dwellSec)));
+  if (distanceM != null) bits.push(`${Math.round(distanceM)} m past the line`);
+  return bits.join(", ");
+}
@@ -0,0 +1,25 @@
+// src/herdGroups.ts
+// Colors, icons and lookups for herd groups. Group membership lives on the
+// group (a list of device ids); these turn it around per device.
+
+import type { HerdGroup } from "./api/types";
+
+export const GROUP_COLORS = ["#f59e0b", "#ec4899", "#8b5cf6", "#06b6d4", "#84cc16", "#f97316", "#14b8a6", "#eab308"];
+
+export const GROUP_ICONS = ["🐄", "🐂", "🐮", "🍼", "⭐", "🔶", "🔷", "🟢"];
+
+/** Groups each device is in, in list order. */
+export function groupsByDevice(groups: HerdGroup[]): Map<string, HerdGroup[]> {
+  const out = new Map<string, HerdGroup[]>();
+  for (const g of groups) {
+    for (const id of g.deviceIds) out.set(id, [...(out.get(id) ?? []), g]);
+  }
+  return out;
+}
+
+/** A color and icon no other group uses yet, when there is one. */
+export function nextGroupStyle(groups: HerdGroup[]): { color: string; icon: string } {
+  const color = GROUP_COLORS.find((c) => !groups.some((g) => g.color === c)) ?? GROUP_COLORS[groups.length % GROUP_COLORS.length];
+  const icon = GROUP_ICONS.find((i) => !groups.some((g) => g.icon === i)) ?? GROUP_ICONS[0];
+  return { color, icon };
+}
@@ -2,6 +2,13 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import { initNotifications } from './notifications/notify'
+import { initOfflineQueue } from './offline/queue'
+import { registerServiceWorker } from './offline/serviceWorker'
+
+registerServiceWorker()
+initOfflineQueue()
+initNotifications()
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
@@ -0,0 +1,72 @@
+// src/notifications/badge.ts
+// Unread alert count in the tab title, the favicon and (installed app) the
+// home-screen icon.
+
+const FAVICON_URL = "/icon.svg";
+const FAVICON_SIZE = 64;
+
+const baseTitle = document.title;
+let iconImage: Promise<HTMLImageElement> | null = null;
+
+function loadIcon() {
+  iconImage ??= new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = reject;
+    img.src = FAVICON_URL;
+  });
+  return iconImage;
+}
+
+function faviconLink(): HTMLLinkElement {
+  let link = document.querySelector<HTMLLinkElement>('link[rel="icon"]');
+  if (!link) {
+    link = document.createElement("link");
+    link.rel = "icon";
+    document.head.appendChild(link);
+  }
+  return link;
+}
+
+async function drawFavicon(count: number) {
+  const link = faviconLink();
+  if (count === 0) {
+    link.type = "image/svg+xml";
+    link.href = FAVICON_URL;
+    return;
+  }
+
+  const canvas = document.createElement("canvas");
+  canvas.width = canvas.height = FAVICON_SIZE;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return;
+
+  ctx.drawImage(await loadIcon(), 0, 0, FAVICON_SIZE, FAVICON_SIZE);
+
+  const r = FAVICON_SIZE * 0.3;
+  const [x, y] = [FAVICON_SIZE - r, r];
+  ctx.fillStyle = "#ef4444";
+  ctx.beginPath();
+  ctx.arc(x, y, r, 0, Math.PI * 2);
+  ctx.fill();
+
+  ctx.fillStyle = "#fff";
+  ctx.font = `bold ${Math.round(r * (count > 9 ? 1.1 : 1.4))}px sans-serif`;
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  ctx.fillText(count > 9 ? "9+" : String(count), x, y + 1);
+
+  link.type = "image/png";
+  link.href = canvas.toDataURL("image/png");
+}
+
+export function setUnreadBadge(count: number) {
+  document.title = count > 0 ? `(${count > 99 ? "99+" : count}) ${baseTitle}` : baseTitle;
+  drawFavicon(count).catch((e) => console.error("favicon badge failed", e));
+
+  const nav = navigator as Navigator & {
+    setAppBadge?: (n: number) => Promise<void>;
+    clearAppBadge?: () => Promise<void>;
+  };
+  (count > 0 ? nav.setAppBadge?.(count) : nav.clearAppBadge?.())?.catch(() => {});
+}
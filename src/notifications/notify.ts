@@ -0,0 +1,105 @@
+// src/notifications/notify.ts
+// Reacts to a live alert: a system notification while the tab is in the
+// background, and an alarm for high severity. Both follow the user's
+// preferences and quiet hours.
+
+import { alertSubject, alertTypeInfo } from "../alertTypes";
+import type { AlertRow } from "../api/types";
+import { isScheduleActive } from "../geofenceRules";
+import { getNotificationPrefs } from "./prefs";
+import { initPushPrefsSync } from "./push";
+
+const HIGH_SEVERITIES = new Set(["critical", "high"]);
+
+let audio: AudioContext | null = null;
+
+export function isHighSeverity(alert: AlertRow) {
+  return HIGH_SEVERITIES.has(alert.severity?.toLowerCase());
+}
+
+export function notificationsSupported() {
+  return "Notification" in window;
+}
+
+/** Three two-tone beeps. Silent until the page has had a click or key press. */
+export function playAlarm() {
+  if (!audio || audio.state !== "running") return;
+
+  const start = audio.currentTime + 0.05;
+  for (let i = 0; i < 6; i++) {
+    const t = start + i * 0.25;
+    const osc = audio.createOscillator();
+    const gain = audio.createGain();
+    osc.type = "square";
+    osc.frequency.value = i % 2 ? 660 : 880;
+    gain.gain.setValueAtTime(0.0001, t);
+    gain.gain.exponentialRampToValueAtTime(0.2, t + 0.02);
+    gain.gain.exponentialRampToValueAtTime(0.0001, t + 0.22);
+    osc.connect(gain).connect(audio.destination);
+    osc.start(t);
+    osc.stop(t + 0.24);
+  }
+}
+
+function titleFor(alert: AlertRow) {
+  const subject = alertSubject(alert);
+  const label = alertTypeInfo(alert.type).label;
+  return subject ? `${label}: ${subject}` : label;
+}
+
+async function showSystemNotification(alert: AlertRow, deviceLabel?: string, onClick?: () => void) {
+  const device = deviceLabel ?? alert.deviceName ?? alert.device?.name ?? alert.deviceId;
+  const options: NotificationOptions = {
+    body: `${device} — ${alert.message}`,
+    // Same tag as the push message, so one alert shows once
+    tag: alert.id,
+    icon: "/icon.svg",
+    requireInteraction: isHighSeverity(alert),
+  };
+
+  try {
+    const n = new Notification(titleFor(alert), options);
+    n.onclick = () => {
+      window.focus();
+      onClick?.();
+      n.close();
+    };
+  } catch {
+    // Android only allows notifications from the service worker
+    const reg = await navigator.serviceWorker?.getRegistration();
+    await reg?.showNotification(titleFor(alert), { ...options, data: { url: `/alerts/${encodeURIComponent(alert.id)}` } });
+  }
+}
+
+export function notifyAlert(alert: AlertRow, opts: { onClick?: () => void; deviceLabel?: string } = {}) {
+  const prefs = getNotificationPrefs();
+  if (prefs.types[alert.type] === false) return;
+
+  const high = isHighSeverity(alert);
+  const quiet = prefs.quietHours && isScheduleActive(prefs.quietHours);
+  if (quiet && !(high && prefs.criticalInQuietHours)) return;
+
+  if (prefs.sound && high) playAlarm();
+
+  if (prefs.desktop && document.hidden && notificationsSupported() && Notification.permission === "granted") {
+    showSystemNotification(alert, opts.deviceLabel, opts.onClick).catch((e) => console.error("notification failed", e));
+  }
+}
+
+/** Browsers start audio suspended; the first interaction unlocks the alarm. */
+export function initNotifications() {
+  const unlock = () => {
+    audio ??= new AudioContext();
+    audio
+      .resume()
+      .then(() => {
+        window.removeEventListener("pointerdown", unlock);
+        window.removeEventListener("keydown", unlock);
+      })
+      .catch(() => {});
+  };
+  window.addEventListener("pointerdown", unlock);
+  window.addEventListener("keydown", unlock);
+
+  initPushPrefsSync();
+}
@@ -0,0 +1,64 @@
+// src/notifications/prefs.ts
+// What this browser notifies about. Kept in localStorage per device, and
+// sent along with the push subscription so the server can filter too.
+
+import { useSyncExternalStore } from "react";
+
+import { ALERT_TYPES } from "../alertTypes";
+import type { PushPrefs } from "../api/types";
+
+export type NotificationPrefs = PushPrefs & {
+  // System notifications while the tab is in the background
+  desktop: boolean;
+  // Alarm for high-severity alerts; quiet hours silence it too
+  sound: boolean;
+};
+
+// Types offered in the settings; anything else the backend sends is on
+export const NOTIFY_ALERT_TYPES: [string, string][] = Object.entries(ALERT_TYPES).map(([type, info]) => [
+  type,
+  info.label,
+]);
+
+const STORAGE_KEY = "notificationPrefs";
+
+const DEFAULT_PREFS: NotificationPrefs = {
+  desktop: false,
+  sound: true,
+  types: {},
+  quietHours: null,
+  criticalInQuietHours: true,
+};
+
+function load(): NotificationPrefs {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? { ...DEFAULT_PREFS, ...JSON.parse(raw) } : DEFAULT_PREFS;
+  } catch {
+    return DEFAULT_PREFS;
+  }
+}
+
+let prefs = load();
+const listeners = new Set<() => void>();
+
+export function getNotificationPrefs() {
+  return prefs;
+}
+
+export function setNotificationPrefs(patch: Partial<NotificationPrefs>) {
+  prefs = { ...prefs, ...patch };
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(prefs));
+  listeners.forEach((l) => l());
+}
+
+export function subscribeNotificationPrefs(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function useNotificationPrefs() {
+  return useSyncExternalStore(subscribeNotificationPrefs, getNotificationPrefs);
+}
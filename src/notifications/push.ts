@@ -0,0 +1,71 @@
+// src/notifications/push.ts
+// Web Push: alerts reach this browser while the dashboard is closed. The
+// service worker (public/sw.js) shows them.
+
+import { api } from "../api";
+import { VAPID_PUBLIC_KEY } from "../config";
+import { getNotificationPrefs, subscribeNotificationPrefs, type NotificationPrefs } from "./prefs";
+
+// The service worker only runs in production builds
+export function pushSupported() {
+  return import.meta.env.PROD && !!VAPID_PUBLIC_KEY && "serviceWorker" in navigator && "PushManager" in window;
+}
+
+function keyBytes(base64url: string) {
+  const base64 = (base64url + "=".repeat((4 - (base64url.length % 4)) % 4)).replace(/-/g, "+").replace(/_/g, "/");
+  return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+}
+
+export async function getPushSubscription(): Promise<PushSubscription | null> {
+  if (!pushSupported()) return null;
+  // Not `ready`: that never settles when the worker failed to register, and logout waits on this
+  const reg = await navigator.serviceWorker.getRegistration();
+  return reg ? reg.pushManager.getSubscription() : null;
+}
+
+async function register(sub: PushSubscription, prefs: NotificationPrefs) {
+  const { types, quietHours, criticalInQuietHours } = prefs;
+  await api.push.subscribe({
+    subscription: sub.toJSON(),
+    prefs: { types, quietHours, criticalInQuietHours },
+    timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+  });
+}
+
+/** Asks for permission if needed. Resolves false when the user says no. */
+export async function enablePush(): Promise<boolean> {
+  if (!pushSupported()) return false;
+  if ((await Notification.requestPermission()) !== "granted") return false;
+
+  const reg = await navigator.serviceWorker.ready;
+  const sub =
+    (await reg.pushManager.getSubscription()) ??
+    (await reg.pushManager.subscribe({ userVisibleOnly: true, applicationServerKey: keyBytes(VAPID_PUBLIC_KEY) }));
+  await register(sub, getNotificationPrefs());
+  return true;
+}
+
+/** Also run on logout, while the session can still authorize the server call. */
+export async function disablePush() {
+  const sub = await getPushSubscription();
+  if (!sub) return;
+  await api.push.unsubscribe(sub.endpoint).catch((e) => console.error("push unsubscribe failed", e));
+  await sub.unsubscribe();
+}
+
+let syncTimer: number | null = null;
+
+/** Keeps the server's copy of the preferences current while subscribed. */
+export function initPushPrefsSync() {
+  subscribeNotificationPrefs(() => {
+    if (syncTimer) window.clearTimeout(syncTimer);
+    syncTimer = window.setTimeout(async () => {
+      try {
+        const sub = await getPushSubscription();
+        if (sub) await register(sub, getNotificationPrefs());
+      } catch (e) {
+        console.error("push preferences sync failed", e);
+      }
+    }, 1000);
+  });
+}
@@ -0,0 +1,63 @@
+// src/offline/db.ts
+// Minimal promise wrapper over the one IndexedDB database the app keeps
+
+const DB_NAME = "range-herd";
+const DB_VERSION = 1;
+
+export type StoreName = "snapshots" | "queue";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains("snapshots")) db.createObjectStore("snapshots");
+      if (!db.objectStoreNames.contains("queue")) db.createObjectStore("queue", { keyPath: "id" });
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => {
+      dbPromise = null;
+      reject(req.error);
+    };
+  });
+
+  return dbPromise;
+}
+
+function run<T>(store: StoreName, mode: IDBTransactionMode, op: (s: IDBObjectStore) => IDBRequest): Promise<T> {
+  return openDb().then(
+    (db) =>
+      new Promise<T>((resolve, reject) => {
+        const tx = db.transaction(store, mode);
+        const req = op(tx.objectStore(store));
+        tx.oncomplete = () => resolve(req.result as T);
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+      })
+  );
+}
+
+export function idbGet<T>(store: StoreName, key: IDBValidKey): Promise<T | undefined> {
+  return run<T | undefined>(store, "readonly", (s) => s.get(key));
+}
+
+export function idbGetAll<T>(store: StoreName): Promise<T[]> {
+  return run<T[]>(store, "readonly", (s) => s.getAll());
+}
+
+// `key` is only for stores without a keyPath
+export function idbPut(store: StoreName, value: unknown, key?: IDBValidKey): Promise<void> {
+  return run<void>(store, "readwrite", (s) => s.put(value, key));
+}
+
+export function idbDelete(store: StoreName, key: IDBValidKey): Promise<void> {
+  return run<void>(store, "readwrite", (s) => s.delete(key));
+}
+
+export function idbClear(store: StoreName): Promise<void> {
+  return run<void>(store, "readwrite", (s) => s.clear());
+}
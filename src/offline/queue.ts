@@ -0,0 +1,181 @@
+// src/offline/queue.ts
+// Actions taken without a connection are stored in IndexedDB and replayed,
+// in order, once the browser is back online.
+
+import { useSyncExternalStore } from "react";
+
+import { api, ApiError } from "../api";
+import type { CreateGeofenceInput, Geofence, UpdateAlertInput } from "../api/types";
+import { idbClear, idbDelete, idbGetAll, idbPut } from "./db";
+
+export type QueuedActionInput =
+  | { kind: "alerts.markRead"; alertId: string }
+  | { kind: "alerts.markAllRead" }
+  | { kind: "alerts.update"; alertId: string; patch: UpdateAlertInput }
+  | { kind: "geofences.create"; input: CreateGeofenceInput };
+
+export type QueuedAction = QueuedActionInput & {
+  id: string;
+  ranchId: string | null;
+  createdAt: string;
+};
+
+export type QueueState = {
+  pending: QueuedAction[];
+  syncing: boolean;
+  // Bumped after each replayed action so views can reload what it changed
+  synced: number;
+};
+
+let state: QueueState = { pending: [], syncing: false, synced: 0 };
+const listeners = new Set<() => void>();
+let flushing: Promise<void> | null = null;
+// Bumped by clearQueue so a replay in progress stops
+let generation = 0;
+
+function update(patch: Partial<QueueState>) {
+  state = { ...state, ...patch };
+  listeners.forEach((l) => l());
+}
+
+function newId() {
+  return typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+}
+
+function execute(action: QueuedAction): Promise<unknown> {
+  const scope = { ranchId: action.ranchId };
+  switch (action.kind) {
+    case "alerts.markRead":
+      return api.alerts.markRead(action.alertId, scope);
+    case "alerts.markAllRead":
+      return api.alerts.markAllRead(scope);
+    case "alerts.update":
+      return api.alerts.update(action.alertId, action.patch, scope);
+    case "geofences.create":
+      return api.geofences.create(action.input, scope);
+  }
+}
+
+function isOfflineError(e: unknown) {
+  return e instanceof ApiError && e.status === 0;
+}
+
+// Worth trying again later: offline, server trouble, or a session that needs a re-login
+function isRetryable(e: unknown) {
+  if (!(e instanceof ApiError)) return false;
+  return e.status === 0 || e.status >= 500 || e.status === 401 || e.status === 408 || e.status === 429;
+}
+
+async function enqueue(input: QueuedActionInput, ranchId: string | null) {
+  const action = { ...input, id: newId(), ranchId, createdAt: new Date().toISOString() } as QueuedAction;
+  await idbPut("queue", action);
+  update({ pending: [...state.pending, action] });
+  return action;
+}
+
+/**
+ * Sends the action now, or queues it when there's no connection (or older
+ * actions are still waiting, so order is kept). Other API errors throw.
+ */
+export async function runOrQueue(
+  input: QueuedActionInput,
+  ranchId: string | null
+): Promise<{ queued: false } | { queued: true; action: QueuedAction }> {
+  if (navigator.onLine && state.pending.length === 0) {
+    try {
+      await execute({ ...input, id: "", ranchId, createdAt: "" } as QueuedAction);
+      return { queued: false };
+    } catch (e) {
+      if (!isOfflineError(e)) throw e;
+    }
+  }
+
+  const action = await enqueue(input, ranchId);
+  if (navigator.onLine) flushQueue();
+  return { queued: true, action };
+}
+
+/** Replays queued actions oldest first; stops at the first one that can't get through. */
+export function flushQueue(): Promise<void> {
+  if (flushing) return flushing;
+
+  const started = generation;
+  flushing = (async () => {
+    update({ syncing: true });
+    try {
+      for (const action of [...state.pending].sort((a, b) => a.createdAt.localeCompare(b.createdAt))) {
+        if (generation !== started) break;
+        try {
+          await execute(action);
+        } catch (e) {
+          if (isRetryable(e)) break;
+          // Rejected for good (deleted alert, invalid fence); don't block the rest
+          console.error("dropping queued action", action, e);
+        }
+        await idbDelete("queue", action.id);
+        update({ pending: state.pending.filter((a) => a.id !== action.id), synced: state.synced + 1 });
+      }
+    } finally {
+      flushing = null;
+      update({ syncing: false });
+    }
+  })();
+
+  return flushing;
+}
+
+/**
+ * Drops everything queued, on logout: the next account on this device
+ * mustn't replay the last one's edits under its own session.
+ */
+export async function clearQueue() {
+  generation++;
+  update({ pending: [] });
+  await idbClear("queue").catch((e) => console.error("offline queue clear failed", e));
+}
+
+/** Loads what an earlier session left queued and replays it whenever the connection returns. */
+export async function initOfflineQueue() {
+  window.addEventListener("online", () => {
+    flushQueue();
+  });
+
+  try {
+    const pending = await idbGetAll<QueuedAction>("queue");
+    update({ pending });
+  } catch (e) {
+    console.error("offline queue load failed", e);
+    return;
+  }
+
+  if (navigator.onLine) flushQueue();
+}
+
+const PENDING_PREFIX = "pending:";
+
+export function isPendingGeofence(gf: Geofence) {
+  return gf.id.startsWith(PENDING_PREFIX);
+}
+
+// Stand-in for a fence drawn offline, shown until the queue syncs it
+export function queuedGeofence(action: QueuedAction): Geofence | null {
+  if (action.kind !== "geofences.create") return null;
+  return { ...action.input, id: `${PENDING_PREFIX}${action.id}`, createdAt: action.createdAt };
+}
+
+export function getQueueState() {
+  return state;
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function useOfflineQueue() {
+  return useSyncExternalStore(subscribe, getQueueState);
+}
@@ -0,0 +1,13 @@
+// src/offline/serviceWorker.ts
+
+/**
+ * Registers public/sw.js. Production only: in dev it would serve stale
+ * modules over Vite's hot reload.
+ */
+export function registerServiceWorker() {
+  if (!import.meta.env.PROD || !("serviceWorker" in navigator)) return;
+
+  window.addEventListener("load", () => {
+    navigator.serviceWorker.register("/sw.js").catch((e) => console.error("service worker registration failed", e));
+  });
+}
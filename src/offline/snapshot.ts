@@ -0,0 +1,45 @@
+// src/offline/snapshot.ts
+// Last-known dashboard data per ranch, so the map opens with positions
+// even when the first requests can't get out.
+
+import type { Animal, DeviceRow, Geofence, HerdGroup, LivePoint } from "../api/types";
+import { idbClear, idbGet, idbPut } from "./db";
+
+export type RanchSnapshot = {
+  devices: DeviceRow[];
+  unclaimed: DeviceRow[];
+  pointsByDevice: Record<string, LivePoint[]>;
+  geofences: Geofence[];
+  // Missing on snapshots saved before the registry and groups existed
+  animals?: Animal[];
+  groups?: HerdGroup[];
+  savedAt: string;
+};
+
+const key = (ranchId: string | null) => `ranch:${ranchId ?? "default"}`;
+
+export async function loadSnapshot(ranchId: string | null): Promise<RanchSnapshot | null> {
+  try {
+    return (await idbGet<RanchSnapshot>("snapshots", key(ranchId))) ?? null;
+  } catch (e) {
+    console.error("snapshot load failed", e);
+    return null;
+  }
+}
+
+export async function saveSnapshot(ranchId: string | null, snap: Omit<RanchSnapshot, "savedAt">) {
+  try {
+    await idbPut("snapshots", { ...snap, savedAt: new Date().toISOString() }, key(ranchId));
+  } catch (e) {
+    console.error("snapshot save failed", e);
+  }
+}
+
+// On logout; snapshots hold the signed-in user's ranch data
+export async function clearSnapshots() {
+  try {
+    await idbClear("snapshots");
+  } catch (e) {
+    console.error("snapshot clear failed", e);
+  }
+}
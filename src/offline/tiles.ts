@@ -0,0 +1,120 @@
+// src/offline/tiles.ts
+// Tile packs: every basemap tile covering a ranch's bounds over a zoom
+// range, stored in the Cache API where the service worker serves them.
+
+import { TILE_URL } from "../config";
+
+// Must match TILE_CACHE in public/sw.js
+export const TILE_CACHE = "rh-tiles-v1";
+
+// Hard stop so a careless zoom range can't fill the device
+export const MAX_PACK_TILES = 20_000;
+
+const CONCURRENCY = 4;
+
+export type Bounds = { south: number; west: number; north: number; east: number };
+
+export type TileCoord = { z: number; x: number; y: number };
+
+function lonToX(lon: number, z: number) {
+  return Math.floor(((lon + 180) / 360) * 2 ** z);
+}
+
+function latToY(lat: number, z: number) {
+  const r = (Math.max(-85.0511, Math.min(85.0511, lat)) * Math.PI) / 180;
+  return Math.floor(((1 - Math.log(Math.tan(r) + 1 / Math.cos(r)) / Math.PI) / 2) * 2 ** z);
+}
+
+function tileRange(b: Bounds, z: number) {
+  const max = 2 ** z - 1;
+  const clamp = (v: number) => Math.max(0, Math.min(max, v));
+  return {
+    x0: clamp(lonToX(b.west, z)),
+    x1: clamp(lonToX(b.east, z)),
+    // y grows southwards
+    y0: clamp(latToY(b.north, z)),
+    y1: clamp(latToY(b.south, z)),
+  };
+}
+
+export function countTiles(b: Bounds, minZoom: number, maxZoom: number) {
+  let n = 0;
+  for (let z = minZoom; z <= maxZoom; z++) {
+    const r = tileRange(b, z);
+    n += (r.x1 - r.x0 + 1) * (r.y1 - r.y0 + 1);
+  }
+  return n;
+}
+
+function* tilesIn(b: Bounds, minZoom: number, maxZoom: number): Generator<TileCoord> {
+  for (let z = minZoom; z <= maxZoom; z++) {
+    const r = tileRange(b, z);
+    for (let x = r.x0; x <= r.x1; x++) {
+      for (let y = r.y0; y <= r.y1; y++) yield { z, x, y };
+    }
+  }
+}
+
+// Always the "a" host: the service worker folds a/b/c onto it when looking up
+export function tileUrl({ z, x, y }: TileCoord) {
+  return TILE_URL.replace("{s}", "a")
+    .replace("{z}", String(z))
+    .replace("{x}", String(x))
+    .replace("{y}", String(y))
+    .replace("{r}", "");
+}
+
+export type PackProgress = { done: number; failed: number; total: number };
+
+/**
+ * Downloads the pack, skipping tiles already cached. Resolves with the final
+ * counts; rejects with an AbortError if `signal` fires.
+ */
+export async function downloadTilePack(
+  bounds: Bounds,
+  minZoom: number,
+  maxZoom: number,
+  opts: { signal?: AbortSignal; onProgress?: (p: PackProgress) => void } = {}
+): Promise<PackProgress> {
+  const total = countTiles(bounds, minZoom, maxZoom);
+  if (total > MAX_PACK_TILES) {
+    throw new Error(`That is ${total} tiles; the limit is ${MAX_PACK_TILES}. Lower the max zoom.`);
+  }
+
+  const cache = await caches.open(TILE_CACHE);
+  const progress: PackProgress = { done: 0, failed: 0, total };
+  const queue = tilesIn(bounds, minZoom, maxZoom);
+
+  async function worker() {
+    for (let next = queue.next(); !next.done; next = queue.next()) {
+      if (opts.signal?.aborted) throw new DOMException("Aborted", "AbortError");
+
+      const url = tileUrl(next.value);
+      try {
+        if (!(await cache.match(url))) {
+          const res = await fetch(url, { mode: "cors", signal: opts.signal });
+          if (!res.ok) throw new Error(`${res.status}`);
+          await cache.put(url, res);
+        }
+        progress.done++;
+      } catch {
+        if (opts.signal?.aborted) throw new DOMException("Aborted", "AbortError");
+        progress.failed++;
+      }
+      opts.onProgress?.({ ...progress });
+    }
+  }
+
+  await Promise.all(Array.from({ length: CONCURRENCY }, worker));
+  return progress;
+}
+
+export async function cachedTileCount() {
+  if (!("caches" in window)) return 0;
+  const cache = await caches.open(TILE_CACHE);
+  return (await cache.keys()).length;
+}
+
+export async function clearTilePacks() {
+  await caches.delete(TILE_CACHE);
+}
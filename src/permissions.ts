@@ -0,0 +1,45 @@
+// src/permissions.ts
+// Role-based UI gating. The backend enforces the same rules; this only hides
+// controls a member isn't allowed to use.
+
+export type Role = "owner" | "hand" | "viewer";
+
+export const ROLES: Role[] = ["owner", "hand", "viewer"];
+
+export type Permissions = {
+  // Claim, bulk claim and rename
+  canClaimDevices: boolean;
+  // Unclaim, or transfer to another ranch
+  canReleaseDevices: boolean;
+  canEditGeofences: boolean;
+  // Create herd groups and choose which devices are in them
+  canManageGroups: boolean;
+  canMarkAlertsRead: boolean;
+  // Acknowledge, assign, resolve and comment
+  canHandleAlerts: boolean;
+  // Battery, signal, temperature and offline thresholds
+  canManageAlertRules: boolean;
+  // Registry records, weights and which tracker an animal wears
+  canEditAnimals: boolean;
+  canManageTeam: boolean;
+};
+
+// Unknown or missing roles get the least privilege
+export function normalizeRole(role: unknown): Role {
+  return ROLES.includes(role as Role) ? (role as Role) : "viewer";
+}
+
+export function permissionsFor(role: unknown): Permissions {
+  const r = normalizeRole(role);
+  return {
+    canClaimDevices: r === "owner" || r === "hand",
+    canReleaseDevices: r === "owner",
+    canEditGeofences: r === "owner",
+    canManageGroups: r === "owner" || r === "hand",
+    canMarkAlertsRead: r === "owner" || r === "hand",
+    canHandleAlerts: r === "owner" || r === "hand",
+    canManageAlertRules: r === "owner",
+    canEditAnimals: r === "owner" || r === "hand",
+    canManageTeam: r === "owner",
+  };
+}
@@ -0,0 +1,154 @@
+// src/router.ts
+// Minimal History API router. Paths identify what is selected; the map
+// viewport rides along in the query string (?map=lat,lon,zoom) so a pasted
+// link reopens the same view.
+
+import { useMemo, useSyncExternalStore } from "react";
+
+export type Route =
+  | { name: "home" }
+  | { name: "login" }
+  | { name: "register" }
+  | { name: "team" }
+  | { name: "animals" }
+  | { name: "animal"; id: string }
+  | { name: "device"; id: string }
+  // Full-page charts for one device
+  | { name: "telemetry"; id: string }
+  | { name: "geofence"; id: string }
+  | { name: "alert"; id: string }
+  | { name: "invite"; token: string };
+
+export type MapView = {
+  lat: number;
+  lon: number;
+  zoom: number;
+};
+
+export type Location = {
+  route: Route;
+  map: MapView | null;
+};
+
+const NAVIGATE_EVENT = "rh:navigate";
+
+const PATTERNS: [RegExp, (m: RegExpMatchArray) => Route][] = [
+  [/^\/login\/?$/, () => ({ name: "login" })],
+  [/^\/register\/?$/, () => ({ name: "register" })],
+  [/^\/team\/?$/, () => ({ name: "team" })],
+  [/^\/animals\/?$/, () => ({ name: "animals" })],
+  [/^\/animals\/([^/]+)\/?$/, (m) => ({ name: "animal", id: decodeURIComponent(m[1]) })],
+  [/^\/devices\/([^/]+)\/?$/, (m) => ({ name: "device", id: decodeURIComponent(m[1]) })],
+  [/^\/devices\/([^/]+)\/telemetry\/?$/, (m) => ({ name: "telemetry", id: decodeURIComponent(m[1]) })],
+  [/^\/geofences\/([^/]+)\/?$/, (m) => ({ name: "geofence", id: decodeURIComponent(m[1]) })],
+  [/^\/alerts\/([^/]+)\/?$/, (m) => ({ name: "alert", id: decodeURIComponent(m[1]) })],
+  [/^\/invite\/([^/]+)\/?$/, (m) => ({ name: "invite", token: decodeURIComponent(m[1]) })],
+];
+
+function parseMapView(raw: string | null): MapView | null {
+  if (!raw) return null;
+  const [lat, lon, zoom] = raw.split(",").map(Number);
+  if (![lat, lon, zoom].every(Number.isFinite)) return null;
+  if (Math.abs(lat) > 90 || Math.abs(lon) > 180) return null;
+  return { lat, lon, zoom: Math.round(zoom) };
+}
+
+export function parseLocation(pathname: string, search: string): Location {
+  const params = new URLSearchParams(search);
+  const map = parseMapView(params.get("map"));
+
+  // Older invite links use ?invite=<token>
+  const legacyInvite = params.get("invite");
+  if (legacyInvite) return { route: { name: "invite", token: legacyInvite }, map };
+
+  for (const [re, build] of PATTERNS) {
+    const m = pathname.match(re);
+    if (m) return { route: build(m), map };
+  }
+  return { route: { name: "home" }, map };
+}
+
+export function routePath(route: Route): string {
+  switch (route.name) {
+    case "home":
+      return "/";
+    case "login":
+      return "/login";
+    case "register":
+      return "/register";
+    case "team":
+      return "/team";
+    case "animals":
+      return "/animals";
+    case "animal":
+      return `/animals/${encodeURIComponent(route.id)}`;
+    case "device":
+      return `/devices/${encodeURIComponent(route.id)}`;
+    case "telemetry":
+      return `/devices/${encodeURIComponent(route.id)}/telemetry`;
+    case "geofence":
+      return `/geofences/${encodeURIComponent(route.id)}`;
+    case "alert":
+      return `/alerts/${encodeURIComponent(route.id)}`;
+    case "invite":
+      return `/invite/${encodeURIComponent(route.token)}`;
+  }
+}
+
+export function formatMapView(view: MapView): string {
+  return `${view.lat.toFixed(5)},${view.lon.toFixed(5)},${view.zoom}`;
+}
+
+function buildUrl(route: Route, map: MapView | null) {
+  const path = routePath(route);
+  return map ? `${path}?map=${formatMapView(map)}` : path;
+}
+
+function currentMap() {
+  return parseLocation(window.location.pathname, window.location.search).map;
+}
+
+/**
+ * Go to a route. The current map viewport is carried over unless one is given.
+ */
+export function navigate(route: Route, opts: { replace?: boolean; map?: MapView | null } = {}) {
+  const map = opts.map !== undefined ? opts.map : currentMap();
+  const url = buildUrl(route, map);
+  if (url === window.location.pathname + window.location.search) return;
+
+  if (opts.replace) window.history.replaceState(null, "", url);
+  else window.history.pushState(null, "", url);
+  window.dispatchEvent(new Event(NAVIGATE_EVENT));
+}
+
+/**
+ * Record the map viewport without adding a history entry for every pan.
+ */
+export function replaceMapView(map: MapView) {
+  const { route } = parseLocation(window.location.pathname, window.location.search);
+  const url = buildUrl(route, map);
+  if (url === window.location.pathname + window.location.search) return;
+  window.history.replaceState(null, "", url);
+  window.dispatchEvent(new Event(NAVIGATE_EVENT));
+}
+
+function subscribe(onChange: () => void) {
+  window.addEventListener("popstate", onChange);
+  window.addEventListener(NAVIGATE_EVENT, onChange);
+  return () => {
+    window.removeEventListener("popstate", onChange);
+    window.removeEventListener(NAVIGATE_EVENT, onChange);
+  };
+}
+
+function getSnapshot() {
+  return window.location.pathname + window.location.search;
+}
+
+export function useLocation(): Location {
+  const href = useSyncExternalStore(subscribe, getSnapshot);
+  return useMemo(() => {
+    const url = new URL(href, window.location.origin);
+    return parseLocation(url.pathname, url.search);
+  }, [href]);
+}
@@ -0,0 +1,11 @@
+// shpjs ships without types (the DefinitelyTyped ones pull in Node's Buffer)
+declare module "shpjs" {
+  import type { FeatureCollection } from "geojson";
+
+  type FeatureCollectionWithFilename = FeatureCollection & { fileName?: string };
+
+  /** Parses a zipped shapefile (with .dbf / .prj, reprojected to WGS84). */
+  export default function shp(
+    input: ArrayBuffer | string
+  ): Promise<FeatureCollectionWithFilename | FeatureCollectionWithFilename[]>;
+}
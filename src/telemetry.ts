@@ -0,0 +1,117 @@
+// src/telemetry.ts
+// Turns a device's raw fixes into chartable series: sensor readings over
+// time, missed uplinks from frame-counter gaps, and distance walked per day.
+
+import type { LivePoint } from "./api/types";
+import { haversineMeters } from "./geo";
+
+export type SeriesPoint = { t: number; v: number };
+
+export type TelemetryField = "batteryPct" | "batteryV" | "rssi" | "snr" | "temperatureC";
+
+// Faster than this between two fixes is a GPS glitch, not a cow
+const MAX_PLAUSIBLE_SPEED_MS = 15;
+
+export function fixMs(p: LivePoint): number {
+  const v = new Date(p.ts || p.receivedAt || 0).getTime();
+  return Number.isFinite(v) ? v : 0;
+}
+
+/** Fixes with a usable timestamp, oldest first. */
+export function sortFixes(points: LivePoint[]): LivePoint[] {
+  return points.filter((p) => fixMs(p) > 0).sort((a, b) => fixMs(a) - fixMs(b));
+}
+
+export function seriesOf(points: LivePoint[], field: TelemetryField): SeriesPoint[] {
+  const out: SeriesPoint[] = [];
+  for (const p of points) {
+    const v = p[field];
+    if (v != null && Number.isFinite(v)) out.push({ t: fixMs(p), v });
+  }
+  return out;
+}
+
+/**
+ * Averages a sorted series into at most `buckets` points, so a month of
+ * five-minute fixes doesn't draw thousands of segments.
+ */
+export function downsample(series: SeriesPoint[], buckets: number): SeriesPoint[] {
+  if (series.length <= buckets) return series;
+
+  const start = series[0].t;
+  const span = series[series.length - 1].t - start || 1;
+  const sums = new Map<number, { t: number; v: number; n: number }>();
+  for (const { t, v } of series) {
+    const i = Math.min(buckets - 1, Math.floor(((t - start) / span) * buckets));
+    const b = sums.get(i) ?? { t: 0, v: 0, n: 0 };
+    b.t += t;
+    b.v += v;
+    b.n++;
+    sums.set(i, b);
+  }
+  return [...sums.values()].map((b) => ({ t: b.t / b.n, v: b.v / b.n }));
+}
+
+/**
+ * Uplinks that never arrived, from jumps in the LoRaWAN frame counter.
+ * Each point is a fix that followed a gap, valued by how many frames went
+ * missing. A counter going backwards is a device reset, not a gap.
+ */
+export function frameGaps(points: LivePoint[]): { gaps: SeriesPoint[]; missed: number; expected: number } {
+  const gaps: SeriesPoint[] = [];
+  let missed = 0;
+  let expected = 0;
+  let prev: number | null = null;
+
+  for (const p of points) {
+    const f = p.fCnt;
+    if (f == null || !Number.isFinite(f)) continue;
+    if (prev != null && f > prev) {
+      const lost = f - prev - 1;
+      expected += f - prev;
+      if (lost > 0) {
+        missed += lost;
+        gaps.push({ t: fixMs(p), v: lost });
+      }
+    }
+    prev = f;
+  }
+  return { gaps, missed, expected };
+}
+
+function startOfDay(ms: number) {
+  const d = new Date(ms);
+  d.setHours(0, 0, 0, 0);
+  return d.getTime();
+}
+
+/** Meters traveled per local calendar day, skipping implausible jumps. */
+export function dailyDistance(points: LivePoint[]): SeriesPoint[] {
+  const byDay = new Map<number, number>();
+  let prev: LivePoint | null = null;
+
+  for (const p of points) {
+    if (!Number.isFinite(p.lat) || !Number.isFinite(p.lon)) continue;
+    const day = startOfDay(fixMs(p));
+    if (!byDay.has(day)) byDay.set(day, 0);
+
+    if (prev) {
+      const d = haversineMeters(prev, p);
+      const sec = (fixMs(p) - fixMs(prev)) / 1000;
+      if (sec > 0 && d / sec <= MAX_PLAUSIBLE_SPEED_MS) byDay.set(day, byDay.get(day)! + d);
+    }
+    prev = p;
+  }
+  return [...byDay.entries()].map(([t, v]) => ({ t, v }));
+}
+
+/** Sums point values into fixed-width time buckets, for bar charts. */
+export function bucketSum(series: SeriesPoint[], fromMs: number, toMs: number, buckets: number): SeriesPoint[] {
+  const width = Math.max(1, (toMs - fromMs) / buckets);
+  const out = Array.from({ length: buckets }, (_, i) => ({ t: fromMs + i * width, v: 0 }));
+  for (const { t, v } of series) {
+    const i = Math.floor((t - fromMs) / width);
+    if (i >= 0 && i < buckets) out[i].v += v;
+  }
+  return out;
+}
@@ -5,6 +5,10 @@ const BACKEND_URL = process.env.VITE_API_URL || 'http://localhost:8080'
 
 export default defineConfig({
   plugins: [react()],
+  build: {
+    // Read by public/sw.js to precache the hashed assets
+    manifest: 'asset-manifest.json',
+  },
   preview: {
     host: '0.0.0.0',
     port: 4173,